@@ -0,0 +1,40 @@
+/*
+ * Habit reminder handlers, imported by sw.js.
+ *
+ * Shows Web Push reminders sent by the `send-reminders` edge function, which
+ * reach the browser even when the app is closed. Payloads are
+ * `{ title, body, tag, url }`; the tag collapses duplicates of the same
+ * reminder. Without push, the open app shows reminders through the
+ * worker's registration (see ReminderScheduler).
+ */
+
+const showReminder = (reminder) =>
+  self.registration.showNotification(reminder.title || 'Habit reminder', {
+    body: reminder.body || '',
+    tag: reminder.tag,
+    data: { url: reminder.url || '/' },
+  });
+
+self.addEventListener('push', (event) => {
+  let reminder = {};
+  try {
+    reminder = event.data ? event.data.json() : {};
+  } catch {
+    reminder = { body: event.data ? event.data.text() : '' };
+  }
+  event.waitUntil(showReminder(reminder));
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => client.url.startsWith(self.location.origin));
+      // Open the habit the reminder is about in the app's window
+      if (existing) return existing.focus().then((client) => client.navigate(url).catch(() => client));
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,74 @@
+// Local stand-in for a hosted goal analyzer, for exercising the HTTP
+// provider. Run with `npm run goal-stub` and set
+//   VITE_GOAL_ANALYZER=http
+//   VITE_GOAL_ANALYZER_URL=http://localhost:8787/analyze
+// With STUB_MALFORMED=1 the first attempt for each goal returns invalid
+// output, so the client's validation and retry path can be tested.
+import { createServer } from 'node:http';
+
+const port = Number(process.env.PORT) || 8787;
+const malformedFirst = process.env.STUB_MALFORMED === '1';
+
+const suggestionsFor = (goal) => {
+  const words = goal.toLowerCase().match(/[a-z]+/g) || [];
+  const focus = words.filter((word) => word.length > 3).slice(0, 2).join(' ') || 'your goal';
+
+  return [
+    {
+      title: `Practice ${focus}`,
+      description: `Spend 30 minutes practising ${focus}`,
+      category: 'Study',
+      frequency: 'daily',
+      difficulty: 'medium',
+      icon: '🎯',
+      reasoning: `Daily practice is the fastest route to "${goal}"`,
+    },
+    {
+      title: 'Weekly Review',
+      description: `Review progress towards "${goal}" and plan the next week`,
+      category: 'General',
+      frequency: 'weekly',
+      difficulty: 'easy',
+      icon: '🗓️',
+      reasoning: 'Regular reviews keep effort aligned with the goal',
+    },
+  ];
+};
+
+const server = createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+  if (req.method !== 'POST' || req.url !== '/analyze') {
+    res.writeHead(404).end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    let request;
+    try {
+      request = JSON.parse(body);
+    } catch {
+      res.writeHead(400).end('Invalid JSON');
+      return;
+    }
+
+    const goal = String(request.goal || '');
+    const output = malformedFirst && !request.feedback
+      ? [{ title: goal, frequency: 'sometimes' }]
+      : suggestionsFor(goal);
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(output));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Goal analyzer stub listening on http://localhost:${port}/analyze`);
+});
@@ -1,9 +1,11 @@
-import React, { useState } from 'react';
+import React, { useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { Toaster } from 'react-hot-toast';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { SyncProvider } from './contexts/SyncContext';
 import AuthForm from './components/Auth/AuthForm';
 import Header from './components/Layout/Header';
+import ReminderScheduler from './components/Layout/ReminderScheduler';
 import Navigation from './components/Layout/Navigation';
 import Dashboard from './components/Dashboard/Dashboard';
 import HabitsManager from './components/Habits/HabitsManager';
@@ -13,10 +15,59 @@ import ProofCenter from './components/ProofCenter/ProofCenter';
 import GoalBreakdown from './components/GoalBreakdown/GoalBreakdown';
 import MoodJournal from './components/MoodJournal/MoodJournal';
 import Templates from './components/Templates/Templates';
+import { useLocation } from './hooks/useLocation';
+import { matchPath, navigate } from './lib/router';
+import { getRedirectTarget, loginPath, paths } from './lib/routes';
+
+interface Route {
+  path: string;
+  /** Navigation tab to highlight; detail routes share their list's tab */
+  tab: string;
+  render: (params: Record<string, string>) => React.ReactNode;
+}
+
+const routes: Route[] = [
+  { path: paths.dashboard, tab: 'dashboard', render: () => <Dashboard /> },
+  { path: paths.habits, tab: 'habits', render: () => <HabitsManager /> },
+  { path: '/habits/:id', tab: 'habits', render: ({ id }) => <HabitsManager habitId={id} /> },
+  { path: paths.goals, tab: 'goal-breakdown', render: () => <GoalBreakdown /> },
+  { path: paths.analytics, tab: 'analytics', render: () => <Analytics /> },
+  { path: paths.mood, tab: 'mood', render: () => <MoodJournal /> },
+  { path: paths.challenges, tab: 'challenges', render: () => <Challenges /> },
+  { path: '/challenges/:id', tab: 'challenges', render: ({ id }) => <Challenges challengeId={id} /> },
+  { path: '/challenges/join/:code', tab: 'challenges', render: ({ code }) => <Challenges inviteCode={code} /> },
+  { path: paths.proof, tab: 'proof', render: () => <ProofCenter /> },
+  { path: '/proof/:completionId', tab: 'proof', render: ({ completionId }) => <ProofCenter completionId={completionId} /> },
+  { path: paths.templates, tab: 'templates', render: () => <Templates /> },
+];
+
+const findRoute = (pathname: string) => {
+  for (const route of routes) {
+    const params = matchPath(route.path, pathname);
+    if (params) return { route, params };
+  }
+  return null;
+};
 
 const AppContent: React.FC = () => {
   const { user, loading } = useAuth();
-  const [activeTab, setActiveTab] = useState('dashboard');
+  const { pathname, search } = useLocation();
+  const match = findRoute(pathname);
+  const isKnownPath = match !== null;
+
+  // Every screen needs a session: send visitors to the login page and back
+  // to where they were headed once they sign in
+  useEffect(() => {
+    if (loading) return;
+
+    if (!user && pathname !== paths.login) {
+      navigate(loginPath(pathname + search), { replace: true });
+    } else if (user && pathname === paths.login) {
+      navigate(getRedirectTarget(search), { replace: true });
+    } else if (user && !isKnownPath) {
+      navigate(paths.dashboard, { replace: true });
+    }
+  }, [user, loading, pathname, search, isKnownPath]);
 
   if (loading) {
     return (
@@ -39,41 +90,23 @@ const AppContent: React.FC = () => {
     return <AuthForm />;
   }
 
-  const renderContent = () => {
-    switch (activeTab) {
-      case 'dashboard':
-        return <Dashboard />;
-      case 'habits':
-        return <HabitsManager />;
-      case 'goal-breakdown':
-        return <GoalBreakdown />;
-      case 'analytics':
-        return <Analytics />;
-      case 'mood':
-        return <MoodJournal />;
-      case 'challenges':
-        return <Challenges />;
-      case 'proof':
-        return <ProofCenter />;
-      case 'templates':
-        return <Templates />;
-      default:
-        return <Dashboard />;
-    }
-  };
+  if (!match) return null;
+
+  const { route, params } = match;
 
   return (
     <div className="min-h-screen bg-gray-50">
       <Header />
-      <Navigation activeTab={activeTab} setActiveTab={setActiveTab} />
+      <ReminderScheduler />
+      <Navigation activeTab={route.tab} />
       <main>
         <motion.div
-          key={activeTab}
+          key={route.tab}
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ duration: 0.3 }}
         >
-          {renderContent()}
+          {route.render(params)}
         </motion.div>
       </main>
     </div>
@@ -83,7 +116,9 @@ const AppContent: React.FC = () => {
 function App() {
   return (
     <AuthProvider>
-      <AppContent />
+      <SyncProvider>
+        <AppContent />
+      </SyncProvider>
       <Toaster 
         position="top-right"
         toastOptions={{
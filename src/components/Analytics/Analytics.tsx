@@ -1,119 +1,126 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { useAuth } from '../../contexts/AuthContext';
-import { supabase } from '../../lib/supabase';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell } from 'recharts';
 import { Calendar, TrendingUp, Award, Target, Flame } from 'lucide-react';
-import { format, subDays, eachDayOfInterval } from 'date-fns';
+import { format } from 'date-fns';
+import { formatStreak, HabitStreak } from '../../lib/streaks';
+import { addDaysToDay, dayToDate, localToday } from '../../lib/localDay';
+import { listActiveHabits } from '../../lib/repositories/habits';
+import {
+  getCompletionRate,
+  getStreaks,
+  listCategoryBreakdown,
+  listDailyCounts,
+} from '../../lib/repositories/analytics';
+import { queryKeys } from '../../lib/queries';
+import { useQuery } from '../../hooks/useQuery';
+
+interface HabitStreakRow extends HabitStreak {
+  name: string;
+  icon: string;
+}
+
+interface DayProgress {
+  date: string;
+  completions: number;
+  target: number;
+}
+
+interface CategorySlice {
+  name: string;
+  value: number;
+  color: string;
+}
 
 interface AnalyticsData {
-  weeklyProgress: any[];
-  categoryBreakdown: any[];
-  streakData: any[];
+  weeklyProgress: DayProgress[];
+  categoryBreakdown: CategorySlice[];
+  streakData: HabitStreakRow[];
   completionRate: number;
   bestStreak: number;
   totalCompletions: number;
 }
 
+const getCategoryColor = (category: string) => {
+  const colors: { [key: string]: string } = {
+    'Health': '#EF4444',
+    'Study': '#3B82F6',
+    'Coding': '#10B981',
+    'Fitness': '#F59E0B',
+    'Mindfulness': '#8B5CF6',
+    'General': '#6B7280',
+  };
+  return colors[category] || '#6B7280';
+};
+
 const Analytics: React.FC = () => {
-  const { user } = useAuth();
-  const [analyticsData, setAnalyticsData] = useState<AnalyticsData>({
-    weeklyProgress: [],
-    categoryBreakdown: [],
-    streakData: [],
-    completionRate: 0,
-    bestStreak: 0,
-    totalCompletions: 0,
-  });
-  const [loading, setLoading] = useState(true);
+  const { user, timeZone } = useAuth();
   const [timeRange, setTimeRange] = useState('7days');
 
-  useEffect(() => {
-    fetchAnalyticsData();
-  }, [user, timeRange]);
-
-  const fetchAnalyticsData = async () => {
-    if (!user) return;
-
-    try {
-      const days = timeRange === '7days' ? 7 : timeRange === '30days' ? 30 : 90;
-      const startDate = format(subDays(new Date(), days), 'yyyy-MM-dd');
-
-      // Fetch habits and completions
-      const { data: habits } = await supabase
-        .from('habits')
-        .select('*')
-        .eq('user_id', user.id)
-        .eq('is_active', true);
-
-      const { data: completions } = await supabase
-        .from('habit_completions')
-        .select('*, habits(*)')
-        .eq('user_id', user.id)
-        .gte('completed_at', startDate);
+  const days = timeRange === '7days' ? 7 : timeRange === '30days' ? 30 : 90;
+  const today = localToday(timeZone);
+  const startDay = addDaysToDay(today, -days);
 
-      // Process weekly progress
-      const dateRange = eachDayOfInterval({
-        start: subDays(new Date(), days),
-        end: new Date()
-      });
+  const habitsQuery = useQuery(user ? queryKeys.activeHabits(user.id) : null, () => listActiveHabits(user!.id));
+  const dailyQuery = useQuery(
+    user ? queryKeys.dailyCounts(user.id, startDay, today, timeZone) : null,
+    () => listDailyCounts(startDay, today, timeZone)
+  );
+  const categoriesQuery = useQuery(
+    user ? queryKeys.categoryBreakdown(user.id, startDay, today, timeZone) : null,
+    () => listCategoryBreakdown(startDay, today, timeZone)
+  );
+  const rateQuery = useQuery(
+    user ? queryKeys.completionRate(user.id, startDay, today, timeZone) : null,
+    () => getCompletionRate(startDay, today, timeZone)
+  );
+  // Streaks cover the full history, not just the selected range
+  const streaksQuery = useQuery(user ? queryKeys.streaks(user.id, timeZone) : null, () => getStreaks(timeZone));
+  const queries = [habitsQuery, dailyQuery, categoriesQuery, rateQuery, streaksQuery];
+  const loading = queries.some((query) => query.loading);
+  const fetchError = queries.find((query) => query.error)?.error;
 
-      const weeklyProgress = dateRange.map(date => {
-        const dateStr = format(date, 'yyyy-MM-dd');
-        const dayCompletions = completions?.filter(c => 
-          format(new Date(c.completed_at), 'yyyy-MM-dd') === dateStr
-        ).length || 0;
-        
-        return {
-          date: format(date, 'MMM dd'),
-          completions: dayCompletions,
-          target: habits?.length || 0
-        };
-      });
+  useEffect(() => {
+    if (fetchError) console.error('Error fetching analytics:', fetchError);
+  }, [fetchError]);
 
-      // Process category breakdown
-      const categoryMap = new Map();
-      completions?.forEach(completion => {
-        const category = completion.habits?.category || 'Other';
-        categoryMap.set(category, (categoryMap.get(category) || 0) + 1);
-      });
+  const analyticsData = useMemo<AnalyticsData>(() => {
+    const habits = habitsQuery.data ?? [];
+    const categories = categoriesQuery.data ?? [];
+    const streaks = streaksQuery.data;
 
-      const categoryBreakdown = Array.from(categoryMap.entries()).map(([name, value]) => ({
-        name,
-        value,
-        color: getCategoryColor(name)
-      }));
+    // A habit counts on the day it reached its target
+    const weeklyProgress = (dailyQuery.data ?? []).map(({ day, habits_done }) => ({
+      date: format(dayToDate(day), 'MMM dd'),
+      completions: habits_done,
+      target: habits.length
+    }));
 
-      // Calculate completion rate
-      const totalPossible = (habits?.length || 0) * days;
-      const completionRate = totalPossible > 0 ? Math.round(((completions?.length || 0) / totalPossible) * 100) : 0;
+    const categoryBreakdown = categories.map(({ category, check_ins }) => ({
+      name: category,
+      value: check_ins,
+      color: getCategoryColor(category)
+    }));
 
-      setAnalyticsData({
-        weeklyProgress,
-        categoryBreakdown,
-        streakData: [], // Would calculate actual streaks
-        completionRate,
-        bestStreak: 12, // Mock data - would calculate from actual completions
-        totalCompletions: completions?.length || 0,
-      });
-    } catch (error) {
-      console.error('Error fetching analytics:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+    const byHabit = new Map((streaks?.habits ?? []).map((streak) => [streak.habitId, streak]));
+    const streakData: HabitStreakRow[] = habits
+      .map(habit => ({
+        name: habit.title,
+        icon: habit.icon,
+        ...(byHabit.get(habit.id) || { habitId: habit.id, current: 0, longest: 0, unit: 'day' as const }),
+      }))
+      .sort((a, b) => b.current - a.current);
 
-  const getCategoryColor = (category: string) => {
-    const colors: { [key: string]: string } = {
-      'Health': '#EF4444',
-      'Study': '#3B82F6',
-      'Coding': '#10B981',
-      'Fitness': '#F59E0B',
-      'Mindfulness': '#8B5CF6',
-      'General': '#6B7280',
+    return {
+      weeklyProgress,
+      categoryBreakdown,
+      streakData,
+      completionRate: rateQuery.data ?? 0,
+      bestStreak: streaks?.longest ?? 0,
+      totalCompletions: categories.reduce((total, { check_ins }) => total + check_ins, 0),
     };
-    return colors[category] || '#6B7280';
-  };
+  }, [habitsQuery.data, dailyQuery.data, categoriesQuery.data, rateQuery.data, streaksQuery.data]);
 
   if (loading) {
     return (
@@ -218,7 +225,7 @@ const Analytics: React.FC = () => {
               <XAxis dataKey="date" />
               <YAxis />
               <Tooltip />
-              <Bar dataKey="completions" fill="#8B5CF6" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="completions" name="Habits done" fill="#8B5CF6" radius={[4, 4, 0, 0]} />
             </BarChart>
           </ResponsiveContainer>
         </motion.div>
@@ -251,6 +258,30 @@ const Analytics: React.FC = () => {
         </motion.div>
       </div>
 
+      {/* Habit Streaks */}
+      {analyticsData.streakData.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-white rounded-xl p-6 shadow-sm border border-gray-100 mb-8"
+        >
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Habit Streaks</h3>
+          <div className="space-y-3">
+            {analyticsData.streakData.map((streak) => (
+              <div key={streak.habitId} className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg">
+                <span className="text-lg">{streak.icon}</span>
+                <span className="flex-1 font-medium text-gray-900 text-sm">{streak.name}</span>
+                <div className="flex items-center space-x-1 text-orange-600">
+                  <Flame className="w-4 h-4" />
+                  <span className="text-sm font-semibold">{formatStreak(streak)}</span>
+                </div>
+                <span className="text-xs text-gray-500">best {streak.longest}</span>
+              </div>
+            ))}
+          </div>
+        </motion.div>
+      )}
+
       {/* Insights */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { useAuth } from '../../contexts/AuthContext';
+import { getBrowserTimeZone } from '../../lib/localDay';
 import toast from 'react-hot-toast';
 import { Eye, EyeOff, Mail, Lock, User, GraduationCap } from 'lucide-react';
 
@@ -39,6 +40,7 @@ const AuthForm: React.FC = () => {
           username: formData.username,
           is_cse_student: formData.isCSEStudent,
           year_of_study: formData.yearOfStudy,
+          timezone: getBrowserTimeZone(),
         };
         
         const { error } = await signUp(formData.email, formData.password, userData);
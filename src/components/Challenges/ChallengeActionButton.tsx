@@ -0,0 +1,92 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import type { JoinState } from '../../lib/challengeAvailability';
+
+interface ChallengeActionButtonProps {
+  state: JoinState;
+  waitlistPosition?: number | null;
+  onJoin: () => void;
+  onLeave: () => void;
+  onLeaveWaitlist: () => void;
+  onWithdrawRequest: () => void;
+}
+
+const ChallengeActionButton: React.FC<ChallengeActionButtonProps> = ({
+  state,
+  waitlistPosition,
+  onJoin,
+  onLeave,
+  onLeaveWaitlist,
+  onWithdrawRequest,
+}) => {
+  switch (state) {
+    case 'joined':
+      return (
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={onLeave}
+          className="flex-1 py-2 px-4 bg-red-100 text-red-700 rounded-lg font-medium hover:bg-red-200 transition-colors"
+        >
+          Leave Challenge
+        </motion.button>
+      );
+    case 'waitlisted':
+      return (
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={onLeaveWaitlist}
+          className="flex-1 py-2 px-4 bg-yellow-100 text-yellow-800 rounded-lg font-medium hover:bg-yellow-200 transition-colors"
+          title="You'll join automatically when a spot opens"
+        >
+          Leave Waitlist{waitlistPosition ? ` (#${waitlistPosition})` : ''}
+        </motion.button>
+      );
+    case 'requested':
+      return (
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={onWithdrawRequest}
+          className="flex-1 py-2 px-4 bg-blue-100 text-blue-800 rounded-lg font-medium hover:bg-blue-200 transition-colors"
+          title="Waiting for the creator to approve your request"
+        >
+          Cancel Request
+        </motion.button>
+      );
+    case 'ended':
+      return (
+        <button
+          disabled
+          className="flex-1 py-2 px-4 bg-gray-100 text-gray-500 rounded-lg font-medium cursor-not-allowed"
+        >
+          Challenge Ended
+        </button>
+      );
+    case 'full':
+      return (
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={onJoin}
+          className="flex-1 py-2 px-4 border border-purple-300 text-purple-700 rounded-lg font-medium hover:bg-purple-50 transition-colors"
+        >
+          Join Waitlist
+        </motion.button>
+      );
+    default:
+      return (
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={onJoin}
+          className="flex-1 py-2 px-4 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-lg font-medium hover:shadow-lg transition-shadow"
+        >
+          Join Challenge
+        </motion.button>
+      );
+  }
+};
+
+export default ChallengeActionButton;
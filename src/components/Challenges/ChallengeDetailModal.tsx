@@ -0,0 +1,452 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useAuth } from '../../contexts/AuthContext';
+import { X, Calendar, Users, Crown, Link2, Target, Lock, RefreshCw, Check, Pencil, Ban, Archive, ArchiveRestore } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import ChallengeLeaderboard from './ChallengeLeaderboard';
+import ChallengeActionButton from './ChallengeActionButton';
+import EditChallengeModal from './EditChallengeModal';
+import { dayToDate, localToday } from '../../lib/localDay';
+import {
+  cancelChallenge,
+  getChallenge,
+  leaveChallenge,
+  listChallengeAvailability,
+  listChallengeHabits,
+  listChallengeJoinRequests,
+  listChallengeProgress,
+  resetChallengeInviteCode,
+  respondToJoinRequest,
+  setChallengeArchived,
+} from '../../lib/repositories/challenges';
+import { listProfiles } from '../../lib/repositories/profiles';
+import { describeSchedule } from '../../lib/schedules';
+import { describeSpots, getJoinState } from '../../lib/challengeAvailability';
+import { invalidateChallenges, queryKeys } from '../../lib/queries';
+import { paths, shareUrl } from '../../lib/routes';
+import { useQuery } from '../../hooks/useQuery';
+
+interface ChallengeDetailModalProps {
+  challengeId: string | null;
+  joined: boolean;
+  onJoin: (challengeId: string) => void;
+  onLeave: (challengeId: string) => void;
+  onLeaveWaitlist: (challengeId: string) => void;
+  onWithdrawRequest: (challengeId: string) => void;
+  onClose: () => void;
+}
+
+const ChallengeDetailModal: React.FC<ChallengeDetailModalProps> = ({
+  challengeId,
+  joined,
+  onJoin,
+  onLeave,
+  onLeaveWaitlist,
+  onWithdrawRequest,
+  onClose,
+}) => {
+  const { user, timeZone } = useAuth();
+  const [editing, setEditing] = useState(false);
+
+  const { data: challenge, error, loading } = useQuery(
+    user && challengeId ? queryKeys.challenge(user.id, challengeId) : null,
+    async () => {
+      const row = await getChallenge(challengeId!);
+      if (!row) return null;
+
+      const [creators, availability] = await Promise.all([
+        listProfiles([row.creator_id]),
+        listChallengeAvailability([row.id]),
+      ]);
+      return { ...row, creator: creators[0] || null, availability: availability.get(row.id) || null };
+    }
+  );
+
+  const { data: targetHabits = [] } = useQuery(
+    user && challengeId ? queryKeys.challengeHabits(user.id, challengeId) : null,
+    () => listChallengeHabits(challengeId!)
+  );
+  const { data: progress = [], error: progressError } = useQuery(
+    user && challengeId ? queryKeys.challengeProgress(user.id, challengeId) : null,
+    () => listChallengeProgress(challengeId!)
+  );
+
+  const isCreator = !!challenge && challenge.creator_id === user?.id;
+
+  const { data: joinRequests = [], error: requestsError } = useQuery(
+    user && challengeId && isCreator ? queryKeys.challengeJoinRequests(user.id, challengeId) : null,
+    () => listChallengeJoinRequests(challengeId!)
+  );
+
+  useEffect(() => {
+    if (error) toast.error('Error fetching challenge: ' + error.message);
+  }, [error]);
+
+  useEffect(() => {
+    if (progressError) console.error('Error fetching challenge progress:', progressError);
+  }, [progressError]);
+
+  useEffect(() => {
+    if (requestsError) toast.error('Error fetching join requests: ' + requestsError.message);
+  }, [requestsError]);
+
+  const myProgress = progress.filter((row) => row.user_id === user?.id);
+
+  const copyLink = async () => {
+    if (!challengeId) return;
+
+    try {
+      await navigator.clipboard.writeText(shareUrl(paths.challenge(challengeId)));
+      toast.success('Link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const copyInviteLink = async () => {
+    if (!challenge) return;
+
+    try {
+      await navigator.clipboard.writeText(shareUrl(paths.challengeInvite(challenge.invite_code)));
+      toast.success('Invite link copied');
+    } catch {
+      toast.error('Could not copy the invite link');
+    }
+  };
+
+  const resetInviteCode = async () => {
+    if (!user || !challenge) return;
+    if (!window.confirm('Reset the invite code? Existing invite links will stop working.')) return;
+
+    try {
+      await resetChallengeInviteCode(challenge.id);
+      toast.success('Invite code reset');
+      invalidateChallenges(user.id);
+    } catch (error) {
+      toast.error('Error resetting invite code: ' + (error as Error).message);
+    }
+  };
+
+  const respond = async (requestId: string, approve: boolean) => {
+    if (!user) return;
+
+    try {
+      const result = await respondToJoinRequest(requestId, approve);
+      if (result === 'joined') toast.success('Request approved');
+      else if (result === 'waitlisted') toast.success('Request approved; the challenge is full, so they\'re on the waitlist');
+      else toast.success('Request declined');
+      invalidateChallenges(user.id);
+    } catch (error) {
+      toast.error('Error responding to request: ' + (error as Error).message);
+    }
+  };
+
+  const removeParticipant = async (userId: string, displayName: string) => {
+    if (!user || !challengeId) return;
+    if (!window.confirm(`Remove ${displayName} from this challenge?`)) return;
+
+    try {
+      await leaveChallenge(challengeId, userId);
+      toast.success(`Removed ${displayName}`);
+      invalidateChallenges(user.id);
+    } catch (error) {
+      toast.error('Error removing participant: ' + (error as Error).message);
+    }
+  };
+
+  const cancel = async () => {
+    if (!user || !challenge) return;
+    if (!window.confirm('End this challenge now for everyone? The standings so far become final.')) return;
+
+    try {
+      await cancelChallenge(challenge.id);
+      toast.success('Challenge cancelled');
+      invalidateChallenges(user.id);
+    } catch (error) {
+      toast.error('Error cancelling challenge: ' + (error as Error).message);
+    }
+  };
+
+  const toggleArchived = async () => {
+    if (!user || !challenge) return;
+
+    const archiving = !challenge.archived_at;
+    try {
+      await setChallengeArchived(challenge.id, archiving);
+      toast.success(archiving ? 'Challenge archived' : 'Challenge restored to past challenges');
+      invalidateChallenges(user.id);
+    } catch (error) {
+      toast.error('Error archiving challenge: ' + (error as Error).message);
+    }
+  };
+
+  if (!challengeId) return null;
+
+  return (
+    <>
+      <AnimatePresence>
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto"
+          >
+            {loading ? (
+              <div className="flex items-center justify-center h-48">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+              </div>
+            ) : !challenge ? (
+              // Deleted challenges and other people's private ones aren't visible
+              <div className="p-8 text-center">
+                <p className="text-gray-700 mb-4">This challenge is no longer available.</p>
+                <button
+                  onClick={onClose}
+                  className="px-6 py-2 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-lg font-medium"
+                >
+                  Browse challenges
+                </button>
+              </div>
+            ) : (
+              <>
+                <div className="p-6 border-b border-gray-200">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <h2 className="flex items-center space-x-2 text-2xl font-bold text-gray-900">
+                        {challenge.visibility === 'private' && <Lock className="w-5 h-5 text-gray-500" aria-label="Private" />}
+                        <span>{challenge.title}</span>
+                      </h2>
+                      {!challenge.is_active && (
+                        <span
+                          className={`inline-block mt-1 text-xs font-medium px-2 py-0.5 rounded-full ${
+                            challenge.cancelled_at ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-600'
+                          }`}
+                        >
+                          {challenge.cancelled_at
+                            ? `Cancelled ${format(new Date(challenge.cancelled_at), 'MMM dd')}`
+                            : 'Ended'}
+                          {challenge.archived_at && ' · Archived'}
+                        </span>
+                      )}
+                      <p className="flex items-center space-x-1 text-sm text-gray-600 mt-1">
+                        {challenge.creator_id === user?.id && <Crown className="w-4 h-4 text-yellow-500" />}
+                        <span>
+                          by {challenge.creator?.full_name || challenge.creator?.username || 'Anonymous'}
+                        </span>
+                      </p>
+                    </div>
+                    <motion.button
+                      whileHover={{ scale: 1.1 }}
+                      whileTap={{ scale: 0.9 }}
+                      onClick={onClose}
+                      className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+                    >
+                      <X className="w-5 h-5" />
+                    </motion.button>
+                  </div>
+                </div>
+
+                <div className="p-6 space-y-6">
+                  <p className="text-gray-700 whitespace-pre-line">{challenge.description}</p>
+
+                  <div className="flex items-center space-x-6 text-sm text-gray-600">
+                    <div className="flex items-center space-x-1">
+                      <Calendar className="w-4 h-4" />
+                      <span>
+                        {format(dayToDate(challenge.start_date), 'MMM dd')} - {format(dayToDate(challenge.end_date), 'MMM dd, yyyy')}
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <Users className="w-4 h-4" />
+                      <span>
+                        {challenge.max_participants
+                          ? `${challenge.availability?.participants ?? 0}/${challenge.max_participants}`
+                          : `${challenge.availability?.participants ?? 0} joined`}
+                      </span>
+                    </div>
+                    {challenge.max_participants && (
+                      <span
+                        className={`font-medium ${
+                          challenge.availability?.spots_left === 0 ? 'text-red-600' : 'text-green-600'
+                        }`}
+                      >
+                        {describeSpots(challenge.availability)}
+                      </span>
+                    )}
+                  </div>
+
+                  <div>
+                    <h3 className="text-sm font-semibold text-gray-900 mb-2">Challenge habits</h3>
+                    <div className="space-y-2">
+                      {targetHabits.map((target) => {
+                        const mine = myProgress.find((row) => row.challenge_habit_id === target.id);
+                        return (
+                          <div key={target.id} className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg">
+                            <div className={`w-8 h-8 rounded-lg ${target.color} flex items-center justify-center text-white text-sm`}>
+                              {target.icon}
+                            </div>
+                            <div className="flex-1">
+                              <p className="font-medium text-gray-900">{target.title}</p>
+                              <p className="text-xs text-gray-500">
+                                {target.target_count}× {describeSchedule(target)}
+                                {target.description && ` · ${target.description}`}
+                              </p>
+                            </div>
+                            {mine && (
+                              <span className="text-sm font-medium text-purple-700" title="Periods completed so far">
+                                {mine.periods_completed}/{mine.periods_total}
+                              </span>
+                            )}
+                          </div>
+                        );
+                      })}
+                      {targetHabits.length === 0 && (
+                        <p className="flex items-center space-x-2 text-sm text-gray-500">
+                          <Target className="w-4 h-4" />
+                          <span>This challenge doesn't track any habits.</span>
+                        </p>
+                      )}
+                    </div>
+                  </div>
+
+                  {challenge.is_active && (isCreator || joined) && (
+                    <div className="p-4 bg-purple-50 rounded-lg">
+                      <h3 className="text-sm font-semibold text-gray-900 mb-1">Invite friends</h3>
+                      <p className="text-xs text-gray-600 mb-3">
+                        {challenge.visibility === 'private'
+                          ? 'Only people with the code or link can join.'
+                          : 'Anyone can find this challenge, or join with the code.'}
+                        {challenge.requires_approval && ' The creator approves each request.'}
+                      </p>
+                      <div className="flex items-center gap-2">
+                        <code className="px-3 py-1.5 bg-white border border-purple-200 rounded-lg font-mono tracking-widest text-purple-700">
+                          {challenge.invite_code}
+                        </code>
+                        <button
+                          onClick={copyInviteLink}
+                          className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 bg-white text-sm text-gray-700 rounded-lg hover:bg-gray-50"
+                        >
+                          <Link2 className="w-4 h-4" />
+                          <span>Copy invite link</span>
+                        </button>
+                        {isCreator && (
+                          <button
+                            onClick={resetInviteCode}
+                            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+                            title="Reset the invite code"
+                          >
+                            <RefreshCw className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  {isCreator && challenge.is_active && joinRequests.length > 0 && (
+                    <div>
+                      <h3 className="text-sm font-semibold text-gray-900 mb-2">Join requests</h3>
+                      <div className="space-y-2">
+                        {joinRequests.map((request) => (
+                          <div key={request.id} className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg">
+                            <div className="flex-1 min-w-0">
+                              <p className="truncate text-gray-900">{request.display_name}</p>
+                              <p className="text-xs text-gray-500">
+                                Asked {format(new Date(request.created_at), 'MMM dd, h:mm a')}
+                              </p>
+                            </div>
+                            <button
+                              onClick={() => respond(request.id, true)}
+                              className="p-2 text-green-600 hover:bg-green-100 rounded-lg"
+                              title="Approve"
+                            >
+                              <Check className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => respond(request.id, false)}
+                              className="p-2 text-red-600 hover:bg-red-100 rounded-lg"
+                              title="Decline"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <ChallengeLeaderboard
+                    challengeId={challenge.id}
+                    scoringMode={challenge.scoring_mode}
+                    onRemove={isCreator && challenge.is_active ? removeParticipant : undefined}
+                  />
+
+                  <div className="flex gap-3">
+                    <ChallengeActionButton
+                      state={getJoinState(challenge, challenge.availability, joined, localToday(timeZone))}
+                      waitlistPosition={challenge.availability?.waitlist_position}
+                      onJoin={() => onJoin(challenge.id)}
+                      onLeave={() => onLeave(challenge.id)}
+                      onLeaveWaitlist={() => onLeaveWaitlist(challenge.id)}
+                      onWithdrawRequest={() => onWithdrawRequest(challenge.id)}
+                    />
+                    <motion.button
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                      onClick={copyLink}
+                      className="flex items-center space-x-2 py-2 px-4 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50"
+                      title="Copy a link to this challenge"
+                    >
+                      <Link2 className="w-4 h-4" />
+                      <span>Share</span>
+                    </motion.button>
+                  </div>
+
+                  {isCreator && (
+                    <div className="flex flex-wrap gap-2 pt-4 border-t border-gray-200">
+                      {challenge.is_active ? (
+                        <>
+                          <button
+                            onClick={() => setEditing(true)}
+                            className="flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                          >
+                            <Pencil className="w-4 h-4" />
+                            <span>Edit</span>
+                          </button>
+                          <button
+                            onClick={cancel}
+                            className="flex items-center space-x-1 px-3 py-1.5 text-sm text-red-700 border border-red-200 rounded-lg hover:bg-red-50"
+                          >
+                            <Ban className="w-4 h-4" />
+                            <span>Cancel Challenge</span>
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          onClick={toggleArchived}
+                          className="flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                          title={challenge.archived_at ? undefined : 'Hide it from past challenges'}
+                        >
+                          {challenge.archived_at ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                          <span>{challenge.archived_at ? 'Unarchive' : 'Archive'}</span>
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+          </motion.div>
+        </div>
+      </AnimatePresence>
+
+      <EditChallengeModal
+        challenge={editing ? challenge ?? null : null}
+        participants={challenge?.availability?.participants ?? 0}
+        onClose={() => setEditing(false)}
+      />
+    </>
+  );
+};
+
+export default ChallengeDetailModal;
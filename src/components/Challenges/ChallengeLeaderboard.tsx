@@ -0,0 +1,132 @@
+import React, { useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { useAuth } from '../../contexts/AuthContext';
+import { Crown, Trophy, Medal, UserMinus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { listChallengeLeaderboard, subscribeToChallengeScores } from '../../lib/repositories/challenges';
+import { formatScore, getScoringMode, ScoringMode, TIE_BREAKERS } from '../../lib/challengeScoring';
+import { invalidateQueries } from '../../lib/queryCache';
+import { queryKeys } from '../../lib/queries';
+import { useQuery } from '../../hooks/useQuery';
+
+interface ChallengeLeaderboardProps {
+  challengeId: string;
+  scoringMode: ScoringMode;
+  /** Lets the creator remove other participants while the challenge is running */
+  onRemove?: (userId: string, displayName: string) => void;
+}
+
+const ChallengeLeaderboard: React.FC<ChallengeLeaderboardProps> = ({ challengeId, scoringMode, onRemove }) => {
+  const { user } = useAuth();
+
+  const { data: entries = [], error, loading } = useQuery(
+    user ? queryKeys.challengeLeaderboard(user.id, challengeId) : null,
+    () => listChallengeLeaderboard(challengeId)
+  );
+
+  useEffect(() => {
+    if (error) toast.error('Error fetching leaderboard: ' + error.message);
+  }, [error]);
+
+  // Other participants' check-ins arrive over realtime
+  useEffect(() => {
+    if (!user) return;
+
+    return subscribeToChallengeScores(challengeId, () => {
+      invalidateQueries(queryKeys.challengeLeaderboard(user.id, challengeId));
+      invalidateQueries(queryKeys.challengeProgress(user.id, challengeId));
+    });
+  }, [user, challengeId]);
+
+  const isFinal = entries.some((entry) => entry.is_final);
+  const mode = getScoringMode(scoringMode);
+
+  const getRankIcon = (rank: number) => {
+    switch (rank) {
+      case 1:
+        return <Crown className="w-5 h-5 text-yellow-500" />;
+      case 2:
+        return <Trophy className="w-5 h-5 text-gray-400" />;
+      case 3:
+        return <Medal className="w-5 h-5 text-orange-500" />;
+      default:
+        return <span className="w-5 text-center text-sm font-medium text-gray-500">{rank}</span>;
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-gray-900">
+          {isFinal ? 'Final standings' : 'Leaderboard'}
+        </h3>
+        <span
+          className={`text-xs font-medium px-2 py-0.5 rounded-full ${
+            isFinal ? 'bg-gray-100 text-gray-600' : 'bg-green-100 text-green-700'
+          }`}
+        >
+          {isFinal ? 'Final' : 'Live'}
+        </span>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Ranked by {mode.label.toLowerCase()}: {mode.description.toLowerCase()}.
+      </p>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-24">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-600"></div>
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No one has joined yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {entries.map((entry, index) => {
+            const isMe = entry.user_id === user?.id;
+            return (
+              <motion.div
+                key={entry.user_id}
+                initial={{ opacity: 0, x: -10 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: index * 0.05 }}
+                className={`flex items-center space-x-3 p-3 rounded-lg ${
+                  isMe ? 'bg-purple-50 border border-purple-200' : 'bg-gray-50'
+                }`}
+              >
+                <div className="w-6 flex justify-center">{getRankIcon(entry.rank)}</div>
+                <div className="flex-1 min-w-0">
+                  <p className={`truncate ${isMe ? 'font-semibold text-purple-700' : 'text-gray-900'}`}>
+                    {isMe ? 'You' : entry.display_name}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {entry.periods_completed}/{entry.periods_total} completed · {entry.consistency}% consistent
+                  </p>
+                </div>
+                <span className="text-sm font-semibold text-gray-900">{formatScore(scoringMode, entry.score)}</span>
+                {onRemove && !isFinal && !isMe && (
+                  <button
+                    onClick={() => onRemove(entry.user_id, entry.display_name)}
+                    className="p-1 text-gray-400 hover:text-red-600 rounded"
+                    title={`Remove ${entry.display_name}`}
+                  >
+                    <UserMinus className="w-4 h-4" />
+                  </button>
+                )}
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
+
+      <details className="mt-3 text-xs text-gray-500">
+        <summary className="cursor-pointer hover:text-gray-700">How ties are broken</summary>
+        <ol className="list-decimal list-inside mt-1 space-y-0.5">
+          {TIE_BREAKERS.map((rule) => (
+            <li key={rule}>{rule}</li>
+          ))}
+        </ol>
+      </details>
+    </div>
+  );
+};
+
+export default ChallengeLeaderboard;
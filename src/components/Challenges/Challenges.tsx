@@ -1,125 +1,181 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuth } from '../../contexts/AuthContext';
-import { supabase } from '../../lib/supabase';
-import { Users, Trophy, Calendar, Plus, Crown, Target } from 'lucide-react';
+import { Users, Trophy, Calendar, Plus, Crown, Target, Lock, KeyRound, Archive, Medal } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { format } from 'date-fns';
 import CreateChallengeModal from './CreateChallengeModal';
+import ChallengeDetailModal from './ChallengeDetailModal';
+import JoinChallengeModal from './JoinChallengeModal';
+import ChallengeActionButton from './ChallengeActionButton';
+import {
+  Challenge as ChallengeRow,
+  ChallengeAvailability,
+  ChallengeResult,
+  leaveChallenge as leave,
+  leaveChallengeWaitlist,
+  listActiveChallenges,
+  listChallengeAvailability,
+  listChallengeResults,
+  listJoinedChallengeIds,
+  listPastChallenges,
+  setChallengeArchived,
+  withdrawJoinRequest,
+} from '../../lib/repositories/challenges';
+import { listProfiles, Profile } from '../../lib/repositories/profiles';
+import { invalidateChallenges, invalidateHabits, queryKeys } from '../../lib/queries';
+import { useQuery } from '../../hooks/useQuery';
+import { dayToDate, localToday } from '../../lib/localDay';
+import { followLink, navigate } from '../../lib/router';
+import { paths } from '../../lib/routes';
+import { getScoringMode } from '../../lib/challengeScoring';
+import { describeSpots, getJoinState } from '../../lib/challengeAvailability';
 
-interface Challenge {
-  id: string;
-  title: string;
-  description: string;
-  creator_id: string;
-  start_date: string;
-  end_date: string;
-  is_active: boolean;
-  max_participants: number | null;
-  created_at: string;
-  participants?: any[];
-  creator?: any;
+interface Challenge extends ChallengeRow {
+  creator: Pick<Profile, 'username' | 'full_name'> | null;
+  availability: ChallengeAvailability | null;
 }
 
-const Challenges: React.FC = () => {
-  const { user } = useAuth();
-  const [challenges, setChallenges] = useState<Challenge[]>([]);
-  const [myParticipations, setMyParticipations] = useState<string[]>([]);
-  const [loading, setLoading] = useState(true);
+interface PastChallenge extends ChallengeRow {
+  creator: Pick<Profile, 'username' | 'full_name'> | null;
+  /** Final standings, best rank first */
+  results: ChallengeResult[];
+}
+
+interface ChallengesProps {
+  /** Opens this challenge's details, from `/challenges/:id` */
+  challengeId?: string;
+  /** Opens the join flow for an invite link, from `/challenges/join/:code` */
+  inviteCode?: string;
+}
+
+const Challenges: React.FC<ChallengesProps> = ({ challengeId, inviteCode }) => {
+  const { user, timeZone } = useAuth();
   const [showCreateModal, setShowCreateModal] = useState(false);
-  const [activeTab, setActiveTab] = useState<'public' | 'my'>('public');
+  const [activeTab, setActiveTab] = useState<'public' | 'my' | 'past'>('public');
+  const [joiningChallengeId, setJoiningChallengeId] = useState<string | null>(null);
+  const [codeInput, setCodeInput] = useState('');
+
+  const { data: challenges = [], error: fetchError, loading } = useQuery<Challenge[]>(
+    user ? queryKeys.activeChallenges(user.id) : null,
+    async () => {
+      const data = await listActiveChallenges();
+      const [creators, availability] = await Promise.all([
+        listProfiles([...new Set(data.map((challenge) => challenge.creator_id))]),
+        listChallengeAvailability(data.map((challenge) => challenge.id)),
+      ]);
+      return data.map((challenge) => ({
+        ...challenge,
+        creator: creators.find((profile) => profile.id === challenge.creator_id) || null,
+        availability: availability.get(challenge.id) || null,
+      }));
+    }
+  );
+  const { data: pastChallenges = [], error: pastError, loading: pastLoading } = useQuery<PastChallenge[]>(
+    user && activeTab === 'past' ? queryKeys.pastChallenges(user.id) : null,
+    async () => {
+      const data = await listPastChallenges();
+      const [creators, results] = await Promise.all([
+        listProfiles([...new Set(data.map((challenge) => challenge.creator_id))]),
+        listChallengeResults(data.map((challenge) => challenge.id)),
+      ]);
+      return data.map((challenge) => ({
+        ...challenge,
+        creator: creators.find((profile) => profile.id === challenge.creator_id) || null,
+        results: results.filter((result) => result.challenge_id === challenge.id),
+      }));
+    }
+  );
+  const { data: myParticipations = [], error: participationsError } = useQuery(
+    user ? queryKeys.joinedChallenges(user.id) : null,
+    () => listJoinedChallengeIds(user!.id)
+  );
+
+  useEffect(() => {
+    if (fetchError) toast.error('Error fetching challenges: ' + fetchError.message);
+  }, [fetchError]);
+
+  useEffect(() => {
+    if (pastError) toast.error('Error fetching past challenges: ' + pastError.message);
+  }, [pastError]);
 
   useEffect(() => {
-    fetchChallenges();
-    fetchMyParticipations();
-  }, [user]);
+    if (participationsError) console.error('Error fetching participations:', participationsError);
+  }, [participationsError]);
 
-  const fetchChallenges = async () => {
+  const leaveChallenge = async (challengeId: string) => {
     if (!user) return;
 
     try {
-      const { data, error } = await supabase
-        .from('challenges')
-        .select(`
-          *,
-          profiles (
-            username,
-            full_name
-          )
-        `)
-        .eq('is_active', true)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setChallenges(data || []);
-    } catch (error: any) {
-      toast.error('Error fetching challenges: ' + error.message);
-    } finally {
-      setLoading(false);
+      await leave(challengeId, user.id);
+
+      toast.success('Left challenge successfully');
+      invalidateChallenges(user.id);
+      // Habits that tracked the challenge are unlinked
+      invalidateHabits(user.id);
+    } catch (error) {
+      toast.error('Error leaving challenge: ' + (error as Error).message);
     }
   };
 
-  const fetchMyParticipations = async () => {
+  const leaveWaitlist = async (challengeId: string) => {
     if (!user) return;
 
     try {
-      const { data, error } = await supabase
-        .from('challenge_participants')
-        .select('challenge_id')
-        .eq('user_id', user.id);
-
-      if (error) throw error;
-      setMyParticipations(data?.map(p => p.challenge_id) || []);
-    } catch (error: any) {
-      console.error('Error fetching participations:', error);
+      await leaveChallengeWaitlist(challengeId, user.id);
+
+      toast.success('Left the waitlist');
+      invalidateChallenges(user.id);
+    } catch (error) {
+      toast.error('Error leaving waitlist: ' + (error as Error).message);
     }
   };
 
-  const joinChallenge = async (challengeId: string) => {
+  const withdrawRequest = async (challengeId: string) => {
     if (!user) return;
 
     try {
-      const { error } = await supabase
-        .from('challenge_participants')
-        .insert({
-          challenge_id: challengeId,
-          user_id: user.id,
-        });
-
-      if (error) throw error;
-      
-      toast.success('Joined challenge successfully! 🎉');
-      fetchMyParticipations();
-    } catch (error: any) {
-      toast.error('Error joining challenge: ' + error.message);
+      await withdrawJoinRequest(challengeId, user.id);
+
+      toast.success('Join request cancelled');
+      invalidateChallenges(user.id);
+    } catch (error) {
+      toast.error('Error cancelling request: ' + (error as Error).message);
     }
   };
 
-  const leaveChallenge = async (challengeId: string) => {
+  const archive = async (challengeId: string) => {
     if (!user) return;
 
     try {
-      const { error } = await supabase
-        .from('challenge_participants')
-        .delete()
-        .eq('challenge_id', challengeId)
-        .eq('user_id', user.id);
-
-      if (error) throw error;
-      
-      toast.success('Left challenge successfully');
-      fetchMyParticipations();
-    } catch (error: any) {
-      toast.error('Error leaving challenge: ' + error.message);
+      await setChallengeArchived(challengeId, true);
+
+      toast.success('Challenge archived');
+      invalidateChallenges(user.id);
+    } catch (error) {
+      toast.error('Error archiving challenge: ' + (error as Error).message);
     }
   };
 
+  const joinWithCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = codeInput.trim().toUpperCase();
+    if (!code) return;
+
+    setCodeInput('');
+    navigate(paths.challengeInvite(code));
+  };
+
   const isParticipating = (challengeId: string) => {
     return myParticipations.includes(challengeId);
   };
 
+  const today = localToday(timeZone);
+
+  // Private challenges only show up for their creator and participants, under "My"
   const filteredChallenges = activeTab === 'my' 
     ? challenges.filter(c => myParticipations.includes(c.id) || c.creator_id === user?.id)
-    : challenges;
+    : challenges.filter(c => c.visibility === 'public');
 
   if (loading) {
     return (
@@ -147,32 +203,166 @@ const Challenges: React.FC = () => {
         </motion.button>
       </div>
 
-      {/* Tabs */}
-      <div className="flex space-x-1 bg-gray-100 rounded-lg p-1 mb-8 w-fit">
-        <button
-          onClick={() => setActiveTab('public')}
-          className={`px-6 py-2 rounded-md font-medium transition-colors ${
-            activeTab === 'public'
-              ? 'bg-white text-purple-600 shadow-sm'
-              : 'text-gray-600 hover:text-gray-800'
-          }`}
-        >
-          Public Challenges
-        </button>
-        <button
-          onClick={() => setActiveTab('my')}
-          className={`px-6 py-2 rounded-md font-medium transition-colors ${
-            activeTab === 'my'
-              ? 'bg-white text-purple-600 shadow-sm'
-              : 'text-gray-600 hover:text-gray-800'
-          }`}
-        >
-          My Challenges
-        </button>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+        {/* Tabs */}
+        <div className="flex space-x-1 bg-gray-100 rounded-lg p-1 w-fit">
+          <button
+            onClick={() => setActiveTab('public')}
+            className={`px-6 py-2 rounded-md font-medium transition-colors ${
+              activeTab === 'public'
+                ? 'bg-white text-purple-600 shadow-sm'
+                : 'text-gray-600 hover:text-gray-800'
+            }`}
+          >
+            Public Challenges
+          </button>
+          <button
+            onClick={() => setActiveTab('my')}
+            className={`px-6 py-2 rounded-md font-medium transition-colors ${
+              activeTab === 'my'
+                ? 'bg-white text-purple-600 shadow-sm'
+                : 'text-gray-600 hover:text-gray-800'
+            }`}
+          >
+            My Challenges
+          </button>
+          <button
+            onClick={() => setActiveTab('past')}
+            className={`px-6 py-2 rounded-md font-medium transition-colors ${
+              activeTab === 'past'
+                ? 'bg-white text-purple-600 shadow-sm'
+                : 'text-gray-600 hover:text-gray-800'
+            }`}
+          >
+            Past Challenges
+          </button>
+        </div>
+
+        <form onSubmit={joinWithCode} className="flex items-center space-x-2">
+          <div className="relative">
+            <KeyRound className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={codeInput}
+              onChange={(e) => setCodeInput(e.target.value)}
+              placeholder="Invite code"
+              className="pl-9 pr-3 py-2 w-40 border border-gray-300 rounded-lg text-sm uppercase focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={!codeInput.trim()}
+            className="px-4 py-2 border border-purple-300 text-purple-700 rounded-lg text-sm font-medium hover:bg-purple-50 disabled:opacity-50 transition-colors"
+          >
+            Join with code
+          </button>
+        </form>
       </div>
 
       {/* Challenges Grid */}
-      {filteredChallenges.length === 0 ? (
+      {activeTab === 'past' ? (
+        pastLoading ? (
+          <div className="flex items-center justify-center h-48">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+          </div>
+        ) : pastChallenges.length === 0 ? (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="text-center py-12"
+          >
+            <div className="w-24 h-24 mx-auto mb-6 bg-gradient-to-br from-purple-100 to-blue-100 rounded-full flex items-center justify-center">
+              <Trophy className="w-12 h-12 text-purple-600" />
+            </div>
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">No past challenges yet</h3>
+            <p className="text-gray-600">Challenges show up here with their final results once they end.</p>
+          </motion.div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {pastChallenges.map((challenge, index) => {
+              const winners = challenge.results.filter((result) => result.rank === 1);
+              const mine = challenge.results.find((result) => result.user_id === user?.id);
+              return (
+                <motion.div
+                  key={challenge.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.1 }}
+                  className="bg-white rounded-xl p-6 shadow-sm border border-gray-100 hover:shadow-md transition-shadow"
+                >
+                  <div className="flex items-start justify-between mb-4">
+                    <div>
+                      <h3 className="flex items-center space-x-1 font-semibold text-gray-900">
+                        {challenge.visibility === 'private' && (
+                          <Lock className="w-4 h-4 text-gray-500" aria-label="Private" />
+                        )}
+                        <a
+                          href={paths.challenge(challenge.id)}
+                          onClick={(event) => followLink(event, paths.challenge(challenge.id))}
+                          className="hover:text-purple-700"
+                        >
+                          {challenge.title}
+                        </a>
+                      </h3>
+                      <p className="text-sm text-gray-600">
+                        by {challenge.creator?.full_name || challenge.creator?.username || 'Anonymous'}
+                      </p>
+                    </div>
+                    <span
+                      className={`text-xs font-medium px-2 py-0.5 rounded-full ${
+                        challenge.cancelled_at ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-600'
+                      }`}
+                    >
+                      {challenge.cancelled_at ? 'Cancelled' : 'Ended'}
+                    </span>
+                  </div>
+
+                  <div className="flex items-center space-x-4 text-sm text-gray-500 mb-4">
+                    <div className="flex items-center space-x-1">
+                      <Calendar className="w-4 h-4" />
+                      <span>{format(dayToDate(challenge.start_date), 'MMM dd')} - {format(dayToDate(challenge.end_date), 'MMM dd, yyyy')}</span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <Users className="w-4 h-4" />
+                      <span>{challenge.results.length}</span>
+                    </div>
+                  </div>
+
+                  <div className="space-y-1 text-sm">
+                    {winners.length > 0 ? (
+                      <p className="flex items-center space-x-2 text-gray-900">
+                        <Crown className="w-4 h-4 text-yellow-500" />
+                        <span>
+                          {winners.map((winner) => (winner.user_id === user?.id ? 'You' : winner.display_name)).join(', ')}
+                        </span>
+                      </p>
+                    ) : (
+                      <p className="text-gray-500">No one took part.</p>
+                    )}
+                    {mine && (
+                      <p className="flex items-center space-x-2 text-purple-700">
+                        <Medal className="w-4 h-4" />
+                        <span>You finished #{mine.rank} of {challenge.results.length}</span>
+                      </p>
+                    )}
+                  </div>
+
+                  {challenge.creator_id === user?.id && (
+                    <button
+                      onClick={() => archive(challenge.id)}
+                      className="flex items-center space-x-1 mt-4 text-sm text-gray-500 hover:text-gray-700"
+                      title="Hide it from past challenges"
+                    >
+                      <Archive className="w-4 h-4" />
+                      <span>Archive</span>
+                    </button>
+                  )}
+                </motion.div>
+              );
+            })}
+          </div>
+        )
+      ) : filteredChallenges.length === 0 ? (
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -217,7 +407,18 @@ const Challenges: React.FC = () => {
                       <Trophy className="w-6 h-6 text-white" />
                     </div>
                     <div>
-                      <h3 className="font-semibold text-gray-900">{challenge.title}</h3>
+                      <h3 className="flex items-center space-x-1 font-semibold text-gray-900">
+                        {challenge.visibility === 'private' && (
+                          <Lock className="w-4 h-4 text-gray-500" aria-label="Private" />
+                        )}
+                        <a
+                          href={paths.challenge(challenge.id)}
+                          onClick={(event) => followLink(event, paths.challenge(challenge.id))}
+                          className="hover:text-purple-700"
+                        >
+                          {challenge.title}
+                        </a>
+                      </h3>
                       <p className="text-sm text-gray-600">
                         by {challenge.creator?.full_name || challenge.creator?.username || 'Anonymous'}
                       </p>
@@ -235,34 +436,41 @@ const Challenges: React.FC = () => {
                 <div className="flex items-center space-x-4 text-sm text-gray-500 mb-4">
                   <div className="flex items-center space-x-1">
                     <Calendar className="w-4 h-4" />
-                    <span>{format(new Date(challenge.start_date), 'MMM dd')} - {format(new Date(challenge.end_date), 'MMM dd')}</span>
+                    <span>{format(dayToDate(challenge.start_date), 'MMM dd')} - {format(dayToDate(challenge.end_date), 'MMM dd')}</span>
                   </div>
                   <div className="flex items-center space-x-1">
                     <Users className="w-4 h-4" />
-                    <span>{challenge.max_participants ? `0/${challenge.max_participants}` : '∞'}</span>
+                    <span>
+                      {challenge.max_participants
+                        ? `${challenge.availability?.participants ?? 0}/${challenge.max_participants}`
+                        : '∞'}
+                    </span>
+                  </div>
+                  <div className="flex items-center space-x-1" title={getScoringMode(challenge.scoring_mode).description}>
+                    <Trophy className="w-4 h-4" />
+                    <span>{getScoringMode(challenge.scoring_mode).label}</span>
                   </div>
                 </div>
 
+                {challenge.max_participants && (
+                  <p
+                    className={`text-xs font-medium mb-3 ${
+                      challenge.availability?.spots_left === 0 ? 'text-red-600' : 'text-green-600'
+                    }`}
+                  >
+                    {describeSpots(challenge.availability)}
+                  </p>
+                )}
+
                 <div className="flex justify-between items-center">
-                  {isParticipating(challenge.id) ? (
-                    <motion.button
-                      whileHover={{ scale: 1.02 }}
-                      whileTap={{ scale: 0.98 }}
-                      onClick={() => leaveChallenge(challenge.id)}
-                      className="flex-1 py-2 px-4 bg-red-100 text-red-700 rounded-lg font-medium hover:bg-red-200 transition-colors"
-                    >
-                      Leave Challenge
-                    </motion.button>
-                  ) : (
-                    <motion.button
-                      whileHover={{ scale: 1.02 }}
-                      whileTap={{ scale: 0.98 }}
-                      onClick={() => joinChallenge(challenge.id)}
-                      className="flex-1 py-2 px-4 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-lg font-medium hover:shadow-lg transition-shadow"
-                    >
-                      Join Challenge
-                    </motion.button>
-                  )}
+                  <ChallengeActionButton
+                    state={getJoinState(challenge, challenge.availability, isParticipating(challenge.id), today)}
+                    waitlistPosition={challenge.availability?.waitlist_position}
+                    onJoin={() => setJoiningChallengeId(challenge.id)}
+                    onLeave={() => leaveChallenge(challenge.id)}
+                    onLeaveWaitlist={() => leaveWaitlist(challenge.id)}
+                    onWithdrawRequest={() => withdrawRequest(challenge.id)}
+                  />
                 </div>
               </motion.div>
             ))}
@@ -273,7 +481,23 @@ const Challenges: React.FC = () => {
       <CreateChallengeModal
         isOpen={showCreateModal}
         onClose={() => setShowCreateModal(false)}
-        onSuccess={fetchChallenges}
+        onSuccess={() => user && invalidateChallenges(user.id)}
+      />
+
+      <ChallengeDetailModal
+        challengeId={challengeId || null}
+        joined={!!challengeId && isParticipating(challengeId)}
+        onJoin={setJoiningChallengeId}
+        onLeave={leaveChallenge}
+        onLeaveWaitlist={leaveWaitlist}
+        onWithdrawRequest={withdrawRequest}
+        onClose={() => navigate(paths.challenges)}
+      />
+
+      <JoinChallengeModal
+        challengeId={joiningChallengeId}
+        inviteCode={inviteCode}
+        onClose={() => (inviteCode ? navigate(paths.challenges) : setJoiningChallengeId(null))}
       />
     </div>
   );
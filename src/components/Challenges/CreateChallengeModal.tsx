@@ -1,10 +1,58 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuth } from '../../contexts/AuthContext';
-import { supabase } from '../../lib/supabase';
-import { X, Calendar, Users, Target } from 'lucide-react';
+import { X, Calendar, Users, Target, Plus, Globe, Lock } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { format, addDays } from 'date-fns';
+import { Challenge, createChallenge, ChallengeHabitInsert, ChallengeInsert } from '../../lib/repositories/challenges';
+import { FREQUENCY_OPTIONS, HabitFrequency, WEEKDAY_LABELS } from '../../lib/schedules';
+import { SCORING_MODE_OPTIONS, ScoringMode } from '../../lib/challengeScoring';
+import { VISIBILITY_OPTIONS } from '../../lib/challengeAvailability';
+
+interface TargetHabitForm {
+  title: string;
+  description: string;
+  category: string;
+  frequency: HabitFrequency;
+  scheduleDays: number[];
+  scheduleInterval: number;
+  targetCount: number;
+  difficulty: 'easy' | 'medium' | 'hard';
+}
+
+const CATEGORIES = [
+  { name: 'Health', color: 'bg-red-500' },
+  { name: 'Study', color: 'bg-blue-500' },
+  { name: 'Coding', color: 'bg-green-500' },
+  { name: 'Fitness', color: 'bg-orange-500' },
+  { name: 'Mindfulness', color: 'bg-purple-500' },
+  { name: 'General', color: 'bg-gray-500' },
+];
+
+const emptyTargetHabit = (): TargetHabitForm => ({
+  title: '',
+  description: '',
+  category: 'General',
+  frequency: 'daily',
+  scheduleDays: [1, 3, 5],
+  scheduleInterval: 3,
+  targetCount: 1,
+  difficulty: 'medium',
+});
+
+const toChallengeHabit = (habit: TargetHabitForm): ChallengeHabitInsert => ({
+  title: habit.title,
+  description: habit.description || null,
+  category: habit.category,
+  color: CATEGORIES.find((category) => category.name === habit.category)?.color,
+  frequency: habit.frequency,
+  schedule_days: habit.frequency === 'weekdays' ? habit.scheduleDays : null,
+  schedule_interval: ['times_per_week', 'every_n_days'].includes(habit.frequency)
+    ? habit.scheduleInterval
+    : null,
+  target_count: habit.targetCount,
+  difficulty: habit.difficulty,
+});
 
 interface CreateChallengeModalProps {
   isOpen: boolean;
@@ -25,30 +73,54 @@ const CreateChallengeModal: React.FC<CreateChallengeModalProps> = ({
     startDate: format(new Date(), 'yyyy-MM-dd'),
     endDate: format(addDays(new Date(), 7), 'yyyy-MM-dd'),
     maxParticipants: '',
+    scoringMode: 'completions' as ScoringMode,
+    visibility: 'public' as Challenge['visibility'],
+    requiresApproval: false,
   });
+  const [targetHabits, setTargetHabits] = useState<TargetHabitForm[]>([emptyTargetHabit()]);
+
+  const updateTargetHabit = (index: number, changes: Partial<TargetHabitForm>) =>
+    setTargetHabits(targetHabits.map((habit, i) => (i === index ? { ...habit, ...changes } : habit)));
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
 
+    if (formData.endDate < formData.startDate) {
+      toast.error('The challenge must end on or after its start date');
+      return;
+    }
+
+    if (formData.endDate < format(new Date(), 'yyyy-MM-dd')) {
+      toast.error('The end date has already passed');
+      return;
+    }
+
+    if (formData.maxParticipants && Number(formData.maxParticipants) < 1) {
+      toast.error('Allow at least one participant, or leave the limit empty');
+      return;
+    }
+
+    if (targetHabits.some((habit) => habit.frequency === 'weekdays' && habit.scheduleDays.length === 0)) {
+      toast.error('Pick at least one day of the week for each habit');
+      return;
+    }
+
     setLoading(true);
     try {
-      const challengeData = {
+      const challengeData: ChallengeInsert = {
         title: formData.title,
         description: formData.description,
-        creator_id: user.id,
         start_date: formData.startDate,
         end_date: formData.endDate,
         max_participants: formData.maxParticipants ? Number(formData.maxParticipants) : null,
-        is_active: true,
+        scoring_mode: formData.scoringMode,
+        visibility: formData.visibility,
+        requires_approval: formData.requiresApproval,
       };
 
-      const { error } = await supabase
-        .from('challenges')
-        .insert(challengeData);
+      await createChallenge(challengeData, targetHabits.map(toChallengeHabit));
 
-      if (error) throw error;
-      
       toast.success('Challenge created successfully! 🎉');
       onSuccess();
       onClose();
@@ -58,9 +130,13 @@ const CreateChallengeModal: React.FC<CreateChallengeModalProps> = ({
         startDate: format(new Date(), 'yyyy-MM-dd'),
         endDate: format(addDays(new Date(), 7), 'yyyy-MM-dd'),
         maxParticipants: '',
+        scoringMode: 'completions',
+        visibility: 'public',
+        requiresApproval: false,
       });
-    } catch (error: any) {
-      toast.error('Error creating challenge: ' + error.message);
+      setTargetHabits([emptyTargetHabit()]);
+    } catch (error) {
+      toast.error('Error creating challenge: ' + (error as Error).message);
     } finally {
       setLoading(false);
     }
@@ -74,7 +150,7 @@ const CreateChallengeModal: React.FC<CreateChallengeModalProps> = ({
             initial={{ opacity: 0, scale: 0.95 }}
             animate={{ opacity: 1, scale: 1 }}
             exit={{ opacity: 0, scale: 0.95 }}
-            className="bg-white rounded-2xl shadow-2xl w-full max-w-lg"
+            className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto"
           >
             <div className="p-6 border-b border-gray-200">
               <div className="flex justify-between items-center">
@@ -141,6 +217,7 @@ const CreateChallengeModal: React.FC<CreateChallengeModalProps> = ({
                     type="date"
                     value={formData.endDate}
                     onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                    min={formData.startDate}
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
                     required
                   />
@@ -161,6 +238,201 @@ const CreateChallengeModal: React.FC<CreateChallengeModalProps> = ({
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-3">
+                  Who Can Join
+                </label>
+                <div className="grid grid-cols-2 gap-3">
+                  {VISIBILITY_OPTIONS.map((option) => (
+                    <motion.button
+                      key={option.value}
+                      type="button"
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                      onClick={() => setFormData({ ...formData, visibility: option.value })}
+                      className={`flex items-start space-x-2 p-3 rounded-lg border-2 text-left transition-colors ${
+                        formData.visibility === option.value
+                          ? 'border-purple-500 bg-purple-50'
+                          : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    >
+                      {option.value === 'private'
+                        ? <Lock className="w-4 h-4 mt-0.5 text-gray-500" />
+                        : <Globe className="w-4 h-4 mt-0.5 text-gray-500" />}
+                      <span>
+                        <span className="block text-sm font-medium">{option.label}</span>
+                        <span className="block text-xs text-gray-500">{option.description}</span>
+                      </span>
+                    </motion.button>
+                  ))}
+                </div>
+                <label className="flex items-center space-x-2 mt-3 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.requiresApproval}
+                    onChange={(e) => setFormData({ ...formData, requiresApproval: e.target.checked })}
+                    className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                  />
+                  <span>Approve each person before they join</span>
+                </label>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-3">
+                  Leaderboard Scoring
+                </label>
+                <div className="grid grid-cols-2 gap-3">
+                  {SCORING_MODE_OPTIONS.map((option) => (
+                    <motion.button
+                      key={option.value}
+                      type="button"
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                      onClick={() => setFormData({ ...formData, scoringMode: option.value })}
+                      className={`p-3 rounded-lg border-2 text-left transition-colors ${
+                        formData.scoringMode === option.value
+                          ? 'border-purple-500 bg-purple-50'
+                          : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    >
+                      <span className="block text-sm font-medium">{option.label}</span>
+                      <span className="block text-xs text-gray-500">{option.description}</span>
+                    </motion.button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <label className="block text-sm font-medium text-gray-700">
+                    Challenge Habits *
+                  </label>
+                  <motion.button
+                    type="button"
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    onClick={() => setTargetHabits([...targetHabits, emptyTargetHabit()])}
+                    className="flex items-center space-x-1 text-sm text-purple-600 hover:text-purple-700 font-medium"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add habit</span>
+                  </motion.button>
+                </div>
+                <p className="text-sm text-gray-500 mb-3">
+                  Participants track these habits; their check-ins between the start and end dates count towards the challenge.
+                </p>
+                <div className="space-y-3">
+                  {targetHabits.map((habit, index) => (
+                    <div key={index} className="p-4 border border-gray-200 rounded-lg space-y-3">
+                      <div className="flex items-center space-x-3">
+                        <Target className="w-4 h-4 text-purple-600" />
+                        <input
+                          type="text"
+                          value={habit.title}
+                          onChange={(e) => updateTargetHabit(index, { title: e.target.value })}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                          placeholder="e.g., Code for 30 minutes"
+                          required
+                        />
+                        {targetHabits.length > 1 && (
+                          <button
+                            type="button"
+                            onClick={() => setTargetHabits(targetHabits.filter((_, i) => i !== index))}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            title="Remove habit"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                      <input
+                        type="text"
+                        value={habit.description}
+                        onChange={(e) => updateTargetHabit(index, { description: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        placeholder="Rule details (optional)"
+                      />
+                      <div className="grid grid-cols-4 gap-3">
+                        <select
+                          value={habit.category}
+                          onChange={(e) => updateTargetHabit(index, { category: e.target.value })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                          title="Category"
+                        >
+                          {CATEGORIES.map((category) => (
+                            <option key={category.name} value={category.name}>{category.name}</option>
+                          ))}
+                        </select>
+                        <select
+                          value={habit.frequency}
+                          onChange={(e) => updateTargetHabit(index, { frequency: e.target.value as HabitFrequency })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                          title="Frequency"
+                        >
+                          {FREQUENCY_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          value={habit.targetCount}
+                          onChange={(e) => updateTargetHabit(index, { targetCount: Number(e.target.value) })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                          title="Check-ins per period"
+                          min={1}
+                        />
+                        <select
+                          value={habit.difficulty}
+                          onChange={(e) => updateTargetHabit(index, { difficulty: e.target.value as TargetHabitForm['difficulty'] })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                          title="Difficulty (weights points)"
+                        >
+                          <option value="easy">Easy</option>
+                          <option value="medium">Medium</option>
+                          <option value="hard">Hard</option>
+                        </select>
+                      </div>
+                      {habit.frequency === 'weekdays' && (
+                        <div className="grid grid-cols-7 gap-1">
+                          {WEEKDAY_LABELS.map((label, day) => (
+                            <button
+                              key={label}
+                              type="button"
+                              onClick={() => updateTargetHabit(index, {
+                                scheduleDays: habit.scheduleDays.includes(day)
+                                  ? habit.scheduleDays.filter((d) => d !== day)
+                                  : [...habit.scheduleDays, day].sort(),
+                              })}
+                              className={`py-1 rounded-md border text-xs font-medium transition-colors ${
+                                habit.scheduleDays.includes(day)
+                                  ? 'border-purple-500 bg-purple-50 text-purple-700'
+                                  : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                              }`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      {(habit.frequency === 'times_per_week' || habit.frequency === 'every_n_days') && (
+                        <div className="flex items-center space-x-3 text-sm text-gray-600">
+                          <span>{habit.frequency === 'times_per_week' ? 'Times per week' : 'Repeat every (days)'}</span>
+                          <input
+                            type="number"
+                            value={habit.scheduleInterval}
+                            onChange={(e) => updateTargetHabit(index, { scheduleInterval: Number(e.target.value) })}
+                            className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                            min={1}
+                            max={habit.frequency === 'times_per_week' ? 7 : undefined}
+                            required
+                          />
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
               <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
                 <motion.button
                   type="button"
@@ -0,0 +1,285 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useAuth } from '../../contexts/AuthContext';
+import { X, Globe, Lock } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Challenge, updateChallenge } from '../../lib/repositories/challenges';
+import { SCORING_MODE_OPTIONS } from '../../lib/challengeScoring';
+import { VISIBILITY_OPTIONS } from '../../lib/challengeAvailability';
+import { localToday } from '../../lib/localDay';
+import { invalidateChallenges } from '../../lib/queries';
+
+interface EditChallengeModalProps {
+  challenge: Challenge | null;
+  /** Number of people already in, so the limit can't be set below it */
+  participants: number;
+  onClose: () => void;
+}
+
+const toFormData = (challenge: Challenge) => ({
+  title: challenge.title,
+  description: challenge.description,
+  startDate: challenge.start_date,
+  endDate: challenge.end_date,
+  maxParticipants: challenge.max_participants?.toString() ?? '',
+  scoringMode: challenge.scoring_mode,
+  visibility: challenge.visibility,
+  requiresApproval: challenge.requires_approval,
+});
+
+const EditChallengeModal: React.FC<EditChallengeModalProps> = ({ challenge, participants, onClose }) => {
+  const { user, timeZone } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState<ReturnType<typeof toFormData> | null>(null);
+
+  useEffect(() => {
+    setFormData(challenge ? toFormData(challenge) : null);
+  }, [challenge]);
+
+  const today = localToday(timeZone);
+  // The server refuses these changes once the challenge is under way
+  const started = !!challenge && today >= challenge.start_date;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !challenge || !formData) return;
+
+    if (formData.endDate < formData.startDate) {
+      toast.error('The challenge must end on or after its start date');
+      return;
+    }
+
+    if (formData.endDate !== challenge.end_date && formData.endDate < today) {
+      toast.error('The end date has already passed');
+      return;
+    }
+
+    if (formData.maxParticipants && Number(formData.maxParticipants) < Math.max(participants, 1)) {
+      toast.error(`${participants} ${participants === 1 ? 'person has' : 'people have'} already joined, so the limit can't be lower`);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await updateChallenge(challenge.id, {
+        title: formData.title,
+        description: formData.description,
+        end_date: formData.endDate,
+        max_participants: formData.maxParticipants ? Number(formData.maxParticipants) : null,
+        visibility: formData.visibility,
+        requires_approval: formData.requiresApproval,
+        ...(started ? {} : { start_date: formData.startDate, scoring_mode: formData.scoringMode }),
+      });
+
+      toast.success('Challenge updated');
+      invalidateChallenges(user.id);
+      onClose();
+    } catch (error) {
+      toast.error('Error updating challenge: ' + (error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {challenge && formData && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+          >
+            <div className="p-6 border-b border-gray-200">
+              <div className="flex justify-between items-center">
+                <h2 className="text-2xl font-bold text-gray-900">Edit Challenge</h2>
+                <motion.button
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                  onClick={onClose}
+                  className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+                >
+                  <X className="w-5 h-5" />
+                </motion.button>
+              </div>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Challenge Title *
+                </label>
+                <input
+                  type="text"
+                  value={formData.title}
+                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Description *
+                </label>
+                <textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  rows={4}
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Start Date
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.startDate}
+                    onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                    disabled={started}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:bg-gray-50 disabled:text-gray-500"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    End Date
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.endDate}
+                    onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                    min={formData.startDate > today ? formData.startDate : today}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Max Participants (optional)
+                </label>
+                <input
+                  type="number"
+                  value={formData.maxParticipants}
+                  onChange={(e) => setFormData({ ...formData, maxParticipants: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  placeholder="Leave empty for unlimited"
+                  min={Math.max(participants, 1)}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Raising the limit lets people in from the waitlist.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-3">
+                  Who Can Join
+                </label>
+                <div className="grid grid-cols-2 gap-3">
+                  {VISIBILITY_OPTIONS.map((option) => (
+                    <motion.button
+                      key={option.value}
+                      type="button"
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                      onClick={() => setFormData({ ...formData, visibility: option.value })}
+                      className={`flex items-start space-x-2 p-3 rounded-lg border-2 text-left transition-colors ${
+                        formData.visibility === option.value
+                          ? 'border-purple-500 bg-purple-50'
+                          : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    >
+                      {option.value === 'private'
+                        ? <Lock className="w-4 h-4 mt-0.5 text-gray-500" />
+                        : <Globe className="w-4 h-4 mt-0.5 text-gray-500" />}
+                      <span>
+                        <span className="block text-sm font-medium">{option.label}</span>
+                        <span className="block text-xs text-gray-500">{option.description}</span>
+                      </span>
+                    </motion.button>
+                  ))}
+                </div>
+                {challenge.visibility === 'public' && formData.visibility === 'private' && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Making the challenge private gives it a new invite code.
+                  </p>
+                )}
+                <label className="flex items-center space-x-2 mt-3 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.requiresApproval}
+                    onChange={(e) => setFormData({ ...formData, requiresApproval: e.target.checked })}
+                    className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                  />
+                  <span>Approve each person before they join</span>
+                </label>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-3">
+                  Leaderboard Scoring
+                </label>
+                <div className="grid grid-cols-2 gap-3">
+                  {SCORING_MODE_OPTIONS.map((option) => (
+                    <motion.button
+                      key={option.value}
+                      type="button"
+                      disabled={started}
+                      whileHover={started ? undefined : { scale: 1.02 }}
+                      whileTap={started ? undefined : { scale: 0.98 }}
+                      onClick={() => setFormData({ ...formData, scoringMode: option.value })}
+                      className={`p-3 rounded-lg border-2 text-left transition-colors disabled:cursor-not-allowed disabled:opacity-60 ${
+                        formData.scoringMode === option.value
+                          ? 'border-purple-500 bg-purple-50'
+                          : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    >
+                      <span className="block text-sm font-medium">{option.label}</span>
+                      <span className="block text-xs text-gray-500">{option.description}</span>
+                    </motion.button>
+                  ))}
+                </div>
+                {started && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    The start date and scoring are fixed now that the challenge has started.
+                  </p>
+                )}
+              </div>
+
+              <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+                <motion.button
+                  type="button"
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={onClose}
+                  className="px-6 py-2 text-gray-600 hover:text-gray-800 font-medium transition-colors"
+                >
+                  Cancel
+                </motion.button>
+                <motion.button
+                  type="submit"
+                  disabled={loading}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  className="px-6 py-2 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-lg font-semibold hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed transition-shadow"
+                >
+                  {loading ? 'Saving...' : 'Save Changes'}
+                </motion.button>
+              </div>
+            </form>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default EditChallengeModal;
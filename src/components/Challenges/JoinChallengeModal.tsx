@@ -0,0 +1,254 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useAuth } from '../../contexts/AuthContext';
+import { X, Link2, Lock } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  getChallengeInvite,
+  joinChallenge,
+  listChallengeHabits,
+  listChallengeInviteHabits,
+  listJoinedChallengeIds,
+} from '../../lib/repositories/challenges';
+import { listActiveHabits } from '../../lib/repositories/habits';
+import { findDuplicateHabit } from '../../lib/habitMatching';
+import { describeSchedule } from '../../lib/schedules';
+import { invalidateChallenges, invalidateHabits, queryKeys } from '../../lib/queries';
+import { useQuery } from '../../hooks/useQuery';
+import { navigate } from '../../lib/router';
+import { paths } from '../../lib/routes';
+
+// Value of the habit picker that creates a new habit from the challenge rule
+const CREATE_NEW = '';
+
+interface JoinChallengeModalProps {
+  challengeId: string | null;
+  /** Joins through an invite link instead, which also works for private challenges */
+  inviteCode?: string | null;
+  onClose: () => void;
+}
+
+const JoinChallengeModal: React.FC<JoinChallengeModalProps> = ({ challengeId, inviteCode = null, onClose }) => {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [links, setLinks] = useState<Record<string, string>>({});
+  const isOpen = !!challengeId || !!inviteCode;
+
+  // Non-members can't read a private challenge, so invites are looked up by code
+  const { data: invite, error: inviteError, loading: inviteLoading } = useQuery(
+    user && inviteCode ? queryKeys.challengeInvite(user.id, inviteCode) : null,
+    async () => {
+      const challenge = await getChallengeInvite(inviteCode!);
+      return challenge
+        ? { challenge, habits: await listChallengeInviteHabits(inviteCode!) }
+        : null;
+    }
+  );
+  const { data: challengeHabits, error: targetsError, loading: targetsLoading } = useQuery(
+    user && challengeId && !inviteCode ? queryKeys.challengeHabits(user.id, challengeId) : null,
+    () => listChallengeHabits(challengeId!)
+  );
+  const { data: habits } = useQuery(
+    user && isOpen ? queryKeys.activeHabits(user.id) : null,
+    () => listActiveHabits(user!.id)
+  );
+  const { data: joinedIds } = useQuery(
+    user && inviteCode ? queryKeys.joinedChallenges(user.id) : null,
+    () => listJoinedChallengeIds(user!.id)
+  );
+
+  const targetChallengeId = inviteCode ? invite?.challenge.id : challengeId;
+  const targetHabits = inviteCode ? invite?.habits : challengeHabits;
+
+  useEffect(() => {
+    if (targetsError) toast.error('Error fetching challenge habits: ' + targetsError.message);
+  }, [targetsError]);
+
+  useEffect(() => {
+    if (inviteError) toast.error('Error fetching invite: ' + inviteError.message);
+  }, [inviteError]);
+
+  // Following an invite to a challenge you're already in just opens it
+  const alreadyJoined = !!invite && !!joinedIds?.includes(invite.challenge.id);
+
+  useEffect(() => {
+    if (alreadyJoined && invite) navigate(paths.challenge(invite.challenge.id), { replace: true });
+  }, [alreadyJoined, invite]);
+
+  // A habit tracks at most one challenge habit
+  const linkableHabits = (habits || []).filter((habit) => !habit.challenge_habit_id);
+
+  // Suggest linking habits the user already has under the same name
+  useEffect(() => {
+    if (!targetHabits || !habits) return;
+
+    const suggested: Record<string, string> = {};
+    const unlinked = habits.filter((habit) => !habit.challenge_habit_id);
+    for (const target of targetHabits) {
+      const match = findDuplicateHabit(
+        target.title,
+        unlinked.filter((habit) => !Object.values(suggested).includes(habit.id))
+      );
+      if (match) suggested[target.id] = match.id;
+    }
+    setLinks(suggested);
+  }, [targetHabits, habits]);
+
+  const handleJoin = async () => {
+    if (!user || !targetChallengeId) return;
+
+    const linkedIds = Object.values(links).filter((id) => id !== CREATE_NEW);
+    if (new Set(linkedIds).size !== linkedIds.length) {
+      toast.error('Each of your habits can only track one challenge habit');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = await joinChallenge(
+        targetChallengeId,
+        Object.fromEntries(Object.entries(links).filter(([, habitId]) => habitId !== CREATE_NEW)),
+        inviteCode
+      );
+
+      if (result === 'waitlisted') {
+        toast.success('The challenge is full, so you\'re on the waitlist. You\'ll join automatically when a spot opens.');
+      } else if (result === 'requested') {
+        toast.success('Request sent. You\'ll join once the creator approves it.');
+      } else {
+        toast.success('Joined challenge successfully! 🎉');
+        invalidateHabits(user.id);
+      }
+      invalidateChallenges(user.id);
+
+      if (inviteCode && result === 'joined') {
+        navigate(paths.challenge(targetChallengeId), { replace: true });
+      } else {
+        onClose();
+      }
+    } catch (error) {
+      toast.error('Error joining challenge: ' + (error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto"
+          >
+            <div className="p-6 border-b border-gray-200">
+              <div className="flex justify-between items-center">
+                <h2 className="text-2xl font-bold text-gray-900">Join Challenge</h2>
+                <motion.button
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                  onClick={onClose}
+                  className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+                >
+                  <X className="w-5 h-5" />
+                </motion.button>
+              </div>
+            </div>
+
+            {targetsLoading || inviteLoading ? (
+              <div className="flex items-center justify-center h-48">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+              </div>
+            ) : inviteCode && !invite ? (
+              <div className="p-8 text-center">
+                <p className="text-gray-700 mb-4">This invite link is invalid or has expired.</p>
+                <button
+                  onClick={onClose}
+                  className="px-6 py-2 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-lg font-medium"
+                >
+                  Browse challenges
+                </button>
+              </div>
+            ) : (
+              <div className="p-6 space-y-6">
+                {invite && (
+                  <div>
+                    <h3 className="flex items-center space-x-2 text-lg font-semibold text-gray-900">
+                      {invite.challenge.visibility === 'private' && <Lock className="w-4 h-4 text-gray-500" />}
+                      <span>{invite.challenge.title}</span>
+                    </h3>
+                    <p className="text-sm text-gray-600 whitespace-pre-line">{invite.challenge.description}</p>
+                  </div>
+                )}
+
+                <p className="text-sm text-gray-600">
+                  Check-ins on these habits count towards the challenge. Track each one with a new habit, or link a habit you already have.
+                </p>
+
+                <div className="space-y-3">
+                  {(targetHabits || []).map((target) => (
+                    <div key={target.id} className="p-4 border border-gray-200 rounded-lg space-y-3">
+                      <div className="flex items-center space-x-3">
+                        <div className={`w-10 h-10 rounded-lg ${target.color} flex items-center justify-center text-white text-lg`}>
+                          {target.icon}
+                        </div>
+                        <div>
+                          <h3 className="font-semibold text-gray-900">{target.title}</h3>
+                          <p className="text-xs text-gray-500">
+                            {target.target_count}× {describeSchedule(target)}
+                            {target.description && ` · ${target.description}`}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Link2 className="w-4 h-4 text-gray-400" />
+                        <select
+                          value={links[target.id] ?? CREATE_NEW}
+                          onChange={(e) => setLinks({ ...links, [target.id]: e.target.value })}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        >
+                          <option value={CREATE_NEW}>Create a new habit</option>
+                          {linkableHabits.map((habit) => (
+                            <option key={habit.id} value={habit.id}>
+                              Use {habit.icon} {habit.title}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+                  <motion.button
+                    type="button"
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={onClose}
+                    className="px-6 py-2 text-gray-600 hover:text-gray-800 font-medium transition-colors"
+                  >
+                    Cancel
+                  </motion.button>
+                  <motion.button
+                    type="button"
+                    disabled={loading || !targetHabits}
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={handleJoin}
+                    className="px-6 py-2 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-lg font-semibold hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed transition-shadow"
+                  >
+                    {loading ? 'Joining...' : 'Join Challenge'}
+                  </motion.button>
+                </div>
+              </div>
+            )}
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default JoinChallengeModal;
@@ -1,91 +1,85 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { useAuth } from '../../contexts/AuthContext';
-import { supabase } from '../../lib/supabase';
-import { Calendar, Flame, Target, TrendingUp } from 'lucide-react';
-import { format, isToday, startOfWeek, endOfWeek } from 'date-fns';
+import { Calendar, Flame, Target, TrendingUp, CheckCircle } from 'lucide-react';
+import { localToday, startOfLocalWeek } from '../../lib/localDay';
+import { listActiveHabits } from '../../lib/repositories/habits';
+import { getCompletionRate, getStreaks, listPeriodProgress } from '../../lib/repositories/analytics';
+import { queryKeys } from '../../lib/queries';
+import { useQuery } from '../../hooks/useQuery';
 
 interface DashboardStats {
   totalHabits: number;
+  dueToday: number;
   todayCompleted: number;
   currentStreak: number;
   weeklyCompletion: number;
 }
 
+interface TodayHabit {
+  id: string;
+  title: string;
+  category: string;
+  color: string;
+  count: number;
+  target: number;
+  done: boolean;
+}
+
 const Dashboard: React.FC = () => {
-  const { user } = useAuth();
-  const [stats, setStats] = useState<DashboardStats>({
-    totalHabits: 0,
-    todayCompleted: 0,
-    currentStreak: 0,
-    weeklyCompletion: 0,
-  });
-  const [recentHabits, setRecentHabits] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { user, timeZone } = useAuth();
+  const today = localToday(timeZone);
+  const weekStart = startOfLocalWeek(today);
+
+  const habitsQuery = useQuery(user ? queryKeys.activeHabits(user.id) : null, () => listActiveHabits(user!.id));
+  const progressQuery = useQuery(
+    user ? queryKeys.periodProgress(user.id, today, timeZone) : null,
+    () => listPeriodProgress(today, timeZone)
+  );
+  const weeklyQuery = useQuery(
+    user ? queryKeys.completionRate(user.id, weekStart, today, timeZone) : null,
+    () => getCompletionRate(weekStart, today, timeZone)
+  );
+  const streaksQuery = useQuery(user ? queryKeys.streaks(user.id, timeZone) : null, () => getStreaks(timeZone));
+  const queries = [habitsQuery, progressQuery, weeklyQuery, streaksQuery];
+  const loading = queries.some((query) => query.loading);
+  const fetchError = queries.find((query) => query.error)?.error;
 
   useEffect(() => {
-    fetchDashboardData();
-  }, [user]);
-
-  const fetchDashboardData = async () => {
-    if (!user) return;
-
-    try {
-      // Fetch habits
-      const { data: habits } = await supabase
-        .from('habits')
-        .select('*')
-        .eq('user_id', user.id)
-        .eq('is_active', true);
-
-      // Fetch today's completions
-      const today = format(new Date(), 'yyyy-MM-dd');
-      const { data: todayCompletions } = await supabase
-        .from('habit_completions')
-        .select('*')
-        .eq('user_id', user.id)
-        .gte('completed_at', `${today}T00:00:00`)
-        .lt('completed_at', `${today}T23:59:59`);
-
-      // Fetch week's completions
-      const weekStart = format(startOfWeek(new Date()), 'yyyy-MM-dd');
-      const weekEnd = format(endOfWeek(new Date()), 'yyyy-MM-dd');
-      const { data: weekCompletions } = await supabase
-        .from('habit_completions')
-        .select('*')
-        .eq('user_id', user.id)
-        .gte('completed_at', `${weekStart}T00:00:00`)
-        .lt('completed_at', `${weekEnd}T23:59:59`);
-
-      // Fetch recent habits with completions
-      const { data: recentHabitsData } = await supabase
-        .from('habits')
-        .select(`
-          *,
-          habit_completions!inner (
-            completed_at,
-            mood_rating
-          )
-        `)
-        .eq('user_id', user.id)
-        .eq('is_active', true)
-        .limit(5)
-        .order('updated_at', { ascending: false });
-
-      setStats({
-        totalHabits: habits?.length || 0,
-        todayCompleted: todayCompletions?.length || 0,
-        currentStreak: 7, // This would be calculated based on consecutive days
-        weeklyCompletion: Math.round(((weekCompletions?.length || 0) / 7) * 100),
-      });
-
-      setRecentHabits(recentHabitsData || []);
-    } catch (error) {
-      console.error('Error fetching dashboard data:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+    if (fetchError) console.error('Error fetching dashboard data:', fetchError);
+  }, [fetchError]);
+
+  const { stats, todayHabits } = useMemo(() => {
+    const habits = habitsQuery.data ?? [];
+    const progress = new Map((progressQuery.data ?? []).map((row) => [row.habit_id, row]));
+
+    // Only habits scheduled today are due, and only count once the target is reached
+    const dueToday: TodayHabit[] = habits
+      .flatMap((habit) => {
+        const period = progress.get(habit.id);
+        if (!period?.due) return [];
+        return [{
+          id: habit.id,
+          title: habit.title,
+          category: habit.category,
+          color: habit.color,
+          count: period.check_ins,
+          target: period.target,
+          done: period.check_ins >= period.target,
+        }];
+      })
+      .sort((a, b) => Number(a.done) - Number(b.done));
+
+    const stats: DashboardStats = {
+      totalHabits: habits.length,
+      dueToday: dueToday.length,
+      todayCompleted: dueToday.filter(habit => habit.done).length,
+      currentStreak: streaksQuery.data?.current ?? 0,
+      weeklyCompletion: weeklyQuery.data ?? 0,
+    };
+
+    return { stats, todayHabits: dueToday };
+  }, [habitsQuery.data, progressQuery.data, weeklyQuery.data, streaksQuery.data]);
 
   const StatCard = ({ icon: Icon, title, value, subtitle, color }: any) => (
     <motion.div
@@ -140,7 +134,7 @@ const Dashboard: React.FC = () => {
         <StatCard
           icon={Calendar}
           title="Today's Progress"
-          value={`${stats.todayCompleted}/${stats.totalHabits}`}
+          value={`${stats.todayCompleted}/${stats.dueToday}`}
           subtitle="Completed today"
           color="text-blue-600"
         />
@@ -169,23 +163,32 @@ const Dashboard: React.FC = () => {
           className="bg-white rounded-xl p-6 shadow-sm border border-gray-100"
         >
           <h2 className="text-xl font-semibold text-gray-900 mb-4">Today's Habits</h2>
-          {recentHabits.length > 0 ? (
+          {todayHabits.length > 0 ? (
             <div className="space-y-3">
-              {recentHabits.slice(0, 5).map((habit) => (
+              {todayHabits.slice(0, 5).map((habit) => (
                 <motion.div
                   key={habit.id}
                   whileHover={{ x: 4 }}
                   className="flex items-center space-x-3 p-3 rounded-lg hover:bg-gray-50 transition-colors cursor-pointer"
                 >
                   <div className={`w-3 h-3 rounded-full ${habit.color}`}></div>
-                  <span className="flex-1 font-medium text-gray-900">{habit.title}</span>
+                  <span className={`flex-1 font-medium ${habit.done ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                    {habit.title}
+                  </span>
                   <span className="text-sm text-gray-500">{habit.category}</span>
+                  {habit.done ? (
+                    <CheckCircle className="w-4 h-4 text-green-600" />
+                  ) : habit.target > 1 && (
+                    <span className="text-xs font-medium text-purple-600">{habit.count}/{habit.target}</span>
+                  )}
                 </motion.div>
               ))}
             </div>
           ) : (
             <p className="text-gray-500 text-center py-8">
-              No habits yet. Create your first habit to get started!
+              {stats.totalHabits > 0
+                ? 'Nothing scheduled today. Enjoy your rest day!'
+                : 'No habits yet. Create your first habit to get started!'}
             </p>
           )}
         </motion.div>
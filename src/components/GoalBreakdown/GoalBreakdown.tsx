@@ -1,26 +1,51 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { useAuth } from '../../contexts/AuthContext';
-import { supabase } from '../../lib/supabase';
-import { Brain, Target, Lightbulb, Plus, ArrowRight } from 'lucide-react';
+import { Brain, Target, Lightbulb, Plus, ArrowRight, Edit3, Check, AlertTriangle } from 'lucide-react';
 import toast from 'react-hot-toast';
+import {
+  getGoalAnalyzer,
+  SuggestedHabit,
+  SUGGESTION_DIFFICULTIES,
+  SUGGESTION_FREQUENCIES,
+} from '../../lib/goalAnalyzer';
+import { findDuplicateHabit, isSameHabitTitle } from '../../lib/habitMatching';
+import { FREQUENCY_OPTIONS } from '../../lib/schedules';
+import { localToday } from '../../lib/localDay';
+import GoalsList from './GoalsList';
+import { createHabits, Habit, listActiveHabits } from '../../lib/repositories/habits';
+import { createGoal, deleteGoal } from '../../lib/repositories/goals';
+import { invalidateHabits, queryKeys } from '../../lib/queries';
+import { useQuery } from '../../hooks/useQuery';
 
-interface SuggestedHabit {
-  title: string;
-  description: string;
-  category: string;
-  frequency: 'daily' | 'weekly';
-  difficulty: 'easy' | 'medium' | 'hard';
-  icon: string;
-  reasoning: string;
+const goalAnalyzer = getGoalAnalyzer();
+
+// A suggestion as edited by the user before it becomes a habit
+interface HabitDraft extends SuggestedHabit {
+  target_count: number;
 }
 
+type ActiveHabit = Pick<Habit, 'id' | 'title'>;
+
+const icons = ['🎯', '📚', '💪', '🧠', '❤️', '🏃', '💻', '📝', '🌱', '⭐'];
+
 const GoalBreakdown: React.FC = () => {
-  const { user } = useAuth();
+  const { user, timeZone } = useAuth();
   const [goal, setGoal] = useState('');
-  const [suggestedHabits, setSuggestedHabits] = useState<SuggestedHabit[]>([]);
+  const [analyzedGoal, setAnalyzedGoal] = useState('');
+  const [targetDate, setTargetDate] = useState('');
+  const [suggestedHabits, setSuggestedHabits] = useState<HabitDraft[]>([]);
   const [loading, setLoading] = useState(false);
   const [selectedHabits, setSelectedHabits] = useState<Set<number>>(new Set());
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const { data: activeHabits = [], error: habitsError } = useQuery<ActiveHabit[]>(
+    user ? queryKeys.activeHabits(user.id) : null,
+    () => listActiveHabits(user!.id)
+  );
+
+  useEffect(() => {
+    if (habitsError) console.error('Error fetching habits:', habitsError);
+  }, [habitsError]);
 
   const analyzeGoal = async () => {
     if (!goal.trim()) {
@@ -30,65 +55,44 @@ const GoalBreakdown: React.FC = () => {
 
     setLoading(true);
     try {
-      // Mock AI analysis - in production, this would call an AI service
-      const mockSuggestions: SuggestedHabit[] = [
-        {
-          title: 'Daily Algorithm Practice',
-          description: 'Solve 2 coding problems on LeetCode or HackerRank',
-          category: 'Coding',
-          frequency: 'daily',
-          difficulty: 'medium',
-          icon: '💻',
-          reasoning: 'Regular problem-solving builds algorithmic thinking essential for technical interviews'
-        },
-        {
-          title: 'System Design Study',
-          description: 'Read system design articles or watch videos for 30 minutes',
-          category: 'Study',
-          frequency: 'daily',
-          difficulty: 'medium',
-          icon: '🏗️',
-          reasoning: 'Understanding system design is crucial for senior developer roles'
-        },
-        {
-          title: 'Mock Interview Practice',
-          description: 'Practice coding interviews with peers or online platforms',
-          category: 'Study',
-          frequency: 'weekly',
-          difficulty: 'hard',
-          icon: '🎤',
-          reasoning: 'Regular interview practice builds confidence and improves performance'
-        },
-        {
-          title: 'Open Source Contribution',
-          description: 'Contribute to open source projects or maintain your GitHub',
-          category: 'Coding',
-          frequency: 'weekly',
-          difficulty: 'medium',
-          icon: '🌟',
-          reasoning: 'Open source contributions demonstrate real-world coding skills to employers'
-        },
-        {
-          title: 'Technical Blog Writing',
-          description: 'Write about your learning journey and technical insights',
-          category: 'General',
-          frequency: 'weekly',
-          difficulty: 'easy',
-          icon: '✍️',
-          reasoning: 'Technical writing showcases communication skills and deepens understanding'
-        }
-      ];
-
-      setSuggestedHabits(mockSuggestions);
+      const suggestions = await goalAnalyzer.analyzeGoal(goal);
+      setSuggestedHabits(suggestions.map((habit) => ({ ...habit, target_count: 1 })));
+      setAnalyzedGoal(goal.trim());
+      setSelectedHabits(new Set());
+      setEditingIndex(null);
       toast.success('Goal analyzed! Here are your personalized habit suggestions.');
-    } catch (error: any) {
-      toast.error('Error analyzing goal: ' + error.message);
+    } catch (error) {
+      toast.error('Error analyzing goal: ' + (error as Error).message);
     } finally {
       setLoading(false);
     }
   };
 
+  const updateSuggestion = (index: number, changes: Partial<HabitDraft>) => {
+    setSuggestedHabits((drafts) =>
+      drafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft))
+    );
+  };
+
+  // Why a suggestion can't be created as is: it matches an active habit, or
+  // an earlier selected suggestion with the same title
+  const getDuplicateReason = (index: number) => {
+    const { title } = suggestedHabits[index];
+    const existing = findDuplicateHabit(title, activeHabits);
+    if (existing) return `You already track "${existing.title}"`;
+
+    const earlier = Array.from(selectedHabits).some(
+      (other) => other < index && isSameHabitTitle(title, suggestedHabits[other].title)
+    );
+    return earlier && selectedHabits.has(index) ? 'Same title as another selected habit' : null;
+  };
+
   const toggleHabitSelection = (index: number) => {
+    if (!selectedHabits.has(index) && findDuplicateHabit(suggestedHabits[index].title, activeHabits)) {
+      toast.error('You already track this habit. Rename it to add it anyway.');
+      return;
+    }
+
     const newSelected = new Set(selectedHabits);
     if (newSelected.has(index)) {
       newSelected.delete(index);
@@ -104,34 +108,57 @@ const GoalBreakdown: React.FC = () => {
       return;
     }
 
+    const selected = Array.from(selectedHabits).sort((a, b) => a - b);
+    if (selected.some((index) => !suggestedHabits[index].title.trim())) {
+      toast.error('Every selected habit needs a title');
+      return;
+    }
+    if (selected.some((index) => getDuplicateReason(index))) {
+      toast.error('Some selected habits are duplicates. Rename or deselect them first.');
+      return;
+    }
+
     try {
-      const habitsToCreate = Array.from(selectedHabits).map(index => {
+      const goalId = await createGoal({
+        user_id: user.id,
+        title: analyzedGoal || goal.trim(),
+        target_date: targetDate || null,
+      });
+
+      const habitsToCreate = selected.map(index => {
         const habit = suggestedHabits[index];
         return {
           user_id: user.id,
-          title: habit.title,
+          goal_id: goalId,
+          title: habit.title.trim(),
           description: habit.description,
           category: habit.category,
           frequency: habit.frequency,
-          target_count: 1,
+          target_count: habit.target_count,
           difficulty: habit.difficulty,
           icon: habit.icon,
           color: getCategoryColor(habit.category),
         };
       });
 
-      const { error } = await supabase
-        .from('habits')
-        .insert(habitsToCreate);
+      try {
+        await createHabits(habitsToCreate);
+      } catch (error) {
+        // Don't leave a goal behind without its habits
+        await deleteGoal(goalId);
+        throw error;
+      }
 
-      if (error) throw error;
-      
       toast.success(`${selectedHabits.size} habits created successfully! 🎉`);
       setSelectedHabits(new Set());
       setSuggestedHabits([]);
+      setEditingIndex(null);
       setGoal('');
-    } catch (error: any) {
-      toast.error('Error creating habits: ' + error.message);
+      setAnalyzedGoal('');
+      setTargetDate('');
+      invalidateHabits(user.id);
+    } catch (error) {
+      toast.error('Error creating habits: ' + (error as Error).message);
     }
   };
 
@@ -198,6 +225,18 @@ const GoalBreakdown: React.FC = () => {
             <span>{loading ? 'Analyzing...' : 'Analyze'}</span>
           </motion.button>
         </div>
+        {suggestedHabits.length > 0 && (
+          <div className="flex items-center space-x-3 mt-4">
+            <label className="text-sm text-gray-600">Target date (optional)</label>
+            <input
+              type="date"
+              value={targetDate}
+              min={localToday(timeZone)}
+              onChange={(e) => setTargetDate(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+          </div>
+        )}
       </motion.div>
 
       {/* Suggested Habits */}
@@ -225,50 +264,147 @@ const GoalBreakdown: React.FC = () => {
           </div>
 
           <div className="space-y-4">
-            {suggestedHabits.map((habit, index) => (
-              <motion.div
-                key={index}
-                initial={{ opacity: 0, x: -20 }}
-                animate={{ opacity: 1, x: 0 }}
-                transition={{ delay: index * 0.1 }}
-                className={`bg-white rounded-xl p-6 shadow-sm border-2 transition-all cursor-pointer ${
-                  selectedHabits.has(index)
-                    ? 'border-purple-500 bg-purple-50'
-                    : 'border-gray-100 hover:border-gray-200'
-                }`}
-                onClick={() => toggleHabitSelection(index)}
-              >
-                <div className="flex items-start space-x-4">
-                  <div className={`w-12 h-12 rounded-lg ${getCategoryColor(habit.category)} flex items-center justify-center text-white text-xl flex-shrink-0`}>
-                    {habit.icon}
-                  </div>
-                  <div className="flex-1">
-                    <div className="flex items-center justify-between mb-2">
-                      <h3 className="font-semibold text-gray-900">{habit.title}</h3>
-                      <div className="flex items-center space-x-2">
-                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getDifficultyColor(habit.difficulty)}`}>
-                          {habit.difficulty}
-                        </span>
-                        <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded-full">
-                          {habit.frequency}
-                        </span>
-                      </div>
+            {suggestedHabits.map((habit, index) => {
+              const duplicateReason = getDuplicateReason(index);
+              return (
+                <motion.div
+                  key={index}
+                  initial={{ opacity: 0, x: -20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  transition={{ delay: index * 0.1 }}
+                  className={`bg-white rounded-xl p-6 shadow-sm border-2 transition-all cursor-pointer ${
+                    selectedHabits.has(index)
+                      ? 'border-purple-500 bg-purple-50'
+                      : 'border-gray-100 hover:border-gray-200'
+                  }`}
+                  onClick={() => toggleHabitSelection(index)}
+                >
+                  <div className="flex items-start space-x-4">
+                    <div className={`w-12 h-12 rounded-lg ${getCategoryColor(habit.category)} flex items-center justify-center text-white text-xl flex-shrink-0`}>
+                      {habit.icon}
                     </div>
-                    <p className="text-sm text-gray-600 mb-3">{habit.description}</p>
-                    <div className="bg-blue-50 rounded-lg p-3">
-                      <div className="flex items-start space-x-2">
-                        <Lightbulb className="w-4 h-4 text-blue-600 mt-0.5 flex-shrink-0" />
-                        <p className="text-sm text-blue-800">{habit.reasoning}</p>
+                    <div className="flex-1">
+                      <div className="flex items-center justify-between mb-2">
+                        <h3 className="font-semibold text-gray-900">{habit.title || 'Untitled habit'}</h3>
+                        <div className="flex items-center space-x-2">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${getDifficultyColor(habit.difficulty)}`}>
+                            {habit.difficulty}
+                          </span>
+                          <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded-full">
+                            {habit.frequency}{habit.target_count > 1 ? ` ×${habit.target_count}` : ''}
+                          </span>
+                          <motion.button
+                            whileHover={{ scale: 1.1 }}
+                            whileTap={{ scale: 0.9 }}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setEditingIndex(editingIndex === index ? null : index);
+                            }}
+                            className="p-1 text-gray-400 hover:text-purple-600"
+                            title={editingIndex === index ? 'Done editing' : 'Edit before creating'}
+                          >
+                            {editingIndex === index ? <Check className="w-4 h-4" /> : <Edit3 className="w-4 h-4" />}
+                          </motion.button>
+                        </div>
+                      </div>
+                      <p className="text-sm text-gray-600 mb-3">{habit.description}</p>
+                      {duplicateReason && (
+                        <div className="flex items-center space-x-2 text-sm text-orange-700 bg-orange-50 rounded-lg px-3 py-2 mb-3">
+                          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                          <span>{duplicateReason}</span>
+                        </div>
+                      )}
+                      {editingIndex === index && (
+                        <div
+                          className="grid grid-cols-1 sm:grid-cols-2 gap-3 bg-white border border-gray-200 rounded-lg p-4 mb-3 cursor-default"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          <div className="sm:col-span-2">
+                            <label className="block text-xs font-medium text-gray-600 mb-1">Title</label>
+                            <input
+                              type="text"
+                              value={habit.title}
+                              onChange={(e) => updateSuggestion(index, { title: e.target.value })}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-xs font-medium text-gray-600 mb-1">Frequency</label>
+                            <select
+                              value={habit.frequency}
+                              onChange={(e) => updateSuggestion(index, { frequency: e.target.value as HabitDraft['frequency'] })}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                            >
+                              {FREQUENCY_OPTIONS
+                                .filter((option) => (SUGGESTION_FREQUENCIES as readonly string[]).includes(option.value))
+                                .map((option) => (
+                                  <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                          </div>
+                          <div>
+                            <label className="block text-xs font-medium text-gray-600 mb-1">Difficulty</label>
+                            <select
+                              value={habit.difficulty}
+                              onChange={(e) => updateSuggestion(index, { difficulty: e.target.value as HabitDraft['difficulty'] })}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm capitalize focus:outline-none focus:ring-2 focus:ring-purple-500"
+                            >
+                              {SUGGESTION_DIFFICULTIES.map((difficulty) => (
+                                <option key={difficulty} value={difficulty}>{difficulty}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <div>
+                            <label className="block text-xs font-medium text-gray-600 mb-1">Check-ins per period</label>
+                            <input
+                              type="number"
+                              min="1"
+                              max="20"
+                              value={habit.target_count}
+                              onChange={(e) => updateSuggestion(index, {
+                                target_count: Math.min(Math.max(parseInt(e.target.value) || 1, 1), 20),
+                              })}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-xs font-medium text-gray-600 mb-1">Icon</label>
+                            <div className="flex flex-wrap gap-1">
+                              {Array.from(new Set([habit.icon, ...icons])).map((icon) => (
+                                <button
+                                  key={icon}
+                                  type="button"
+                                  onClick={() => updateSuggestion(index, { icon })}
+                                  className={`w-8 h-8 rounded-lg text-lg flex items-center justify-center ${
+                                    habit.icon === icon ? 'bg-purple-100 ring-2 ring-purple-500' : 'hover:bg-gray-100'
+                                  }`}
+                                >
+                                  {icon}
+                                </button>
+                              ))}
+                            </div>
+                          </div>
+                        </div>
+                      )}
+                      <div className="bg-blue-50 rounded-lg p-3">
+                        <div className="flex items-start space-x-2">
+                          <Lightbulb className="w-4 h-4 text-blue-600 mt-0.5 flex-shrink-0" />
+                          <p className="text-sm text-blue-800">{habit.reasoning}</p>
+                        </div>
                       </div>
                     </div>
                   </div>
-                </div>
-              </motion.div>
-            ))}
+                </motion.div>
+              );
+            })}
           </div>
         </motion.div>
       )}
 
+      <div className="mt-8">
+        <GoalsList />
+      </div>
+
       {/* Example Goals */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -0,0 +1,243 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useAuth } from '../../contexts/AuthContext';
+import { X, Archive, ArchiveRestore, CheckCircle, RotateCcw, Calendar, Flame } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import { buildHistories, calculateCompletionRate } from '../../lib/habitProgress';
+import { calculateStreaks, formatStreak } from '../../lib/streaks';
+import { describeSchedule } from '../../lib/schedules';
+import { dayToDate, diffDays, eachLocalDay, localToday, toLocalDay } from '../../lib/localDay';
+
+import { Goal, updateGoalStatus } from '../../lib/repositories/goals';
+import { GoalHabit, listGoalHabits } from '../../lib/repositories/habits';
+
+interface GoalDetailModalProps {
+  goal: Goal | null;
+  onClose: () => void;
+  onChange: () => void;
+}
+
+const GoalDetailModal: React.FC<GoalDetailModalProps> = ({ goal, onClose, onChange }) => {
+  const { timeZone } = useAuth();
+  const [habits, setHabits] = useState<GoalHabit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (goal) fetchGoalHabits();
+  }, [goal?.id]);
+
+  const fetchGoalHabits = async () => {
+    if (!goal) return;
+
+    setLoading(true);
+    try {
+      setHabits(await listGoalHabits(goal.id));
+    } catch (error) {
+      toast.error('Error fetching goal habits: ' + (error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateStatus = async (status: Goal['status']) => {
+    if (!goal) return;
+
+    setSaving(true);
+    try {
+      await updateGoalStatus(goal.id, status);
+      toast.success(
+        status === 'archived' ? 'Goal and its habits archived'
+          : status === 'completed' ? 'Goal completed! 🎉'
+          : 'Goal reopened'
+      );
+      onChange();
+      onClose();
+    } catch (error) {
+      toast.error('Error updating goal: ' + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!goal) return null;
+
+  const today = localToday(timeZone);
+  const startDay = toLocalDay(goal.created_at, timeZone);
+  const days = eachLocalDay(startDay, today);
+  const completions = habits.flatMap((habit) => habit.completions);
+  const histories = buildHistories(habits, completions, timeZone);
+  const streaks = calculateStreaks(habits, completions, timeZone);
+  const overallRate = calculateCompletionRate(histories, days);
+  const daysLeft = goal.target_date ? diffDays(goal.target_date, today) : null;
+
+  return (
+    <AnimatePresence>
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.95 }}
+          className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+        >
+          <div className="p-6 border-b border-gray-200">
+            <div className="flex justify-between items-start">
+              <div>
+                <h2 className="text-2xl font-bold text-gray-900">{goal.title}</h2>
+                <div className="flex items-center space-x-3 text-sm text-gray-500 mt-1">
+                  <span className="capitalize">{goal.status}</span>
+                  <span>·</span>
+                  <span>Started {format(dayToDate(startDay), 'MMM dd, yyyy')}</span>
+                  {goal.target_date && (
+                    <>
+                      <span>·</span>
+                      <span className="flex items-center space-x-1">
+                        <Calendar className="w-3 h-3" />
+                        <span>
+                          {format(dayToDate(goal.target_date), 'MMM dd, yyyy')}
+                          {daysLeft !== null && goal.status === 'active' && (
+                            daysLeft >= 0 ? ` (${daysLeft} days left)` : ` (${-daysLeft} days overdue)`
+                          )}
+                        </span>
+                      </span>
+                    </>
+                  )}
+                </div>
+              </div>
+              <motion.button
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+                onClick={onClose}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+              >
+                <X className="w-5 h-5" />
+              </motion.button>
+            </div>
+          </div>
+
+          <div className="p-6 space-y-6">
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="bg-purple-50 rounded-xl p-4 text-center">
+                    <div className="text-2xl font-bold text-purple-700">{overallRate}%</div>
+                    <div className="text-xs text-purple-600">Completion rate</div>
+                  </div>
+                  <div className="bg-blue-50 rounded-xl p-4 text-center">
+                    <div className="text-2xl font-bold text-blue-700">{completions.length}</div>
+                    <div className="text-xs text-blue-600">Check-ins</div>
+                  </div>
+                  <div className="bg-orange-50 rounded-xl p-4 text-center">
+                    <div className="text-2xl font-bold text-orange-700">{streaks.current}</div>
+                    <div className="text-xs text-orange-600">Day streak</div>
+                  </div>
+                </div>
+
+                <div>
+                  <h3 className="font-semibold text-gray-900 mb-3">Habits ({habits.length})</h3>
+                  {habits.length === 0 ? (
+                    <p className="text-sm text-gray-500">No habits are linked to this goal.</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {habits.map((habit, index) => {
+                        const rate = calculateCompletionRate([histories[index]], days);
+                        return (
+                          <div key={habit.id} className="border border-gray-200 rounded-lg p-4">
+                            <div className="flex items-center justify-between mb-2">
+                              <div className="flex items-center space-x-3">
+                                <div className={`w-8 h-8 rounded-lg ${habit.color} flex items-center justify-center text-white text-sm`}>
+                                  {habit.icon}
+                                </div>
+                                <div>
+                                  <div className="font-medium text-gray-900">
+                                    {habit.title}
+                                    {!habit.is_active && <span className="ml-2 text-xs text-gray-400">(inactive)</span>}
+                                  </div>
+                                  <div className="text-xs text-gray-500">{describeSchedule(habit)}</div>
+                                </div>
+                              </div>
+                              <div className="flex items-center space-x-1 text-xs text-orange-600">
+                                <Flame className="w-3 h-3" />
+                                <span>{formatStreak(streaks.byHabit[habit.id])}</span>
+                              </div>
+                            </div>
+                            <div className="flex items-center space-x-3">
+                              <div className="flex-1 bg-gray-200 rounded-full h-2">
+                                <div
+                                  className="bg-gradient-to-r from-purple-500 to-blue-500 h-2 rounded-full"
+                                  style={{ width: `${rate}%` }}
+                                />
+                              </div>
+                              <span className="text-sm font-medium text-gray-700 w-10 text-right">{rate}%</span>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+
+            <div className="flex flex-wrap gap-3 pt-2">
+              {goal.status === 'active' && (
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() => updateStatus('completed')}
+                  disabled={saving}
+                  className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg font-semibold disabled:opacity-50"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                  <span>Mark Achieved</span>
+                </motion.button>
+              )}
+              {goal.status === 'completed' && (
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() => updateStatus('active')}
+                  disabled={saving}
+                  className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-semibold disabled:opacity-50"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  <span>Reopen</span>
+                </motion.button>
+              )}
+              {goal.status === 'archived' ? (
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() => updateStatus('active')}
+                  disabled={saving}
+                  className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-semibold disabled:opacity-50"
+                >
+                  <ArchiveRestore className="w-4 h-4" />
+                  <span>Restore Goal & Habits</span>
+                </motion.button>
+              ) : (
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() => updateStatus('archived')}
+                  disabled={saving}
+                  className="flex items-center space-x-2 px-4 py-2 border border-red-200 text-red-600 rounded-lg font-semibold hover:bg-red-50 disabled:opacity-50"
+                >
+                  <Archive className="w-4 h-4" />
+                  <span>Archive Goal & Habits</span>
+                </motion.button>
+              )}
+            </div>
+          </div>
+        </motion.div>
+      </div>
+    </AnimatePresence>
+  );
+};
+
+export default GoalDetailModal;
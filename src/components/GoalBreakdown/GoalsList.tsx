@@ -0,0 +1,102 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { useAuth } from '../../contexts/AuthContext';
+import { Flag, Calendar, ChevronRight } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import { dayToDate } from '../../lib/localDay';
+import GoalDetailModal from './GoalDetailModal';
+import { Goal, listGoals } from '../../lib/repositories/goals';
+import { invalidateHabits, queryKeys } from '../../lib/queries';
+import { useQuery } from '../../hooks/useQuery';
+
+const statusFilters: { value: Goal['status']; label: string }[] = [
+  { value: 'active', label: 'Active' },
+  { value: 'completed', label: 'Achieved' },
+  { value: 'archived', label: 'Archived' },
+];
+
+const GoalsList: React.FC = () => {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<Goal['status']>('active');
+  const [selectedGoal, setSelectedGoal] = useState<Goal | null>(null);
+
+  const { data: goals = [], error: fetchError } = useQuery(
+    user ? queryKeys.goals(user.id) : null,
+    () => listGoals(user!.id)
+  );
+
+  useEffect(() => {
+    if (fetchError) toast.error('Error fetching goals: ' + fetchError.message);
+  }, [fetchError]);
+
+  const visibleGoals = goals.filter((goal) => goal.status === status);
+
+  if (goals.length === 0) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-xl p-6 shadow-sm border border-gray-100 mb-8"
+    >
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Your Goals</h2>
+        <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
+          {statusFilters.map((filter) => (
+            <button
+              key={filter.value}
+              onClick={() => setStatus(filter.value)}
+              className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                status === filter.value ? 'bg-white text-purple-700 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {visibleGoals.length === 0 ? (
+        <p className="text-sm text-gray-500">No {statusFilters.find((f) => f.value === status)?.label.toLowerCase()} goals.</p>
+      ) : (
+        <div className="space-y-2">
+          {visibleGoals.map((goal) => (
+            <motion.button
+              key={goal.id}
+              whileHover={{ scale: 1.01 }}
+              whileTap={{ scale: 0.99 }}
+              onClick={() => setSelectedGoal(goal)}
+              className="w-full flex items-center justify-between p-4 rounded-lg border border-gray-200 hover:border-purple-300 text-left"
+            >
+              <div className="flex items-center space-x-3">
+                <Flag className="w-5 h-5 text-purple-600 flex-shrink-0" />
+                <div>
+                  <div className="font-medium text-gray-900">{goal.title}</div>
+                  <div className="flex items-center space-x-2 text-xs text-gray-500">
+                    <span>{goal.habits.length} habit{goal.habits.length === 1 ? '' : 's'}</span>
+                    {goal.target_date && (
+                      <>
+                        <Calendar className="w-3 h-3" />
+                        <span>{format(dayToDate(goal.target_date), 'MMM dd, yyyy')}</span>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </div>
+              <ChevronRight className="w-4 h-4 text-gray-400" />
+            </motion.button>
+          ))}
+        </div>
+      )}
+
+      <GoalDetailModal
+        goal={selectedGoal}
+        onClose={() => setSelectedGoal(null)}
+        onChange={() => user && invalidateHabits(user.id)}
+      />
+    </motion.div>
+  );
+};
+
+export default GoalsList;
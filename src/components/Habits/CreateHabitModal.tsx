@@ -1,15 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuth } from '../../contexts/AuthContext';
-import { supabase } from '../../lib/supabase';
-import { X, Target, Book, Code, Dumbbell, Heart, Brain } from 'lucide-react';
+import { X, Target, Book, Code, Dumbbell, Heart, Brain, Bell, Plus } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { FREQUENCY_OPTIONS, HabitFrequency, WEEKDAY_LABELS } from '../../lib/schedules';
+import { enableReminders, HabitReminder, sortReminders } from '../../lib/reminders';
+import { perform, QUEUED_MESSAGE } from '../../lib/offline/outbox';
+import type { Habit } from '../../lib/repositories/habits';
 
 interface CreateHabitModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
-  editHabit?: any;
+  editHabit?: Habit | null;
 }
 
 const CreateHabitModal: React.FC<CreateHabitModalProps> = ({
@@ -24,11 +27,14 @@ const CreateHabitModal: React.FC<CreateHabitModalProps> = ({
     title: '',
     description: '',
     category: 'Health',
-    frequency: 'daily' as 'daily' | 'weekly',
+    frequency: 'daily' as HabitFrequency,
+    scheduleDays: [1, 3, 5] as number[],
+    scheduleInterval: 3,
     targetCount: 1,
     difficulty: 'medium' as 'easy' | 'medium' | 'hard',
     icon: '🎯',
     color: 'bg-purple-500',
+    reminders: [] as HabitReminder[],
   });
 
   const categories = [
@@ -53,10 +59,13 @@ const CreateHabitModal: React.FC<CreateHabitModalProps> = ({
         description: editHabit.description || '',
         category: editHabit.category,
         frequency: editHabit.frequency,
+        scheduleDays: editHabit.schedule_days || [1, 3, 5],
+        scheduleInterval: editHabit.schedule_interval || 3,
         targetCount: editHabit.target_count,
         difficulty: editHabit.difficulty,
         icon: editHabit.icon,
         color: editHabit.color,
+        reminders: editHabit.reminders,
       });
     }
   }, [editHabit]);
@@ -65,6 +74,11 @@ const CreateHabitModal: React.FC<CreateHabitModalProps> = ({
     e.preventDefault();
     if (!user) return;
 
+    if (formData.frequency === 'weekdays' && formData.scheduleDays.length === 0) {
+      toast.error('Pick at least one day of the week');
+      return;
+    }
+
     setLoading(true);
     try {
       const habitData = {
@@ -73,27 +87,42 @@ const CreateHabitModal: React.FC<CreateHabitModalProps> = ({
         description: formData.description || null,
         category: formData.category,
         frequency: formData.frequency,
+        schedule_days: formData.frequency === 'weekdays' ? formData.scheduleDays : null,
+        schedule_interval: ['times_per_week', 'every_n_days'].includes(formData.frequency)
+          ? formData.scheduleInterval
+          : null,
         target_count: formData.targetCount,
         difficulty: formData.difficulty,
         icon: formData.icon,
         color: formData.color,
+        reminders: sortReminders(formData.reminders),
       };
 
-      if (editHabit) {
-        const { error } = await supabase
-          .from('habits')
-          .update(habitData)
-          .eq('id', editHabit.id);
-        
-        if (error) throw error;
-        toast.success('Habit updated successfully!');
+      const result = editHabit
+        ? await perform(user.id, `Changes to "${habitData.title}"`, {
+          kind: 'habit.update',
+          id: editHabit.id,
+          changes: habitData,
+          baseUpdatedAt: editHabit.updated_at,
+        })
+        : await perform(user.id, `New habit "${habitData.title}"`, {
+          kind: 'habit.insert',
+          row: { id: crypto.randomUUID(), ...habitData },
+        });
+
+      if (result === 'queued') {
+        toast.success(QUEUED_MESSAGE);
       } else {
-        const { error } = await supabase
-          .from('habits')
-          .insert(habitData);
-        
-        if (error) throw error;
-        toast.success('Habit created successfully!');
+        toast.success(editHabit ? 'Habit updated successfully!' : 'Habit created successfully!');
+      }
+
+      if (formData.reminders.length > 0) {
+        const delivery = await enableReminders();
+        if (delivery === 'denied') {
+          toast.error('Notifications are blocked, so reminders can\'t be shown. Allow them in your browser settings.');
+        } else if (delivery === 'unsupported') {
+          toast.error('This browser doesn\'t support reminder notifications.');
+        }
       }
 
       onSuccess();
@@ -103,13 +132,16 @@ const CreateHabitModal: React.FC<CreateHabitModalProps> = ({
         description: '',
         category: 'Health',
         frequency: 'daily',
+        scheduleDays: [1, 3, 5],
+        scheduleInterval: 3,
         targetCount: 1,
         difficulty: 'medium',
         icon: '🎯',
         color: 'bg-purple-500',
+        reminders: [],
       });
-    } catch (error: any) {
-      toast.error('Error saving habit: ' + error.message);
+    } catch (error) {
+      toast.error('Error saving habit: ' + (error as Error).message);
     } finally {
       setLoading(false);
     }
@@ -204,11 +236,12 @@ const CreateHabitModal: React.FC<CreateHabitModalProps> = ({
                   </label>
                   <select
                     value={formData.frequency}
-                    onChange={(e) => setFormData({ ...formData, frequency: e.target.value as 'daily' | 'weekly' })}
+                    onChange={(e) => setFormData({ ...formData, frequency: e.target.value as HabitFrequency })}
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
                   >
-                    <option value="daily">Daily</option>
-                    <option value="weekly">Weekly</option>
+                    {FREQUENCY_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
                   </select>
                 </div>
 
@@ -226,6 +259,54 @@ const CreateHabitModal: React.FC<CreateHabitModalProps> = ({
                 </div>
               </div>
 
+              {formData.frequency === 'weekdays' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-3">
+                    Repeat On
+                  </label>
+                  <div className="grid grid-cols-7 gap-2">
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <motion.button
+                        key={label}
+                        type="button"
+                        whileHover={{ scale: 1.05 }}
+                        whileTap={{ scale: 0.95 }}
+                        onClick={() => setFormData({
+                          ...formData,
+                          scheduleDays: formData.scheduleDays.includes(day)
+                            ? formData.scheduleDays.filter((d) => d !== day)
+                            : [...formData.scheduleDays, day].sort(),
+                        })}
+                        className={`py-2 rounded-lg border-2 text-sm font-medium transition-colors ${
+                          formData.scheduleDays.includes(day)
+                            ? 'border-purple-500 bg-purple-50 text-purple-700'
+                            : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                        }`}
+                      >
+                        {label}
+                      </motion.button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {(formData.frequency === 'times_per_week' || formData.frequency === 'every_n_days') && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {formData.frequency === 'times_per_week' ? 'Times Per Week' : 'Repeat Every (days)'}
+                  </label>
+                  <input
+                    type="number"
+                    value={formData.scheduleInterval}
+                    onChange={(e) => setFormData({ ...formData, scheduleInterval: Number(e.target.value) })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    min={1}
+                    max={formData.frequency === 'times_per_week' ? 7 : undefined}
+                    required
+                  />
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-3">
                   Difficulty Level
@@ -254,6 +335,87 @@ const CreateHabitModal: React.FC<CreateHabitModalProps> = ({
                 </div>
               </div>
 
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <label className="block text-sm font-medium text-gray-700">
+                    Reminders
+                  </label>
+                  <motion.button
+                    type="button"
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    onClick={() => setFormData({
+                      ...formData,
+                      reminders: [...formData.reminders, { time: '09:00', days: [] }],
+                    })}
+                    className="flex items-center space-x-1 text-sm text-purple-600 hover:text-purple-700 font-medium"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add reminder</span>
+                  </motion.button>
+                </div>
+                {formData.reminders.length === 0 ? (
+                  <p className="text-sm text-gray-500">No reminders. Add one to get notified at a set time.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {formData.reminders.map((reminder, index) => {
+                      const updateReminder = (changes: Partial<HabitReminder>) => setFormData({
+                        ...formData,
+                        reminders: formData.reminders.map((r, i) => (i === index ? { ...r, ...changes } : r)),
+                      });
+                      return (
+                        <div key={index} className="p-3 border border-gray-200 rounded-lg space-y-2">
+                          <div className="flex items-center space-x-3">
+                            <Bell className="w-4 h-4 text-purple-600" />
+                            <input
+                              type="time"
+                              value={reminder.time}
+                              onChange={(e) => updateReminder({ time: e.target.value })}
+                              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                              required
+                            />
+                            <span className="flex-1 text-xs text-gray-500">
+                              {reminder.days.length === 0 ? 'Every day' : 'Selected days only'}
+                            </span>
+                            <button
+                              type="button"
+                              onClick={() => setFormData({
+                                ...formData,
+                                reminders: formData.reminders.filter((_, i) => i !== index),
+                              })}
+                              className="p-1 text-gray-400 hover:text-red-600"
+                              title="Remove reminder"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          </div>
+                          <div className="grid grid-cols-7 gap-1">
+                            {WEEKDAY_LABELS.map((label, day) => (
+                              <button
+                                key={label}
+                                type="button"
+                                onClick={() => updateReminder({
+                                  days: reminder.days.includes(day)
+                                    ? reminder.days.filter((d) => d !== day)
+                                    : [...reminder.days, day].sort(),
+                                })}
+                                className={`py-1 rounded-md border text-xs font-medium transition-colors ${
+                                  reminder.days.includes(day)
+                                    ? 'border-purple-500 bg-purple-50 text-purple-700'
+                                    : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                                }`}
+                              >
+                                {label}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-3">
                   Choose Icon & Color
@@ -0,0 +1,347 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import Calendar from 'react-calendar';
+import 'react-calendar/dist/Calendar.css';
+import { useAuth } from '../../contexts/AuthContext';
+import { X, Plus, Trash2, Save, AlertTriangle, History } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import { buildHabitHistory, getPeriodProgress, ProgressHabit } from '../../lib/habitProgress';
+import { dayToDate, localToday, toLocalDay } from '../../lib/localDay';
+import { backfillTimestamp, BACKFILL_WINDOW_DAYS, isBeyondBackfillWindow } from '../../lib/backfill';
+import {
+  Completion,
+  CompletionEvent,
+  createCompletion,
+  deleteCompletion,
+  listCompletionEvents,
+  listHabitCompletions,
+  updateCompletion,
+} from '../../lib/repositories/completions';
+
+type CalendarCompletion = Pick<
+  Completion,
+  'id' | 'habit_id' | 'completed_at' | 'notes' | 'mood_rating' | 'backfill_flagged'
+>;
+
+interface CalendarHabit extends ProgressHabit {
+  title: string;
+  icon: string;
+  color: string;
+}
+
+interface HabitCalendarModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChange: () => void;
+  habit: CalendarHabit | null;
+}
+
+const moods = ['😢', '😕', '😐', '😊', '😁'];
+
+const HabitCalendarModal: React.FC<HabitCalendarModalProps> = ({
+  isOpen,
+  onClose,
+  onChange,
+  habit,
+}) => {
+  const { user, timeZone } = useAuth();
+  const [completions, setCompletions] = useState<CalendarCompletion[]>([]);
+  const [events, setEvents] = useState<CompletionEvent[]>([]);
+  const [selectedDay, setSelectedDay] = useState(localToday(timeZone));
+  const [drafts, setDrafts] = useState<Record<string, { notes: string; mood_rating: number | null }>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen && habit) {
+      setSelectedDay(localToday(timeZone));
+      fetchCompletions();
+      fetchEvents();
+    }
+  }, [isOpen, habit?.id]);
+
+  const fetchCompletions = async () => {
+    if (!user || !habit) return;
+
+    try {
+      setCompletions(await listHabitCompletions(habit.id));
+      setDrafts({});
+    } catch (error) {
+      toast.error('Error fetching completions: ' + (error as Error).message);
+    }
+  };
+
+  const fetchEvents = async () => {
+    if (!user || !habit) return;
+
+    try {
+      setEvents(await listCompletionEvents(habit.id));
+    } catch (error) {
+      console.error('Error fetching completion history:', error);
+    }
+  };
+
+  const refresh = () => {
+    fetchCompletions();
+    fetchEvents();
+    onChange();
+  };
+
+  const addCheckIn = async () => {
+    if (!user || !habit) return;
+
+    setSaving(true);
+    try {
+      const isToday = selectedDay === localToday(timeZone);
+      await createCompletion({
+        habit_id: habit.id,
+        user_id: user.id,
+        completed_at: isToday ? new Date().toISOString() : backfillTimestamp(selectedDay, timeZone),
+      });
+      toast.success(isToday ? 'Checked in' : `Logged ${format(dayToDate(selectedDay), 'MMM dd')}`);
+      refresh();
+    } catch (error) {
+      toast.error('Error adding check-in: ' + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeCheckIn = async (completionId: string) => {
+    setSaving(true);
+    try {
+      await deleteCompletion(completionId);
+      toast.success('Check-in removed');
+      refresh();
+    } catch (error) {
+      toast.error('Error removing check-in: ' + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveCheckIn = async (completion: CalendarCompletion) => {
+    const draft = drafts[completion.id];
+    if (!draft) return;
+
+    setSaving(true);
+    try {
+      await updateCompletion(completion.id, {
+        notes: draft.notes.trim() || null,
+        mood_rating: draft.mood_rating,
+      });
+      toast.success('Check-in updated');
+      refresh();
+    } catch (error) {
+      toast.error('Error updating check-in: ' + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getDraft = (completion: CalendarCompletion) =>
+    drafts[completion.id] || { notes: completion.notes || '', mood_rating: completion.mood_rating };
+
+  const updateDraft = (completion: CalendarCompletion, changes: Partial<{ notes: string; mood_rating: number | null }>) =>
+    setDrafts({ ...drafts, [completion.id]: { ...getDraft(completion), ...changes } });
+
+  const describeEvent = (event: CompletionEvent) => {
+    const day = format(dayToDate(toLocalDay(event.completed_at, timeZone)), 'MMM dd');
+    switch (event.action) {
+      case 'created':
+        return `Checked in for ${day}`;
+      case 'deleted':
+        return `Removed check-in for ${day}`;
+      default:
+        return `Edited ${Object.keys(event.changes).join(', ').replace(/_/g, ' ')} for ${day}`;
+    }
+  };
+
+  if (!habit) return null;
+
+  const history = buildHabitHistory(habit, completions, timeZone);
+  const today = localToday(timeZone);
+  const dayCompletions = completions.filter(c => toLocalDay(c.completed_at, timeZone) === selectedDay);
+  const dayKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-y-auto"
+          >
+            <div className="p-6 border-b border-gray-200">
+              <div className="flex justify-between items-center">
+                <div className="flex items-center space-x-3">
+                  <div className={`w-10 h-10 rounded-lg ${habit.color} flex items-center justify-center text-white`}>
+                    {habit.icon}
+                  </div>
+                  <h2 className="text-2xl font-bold text-gray-900">{habit.title}</h2>
+                </div>
+                <motion.button
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                  onClick={onClose}
+                  className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+                >
+                  <X className="w-5 h-5" />
+                </motion.button>
+              </div>
+            </div>
+
+            <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <Calendar
+                  className="!w-full !border-0"
+                  value={dayToDate(selectedDay)}
+                  maxDate={dayToDate(today)}
+                  onClickDay={(date) => setSelectedDay(dayKey(date))}
+                  tileClassName={({ date, view }) => {
+                    if (view !== 'month') return null;
+                    const day = dayKey(date);
+                    if (history.achievedDays.has(day)) return '!bg-green-100 !text-green-800 rounded-lg';
+                    if (completions.some(c => toLocalDay(c.completed_at, timeZone) === day)) {
+                      return '!bg-purple-50 !text-purple-700 rounded-lg';
+                    }
+                    return null;
+                  }}
+                />
+                <p className="text-xs text-gray-500 mt-3">
+                  Check-ins logged more than {BACKFILL_WINDOW_DAYS} days late are flagged and
+                  don't count towards challenge rankings.
+                </p>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-4">
+                  <div>
+                    <h3 className="font-semibold text-gray-900">
+                      {format(dayToDate(selectedDay), 'EEEE, MMM dd')}
+                    </h3>
+                    <p className="text-sm text-gray-500">
+                      {getPeriodProgress(history, selectedDay).count}/{getPeriodProgress(history, selectedDay).target} check-ins
+                      {history.scale.unit !== 'day' && ` this ${history.scale.unit}`}
+                    </p>
+                  </div>
+                  <motion.button
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    onClick={addCheckIn}
+                    disabled={saving}
+                    className="flex items-center space-x-1 px-3 py-2 bg-purple-100 text-purple-700 rounded-lg text-sm font-medium hover:bg-purple-200 disabled:opacity-50"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add Check-in</span>
+                  </motion.button>
+                </div>
+
+                {isBeyondBackfillWindow(selectedDay, timeZone) && (
+                  <div className="flex items-start space-x-2 bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-4">
+                    <AlertTriangle className="w-4 h-4 text-yellow-600 mt-0.5 flex-shrink-0" />
+                    <p className="text-xs text-yellow-800">
+                      This day is outside the {BACKFILL_WINDOW_DAYS}-day backfill window. New check-ins
+                      will count for your streaks but will be flagged.
+                    </p>
+                  </div>
+                )}
+
+                {dayCompletions.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-8">No check-ins on this day.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {dayCompletions.map((completion) => (
+                      <div key={completion.id} className="border border-gray-200 rounded-lg p-3">
+                        <div className="flex items-center justify-between mb-2">
+                          <div className="flex items-center space-x-2 text-sm text-gray-700">
+                            <span>{format(new Date(completion.completed_at), 'HH:mm')}</span>
+                            {completion.backfill_flagged && (
+                              <span className="flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-700">
+                                <AlertTriangle className="w-3 h-3" />
+                                <span>Late backfill</span>
+                              </span>
+                            )}
+                          </div>
+                          <div className="flex items-center space-x-1">
+                            {drafts[completion.id] && (
+                              <motion.button
+                                whileHover={{ scale: 1.1 }}
+                                whileTap={{ scale: 0.9 }}
+                                onClick={() => saveCheckIn(completion)}
+                                disabled={saving}
+                                className="p-1 text-gray-400 hover:text-green-600"
+                                title="Save changes"
+                              >
+                                <Save className="w-4 h-4" />
+                              </motion.button>
+                            )}
+                            <motion.button
+                              whileHover={{ scale: 1.1 }}
+                              whileTap={{ scale: 0.9 }}
+                              onClick={() => removeCheckIn(completion.id)}
+                              disabled={saving}
+                              className="p-1 text-gray-400 hover:text-red-600"
+                              title="Remove check-in"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </motion.button>
+                          </div>
+                        </div>
+                        <div className="flex space-x-1 mb-2">
+                          {moods.map((emoji, index) => (
+                            <button
+                              key={emoji}
+                              onClick={() => updateDraft(completion, {
+                                mood_rating: getDraft(completion).mood_rating === index + 1 ? null : index + 1,
+                              })}
+                              className={`w-8 h-8 rounded-lg text-lg transition-colors ${
+                                getDraft(completion).mood_rating === index + 1
+                                  ? 'bg-purple-100'
+                                  : 'hover:bg-gray-100'
+                              }`}
+                            >
+                              {emoji}
+                            </button>
+                          ))}
+                        </div>
+                        <textarea
+                          value={getDraft(completion).notes}
+                          onChange={(e) => updateDraft(completion, { notes: e.target.value })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                          placeholder="Notes..."
+                          rows={2}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {events.length > 0 && (
+                  <div className="mt-6">
+                    <h4 className="flex items-center space-x-2 text-sm font-semibold text-gray-900 mb-2">
+                      <History className="w-4 h-4" />
+                      <span>Recent Changes</span>
+                    </h4>
+                    <ul className="space-y-1">
+                      {events.map((event) => (
+                        <li key={event.id} className="flex justify-between text-xs text-gray-600">
+                          <span>{describeEvent(event)}</span>
+                          <span className="text-gray-400">{format(new Date(event.created_at), 'MMM dd, HH:mm')}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default HabitCalendarModal;
@@ -1,98 +1,150 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuth } from '../../contexts/AuthContext';
-import { supabase } from '../../lib/supabase';
-import { Plus, Edit3, Trash2, CheckCircle, Circle, Camera } from 'lucide-react';
+import { Plus, Edit3, Trash2, CheckCircle, Circle, Camera, Target, Flame, RotateCcw, CalendarDays, Bell } from 'lucide-react';
 import toast from 'react-hot-toast';
 import CreateHabitModal from './CreateHabitModal';
+import ProgressRing from './ProgressRing';
+import HabitCalendarModal from './HabitCalendarModal';
+import ProofUploadModal from '../ProofCenter/ProofUploadModal';
+import { calculateStreaks, formatStreak } from '../../lib/streaks';
+import { buildHabitHistory, getPeriodProgress } from '../../lib/habitProgress';
+import { describeSchedule, getScale } from '../../lib/schedules';
+import { localToday, toLocalDay } from '../../lib/localDay';
+import { formatReminder } from '../../lib/reminders';
+import { isNetworkError, perform, QUEUED_MESSAGE } from '../../lib/offline/outbox';
+import { loadHabitsSnapshot, saveHabitsSnapshot } from '../../lib/offline/mirror';
+import { HabitWithCompletions, listActiveHabitsWithCompletions } from '../../lib/repositories/habits';
+import {
+  addCompletionToCache,
+  invalidateCompletions,
+  invalidateHabits,
+  queryKeys,
+  removeCompletionFromCache,
+} from '../../lib/queries';
+import { useQuery } from '../../hooks/useQuery';
+import { followLink, navigate } from '../../lib/router';
+import { paths } from '../../lib/routes';
 
-interface Habit {
-  id: string;
-  title: string;
-  description: string | null;
-  category: string;
-  frequency: 'daily' | 'weekly';
-  target_count: number;
-  difficulty: 'easy' | 'medium' | 'hard';
-  is_active: boolean;
-  icon: string;
-  color: string;
-  completions?: any[];
+type Habit = HabitWithCompletions;
+
+interface HabitsManagerProps {
+  /** Opens this habit's calendar, from `/habits/:id` */
+  habitId?: string;
 }
 
-const HabitsManager: React.FC = () => {
-  const { user } = useAuth();
-  const [habits, setHabits] = useState<Habit[]>([]);
-  const [loading, setLoading] = useState(true);
+const HabitsManager: React.FC<HabitsManagerProps> = ({ habitId }) => {
+  const { user, timeZone } = useAuth();
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [selectedHabit, setSelectedHabit] = useState<Habit | null>(null);
+  const [proofHabitId, setProofHabitId] = useState<string | null>(null);
+
+  const { data: habits = [], error: fetchError, loading, fetching } = useQuery(
+    user ? queryKeys.habitsWithCompletions(user.id) : null,
+    async () => {
+      try {
+        const data = await listActiveHabitsWithCompletions(user!.id);
+        saveHabitsSnapshot(user!.id, data).catch((error) => console.error('Error saving offline copy:', error));
+        return data;
+      } catch (error) {
+        // Offline: show the copy from the last fetch plus anything queued since
+        if (isNetworkError(error)) return loadHabitsSnapshot(user!.id);
+        throw error;
+      }
+    }
+  );
+
+  useEffect(() => {
+    if (fetchError) toast.error('Error fetching habits: ' + fetchError.message);
+  }, [fetchError]);
+
+  const calendarHabit = (habitId && habits.find((habit) => habit.id === habitId)) || null;
+  // Only once the list is current, so a habit created elsewhere isn't reported missing
+  const habitMissing = !!habitId && !fetching && !loading && !fetchError && !calendarHabit;
 
   useEffect(() => {
-    fetchHabits();
-  }, [user]);
+    if (!habitMissing) return;
+    toast.error('That habit no longer exists');
+    navigate(paths.habits, { replace: true });
+  }, [habitMissing]);
+
+  const refreshHabits = () => {
+    if (user) invalidateHabits(user.id);
+  };
 
-  const fetchHabits = async () => {
+  const refreshCompletions = () => {
+    if (user) invalidateCompletions(user.id);
+  };
+
+  const completeHabit = async (habit: Habit) => {
     if (!user) return;
 
+    const { count, target } = getProgress(habit);
+    if (count >= target) return;
+
+    const row = {
+      id: crypto.randomUUID(),
+      habit_id: habit.id,
+      user_id: user.id,
+      completed_at: new Date().toISOString(),
+    };
+    addCompletionToCache(user.id, { ...row, mood_rating: null });
+
     try {
-      const { data, error } = await supabase
-        .from('habits')
-        .select(`
-          *,
-          habit_completions (
-            completed_at,
-            mood_rating
-          )
-        `)
-        .eq('user_id', user.id)
-        .eq('is_active', true)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setHabits(data || []);
-    } catch (error: any) {
-      toast.error('Error fetching habits: ' + error.message);
-    } finally {
-      setLoading(false);
+      const result = await perform(user.id, `Check-in for "${habit.title}"`, { kind: 'completion.insert', row });
+
+      if (result === 'queued') {
+        toast.success(QUEUED_MESSAGE);
+      } else if (count + 1 >= target) {
+        toast.success('Habit completed! 🎉');
+      } else {
+        toast.success(`Checked in (${count + 1}/${target})`);
+      }
+      if (result !== 'queued') invalidateCompletions(user.id);
+    } catch (error) {
+      invalidateCompletions(user.id);
+      toast.error('Error completing habit: ' + (error as Error).message);
     }
   };
 
-  const completeHabit = async (habitId: string) => {
+  const undoCheckIn = async (habit: Habit) => {
     if (!user) return;
 
+    const lastCheckIn = getCurrentPeriodCompletions(habit)
+      .sort((a, b) => new Date(b.completed_at).getTime() - new Date(a.completed_at).getTime())[0];
+    if (!lastCheckIn) return;
+
+    removeCompletionFromCache(user.id, lastCheckIn.id);
+
     try {
-      const { error } = await supabase
-        .from('habit_completions')
-        .insert({
-          habit_id: habitId,
-          user_id: user.id,
-          completed_at: new Date().toISOString(),
-        });
-
-      if (error) throw error;
-      
-      toast.success('Habit completed! 🎉');
-      fetchHabits();
-    } catch (error: any) {
-      toast.error('Error completing habit: ' + error.message);
+      const result = await perform(user.id, `Undoing a check-in for "${habit.title}"`, {
+        kind: 'completion.delete',
+        id: lastCheckIn.id,
+      });
+
+      toast.success(result === 'queued' ? QUEUED_MESSAGE : 'Check-in undone');
+      if (result !== 'queued') invalidateCompletions(user.id);
+    } catch (error) {
+      invalidateCompletions(user.id);
+      toast.error('Error undoing check-in: ' + (error as Error).message);
     }
   };
 
-  const deleteHabit = async (habitId: string) => {
+  const deleteHabit = async (habit: Habit) => {
     if (!user) return;
 
     try {
-      const { error } = await supabase
-        .from('habits')
-        .update({ is_active: false })
-        .eq('id', habitId);
-
-      if (error) throw error;
-      
-      toast.success('Habit deleted successfully');
-      fetchHabits();
-    } catch (error: any) {
-      toast.error('Error deleting habit: ' + error.message);
+      const result = await perform(user.id, `Deleting "${habit.title}"`, {
+        kind: 'habit.update',
+        id: habit.id,
+        changes: { is_active: false },
+        baseUpdatedAt: habit.updated_at,
+      });
+
+      toast.success(result === 'queued' ? QUEUED_MESSAGE : 'Habit deleted successfully');
+      invalidateHabits(user.id);
+    } catch (error) {
+      toast.error('Error deleting habit: ' + (error as Error).message);
     }
   };
 
@@ -105,14 +157,25 @@ const HabitsManager: React.FC = () => {
     }
   };
 
-  const isCompletedToday = (habit: Habit) => {
-    if (!habit.completions) return false;
-    const today = new Date().toDateString();
-    return habit.completions.some(completion => 
-      new Date(completion.completed_at).toDateString() === today
+  // Check-ins in the habit's current period (today, or this week for weekly habits)
+  const getCurrentPeriodCompletions = (habit: Habit) => {
+    const scale = getScale(habit, timeZone);
+    const period = scale.key(localToday(timeZone));
+    return habit.completions.filter(completion =>
+      scale.key(toLocalDay(completion.completed_at, timeZone)) === period
     );
   };
 
+  const getProgress = (habit: Habit) =>
+    getPeriodProgress(buildHabitHistory(habit, habit.completions, timeZone), localToday(timeZone));
+
+  const isDueToday = (habit: Habit) => getScale(habit, timeZone).isScheduled(localToday(timeZone));
+
+  // Habits scheduled today first; rest days sink to the bottom
+  const sortedHabits = [...habits].sort((a, b) => Number(isDueToday(b)) - Number(isDueToday(a)));
+
+  const streaks = calculateStreaks(habits, habits.flatMap(habit => habit.completions), timeZone);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -162,7 +225,7 @@ const HabitsManager: React.FC = () => {
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           <AnimatePresence>
-            {habits.map((habit, index) => (
+            {sortedHabits.map((habit, index) => (
               <motion.div
                 key={habit.id}
                 initial={{ opacity: 0, y: 20 }}
@@ -177,11 +240,28 @@ const HabitsManager: React.FC = () => {
                       {habit.icon}
                     </div>
                     <div>
-                      <h3 className="font-semibold text-gray-900">{habit.title}</h3>
+                      <h3 className="font-semibold text-gray-900">
+                        <a
+                          href={paths.habit(habit.id)}
+                          onClick={(event) => followLink(event, paths.habit(habit.id))}
+                          className="hover:text-purple-700"
+                        >
+                          {habit.title}
+                        </a>
+                      </h3>
                       <p className="text-sm text-gray-600">{habit.category}</p>
                     </div>
                   </div>
                   <div className="flex items-center space-x-1">
+                    <motion.button
+                      whileHover={{ scale: 1.1 }}
+                      whileTap={{ scale: 0.9 }}
+                      onClick={() => navigate(paths.habit(habit.id))}
+                      className="p-1 text-gray-400 hover:text-purple-600"
+                      title="Calendar & backfill"
+                    >
+                      <CalendarDays className="w-4 h-4" />
+                    </motion.button>
                     <motion.button
                       whileHover={{ scale: 1.1 }}
                       whileTap={{ scale: 0.9 }}
@@ -193,7 +273,7 @@ const HabitsManager: React.FC = () => {
                     <motion.button
                       whileHover={{ scale: 1.1 }}
                       whileTap={{ scale: 0.9 }}
-                      onClick={() => deleteHabit(habit.id)}
+                      onClick={() => deleteHabit(habit)}
                       className="p-1 text-gray-400 hover:text-red-600"
                     >
                       <Trash2 className="w-4 h-4" />
@@ -210,43 +290,84 @@ const HabitsManager: React.FC = () => {
                     {habit.difficulty}
                   </span>
                   <span className="text-sm text-gray-500">
-                    {habit.frequency} • Target: {habit.target_count}
+                    {!isDueToday(habit) && (
+                      <span className="mr-2 px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                        Rest day
+                      </span>
+                    )}
+                    {describeSchedule(habit)} • Target: {habit.target_count}
                   </span>
                 </div>
 
-                <div className="flex items-center justify-between">
-                  <motion.button
-                    whileHover={{ scale: 1.05 }}
-                    whileTap={{ scale: 0.95 }}
-                    onClick={() => completeHabit(habit.id)}
-                    disabled={isCompletedToday(habit)}
-                    className={`flex items-center space-x-2 px-4 py-2 rounded-lg font-medium transition-colors ${
-                      isCompletedToday(habit)
-                        ? 'bg-green-100 text-green-700 cursor-not-allowed'
-                        : 'bg-purple-100 text-purple-700 hover:bg-purple-200'
-                    }`}
+                {habit.reminders?.length > 0 && (
+                  <div
+                    className="flex items-center space-x-1 text-xs text-gray-500 mb-4"
+                    title={habit.reminders.map(formatReminder).join('\n')}
                   >
-                    {isCompletedToday(habit) ? (
-                      <CheckCircle className="w-4 h-4" />
-                    ) : (
-                      <Circle className="w-4 h-4" />
+                    <Bell className="w-3 h-3" />
+                    <span>{habit.reminders.map((reminder) => reminder.time).join(', ')}</span>
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    {getProgress(habit).target > 1 && (
+                      <ProgressRing count={getProgress(habit).count} target={getProgress(habit).target} />
                     )}
-                    <span>
-                      {isCompletedToday(habit) ? 'Completed' : 'Mark Done'}
-                    </span>
-                  </motion.button>
+                    <motion.button
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      onClick={() => completeHabit(habit)}
+                      disabled={getProgress(habit).done}
+                      className={`flex items-center space-x-2 px-4 py-2 rounded-lg font-medium transition-colors ${
+                        getProgress(habit).done
+                          ? 'bg-green-100 text-green-700 cursor-not-allowed'
+                          : 'bg-purple-100 text-purple-700 hover:bg-purple-200'
+                      }`}
+                    >
+                      {getProgress(habit).done ? (
+                        <CheckCircle className="w-4 h-4" />
+                      ) : (
+                        <Circle className="w-4 h-4" />
+                      )}
+                      <span>
+                        {getProgress(habit).done
+                          ? 'Completed'
+                          : getProgress(habit).target > 1 ? 'Check In' : 'Mark Done'}
+                      </span>
+                    </motion.button>
+                    {getProgress(habit).count > 0 && (
+                      <motion.button
+                        whileHover={{ scale: 1.1 }}
+                        whileTap={{ scale: 0.9 }}
+                        onClick={() => undoCheckIn(habit)}
+                        className="p-2 text-gray-400 hover:text-red-600"
+                        title="Undo last check-in"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </motion.button>
+                    )}
+                  </div>
 
                   <div className="flex items-center space-x-2">
                     <motion.button
                       whileHover={{ scale: 1.1 }}
                       whileTap={{ scale: 0.9 }}
+                      onClick={() => setProofHabitId(habit.id)}
                       className="p-2 text-gray-400 hover:text-purple-600 border border-gray-200 rounded-lg hover:border-purple-200"
                       title="Add proof photo"
                     >
                       <Camera className="w-4 h-4" />
                     </motion.button>
+                    <div
+                      className="flex items-center space-x-1 text-xs text-orange-600"
+                      title={`Best: ${streaks.byHabit[habit.id]?.longest || 0}`}
+                    >
+                      <Flame className="w-3 h-3" />
+                      <span>{formatStreak(streaks.byHabit[habit.id] || { current: 0, unit: 'day' })}</span>
+                    </div>
                     <div className="text-xs text-gray-500">
-                      {habit.completions?.length || 0} times
+                      {habit.completions.length} times
                     </div>
                   </div>
                 </div>
@@ -259,9 +380,23 @@ const HabitsManager: React.FC = () => {
       <CreateHabitModal
         isOpen={showCreateModal}
         onClose={() => setShowCreateModal(false)}
-        onSuccess={fetchHabits}
+        onSuccess={refreshHabits}
         editHabit={selectedHabit}
       />
+
+      <HabitCalendarModal
+        isOpen={!!calendarHabit}
+        onClose={() => navigate(paths.habits)}
+        onChange={refreshCompletions}
+        habit={calendarHabit}
+      />
+
+      <ProofUploadModal
+        isOpen={!!proofHabitId}
+        onClose={() => setProofHabitId(null)}
+        onSuccess={refreshCompletions}
+        habitId={proofHabitId}
+      />
     </div>
   );
 };
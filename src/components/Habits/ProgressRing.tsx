@@ -0,0 +1,51 @@
+import React from 'react';
+
+interface ProgressRingProps {
+  count: number;
+  target: number;
+  size?: number;
+  strokeWidth?: number;
+}
+
+const ProgressRing: React.FC<ProgressRingProps> = ({
+  count,
+  target,
+  size = 44,
+  strokeWidth = 4,
+}) => {
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const progress = Math.min(count / target, 1);
+  const done = count >= target;
+
+  return (
+    <div className="relative flex items-center justify-center" style={{ width: size, height: size }}>
+      <svg width={size} height={size} className="-rotate-90">
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          strokeWidth={strokeWidth}
+          className="stroke-gray-200"
+          fill="none"
+        />
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - progress)}
+          className={`transition-all duration-500 ${done ? 'stroke-green-500' : 'stroke-purple-500'}`}
+          fill="none"
+        />
+      </svg>
+      <span className={`absolute text-xs font-semibold ${done ? 'text-green-700' : 'text-gray-700'}`}>
+        {count}/{target}
+      </span>
+    </div>
+  );
+};
+
+export default ProgressRing;
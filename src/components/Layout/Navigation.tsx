@@ -1,22 +1,23 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { Home, Target, TrendingUp, Users, Camera, Brain, Heart, Layout } from 'lucide-react';
+import { followLink } from '../../lib/router';
+import { paths } from '../../lib/routes';
 
 interface NavigationProps {
   activeTab: string;
-  setActiveTab: (tab: string) => void;
 }
 
-const Navigation: React.FC<NavigationProps> = ({ activeTab, setActiveTab }) => {
+const Navigation: React.FC<NavigationProps> = ({ activeTab }) => {
   const tabs = [
-    { id: 'dashboard', label: 'Dashboard', icon: Home },
-    { id: 'habits', label: 'My Habits', icon: Target },
-    { id: 'goal-breakdown', label: 'AI Goals', icon: Brain },
-    { id: 'analytics', label: 'Analytics', icon: TrendingUp },
-    { id: 'mood', label: 'Mood Journal', icon: Heart },
-    { id: 'challenges', label: 'Challenges', icon: Users },
-    { id: 'proof', label: 'Proof Center', icon: Camera },
-    { id: 'templates', label: 'Templates', icon: Layout },
+    { id: 'dashboard', label: 'Dashboard', icon: Home, path: paths.dashboard },
+    { id: 'habits', label: 'My Habits', icon: Target, path: paths.habits },
+    { id: 'goal-breakdown', label: 'AI Goals', icon: Brain, path: paths.goals },
+    { id: 'analytics', label: 'Analytics', icon: TrendingUp, path: paths.analytics },
+    { id: 'mood', label: 'Mood Journal', icon: Heart, path: paths.mood },
+    { id: 'challenges', label: 'Challenges', icon: Users, path: paths.challenges },
+    { id: 'proof', label: 'Proof Center', icon: Camera, path: paths.proof },
+    { id: 'templates', label: 'Templates', icon: Layout, path: paths.templates },
   ];
 
   return (
@@ -28,9 +29,11 @@ const Navigation: React.FC<NavigationProps> = ({ activeTab, setActiveTab }) => {
             const isActive = activeTab === tab.id;
             
             return (
-              <motion.button
+              <motion.a
                 key={tab.id}
-                onClick={() => setActiveTab(tab.id)}
+                href={tab.path}
+                onClick={(event) => followLink(event, tab.path)}
+                aria-current={isActive ? 'page' : undefined}
                 className={`flex items-center space-x-2 py-4 px-2 border-b-2 font-medium text-sm whitespace-nowrap transition-colors ${
                   isActive
                     ? 'border-purple-500 text-purple-600'
@@ -41,7 +44,7 @@ const Navigation: React.FC<NavigationProps> = ({ activeTab, setActiveTab }) => {
               >
                 <Icon className="w-4 h-4" />
                 <span>{tab.label}</span>
-              </motion.button>
+              </motion.a>
             );
           })}
         </div>
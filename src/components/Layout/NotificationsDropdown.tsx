@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useAuth } from '../../contexts/AuthContext';
+import { Bell, CheckCheck, Users, Flame, Trophy, Info } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatDistanceToNow } from 'date-fns';
+import { notifyStreaksAtRisk } from '../../lib/notifications';
+import {
+  AppNotification,
+  listNotifications,
+  markNotificationsRead,
+  subscribeToNotifications,
+} from '../../lib/repositories/notifications';
+import { navigate } from '../../lib/router';
+import { paths } from '../../lib/routes';
+
+const NOTIFICATION_LIMIT = 30;
+
+// How often an open app re-checks for streaks at risk
+const STREAK_CHECK_INTERVAL_MS = 30 * 60 * 1000;
+
+const typeStyles: Record<AppNotification['type'], { icon: React.ElementType; color: string }> = {
+  info: { icon: Info, color: 'text-blue-600 bg-blue-100' },
+  challenge_join: { icon: Users, color: 'text-purple-600 bg-purple-100' },
+  streak_risk: { icon: Flame, color: 'text-orange-600 bg-orange-100' },
+  milestone: { icon: Trophy, color: 'text-yellow-600 bg-yellow-100' },
+};
+
+// The screen a notification refers to, if any
+const getNotificationPath = ({ data }: AppNotification) => {
+  if (typeof data.challenge_id === 'string') return paths.challenge(data.challenge_id);
+  if (typeof data.habit_id === 'string') return paths.habit(data.habit_id);
+  return null;
+};
+
+const NotificationsDropdown: React.FC = () => {
+  const { user, timeZone } = useAuth();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchNotifications();
+
+    return subscribeToNotifications(user.id, {
+      onInsert: (notification) => {
+        setNotifications((current) => [notification, ...current].slice(0, NOTIFICATION_LIMIT));
+        toast(notification.title, { icon: '🔔' });
+      },
+      onUpdate: (notification) => {
+        setNotifications((current) => current.map((n) => (n.id === notification.id ? notification : n)));
+      },
+      onDelete: (id) => {
+        setNotifications((current) => current.filter((n) => n.id !== id));
+      },
+    });
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const checkStreaks = () => {
+      notifyStreaksAtRisk(user.id, timeZone).catch((error) => {
+        console.error('Error checking streaks at risk:', error);
+      });
+    };
+
+    checkStreaks();
+    const timer = setInterval(checkStreaks, STREAK_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [user, timeZone]);
+
+  const fetchNotifications = async () => {
+    if (!user) return;
+
+    try {
+      setNotifications(await listNotifications(user.id, NOTIFICATION_LIMIT));
+    } catch (error) {
+      toast.error('Error fetching notifications: ' + (error as Error).message);
+    }
+  };
+
+  const unread = notifications.filter((notification) => !notification.is_read);
+
+  const markRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+
+    // Optimistic; the realtime UPDATE confirms it
+    setNotifications((current) => current.map((n) => (ids.includes(n.id) ? { ...n, is_read: true } : n)));
+    try {
+      await markNotificationsRead(ids);
+    } catch (error) {
+      toast.error('Error updating notifications: ' + (error as Error).message);
+      fetchNotifications();
+    }
+  };
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.is_read) markRead([notification.id]);
+
+    const path = getNotificationPath(notification);
+    if (path) {
+      setIsOpen(false);
+      navigate(path);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <motion.button
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 text-gray-600 hover:text-purple-600 transition-colors"
+        title="Notifications"
+      >
+        <Bell className="w-5 h-5" />
+        {unread.length > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 bg-red-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center">
+            {unread.length > 9 ? '9+' : unread.length}
+          </span>
+        )}
+      </motion.button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <>
+            <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+            <motion.div
+              initial={{ opacity: 0, y: -8 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -8 }}
+              className="absolute right-0 mt-2 w-80 sm:w-96 bg-white rounded-xl shadow-2xl border border-gray-200 z-50 overflow-hidden"
+            >
+              <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+                <h3 className="font-semibold text-gray-900">Notifications</h3>
+                <button
+                  onClick={() => markRead(unread.map((n) => n.id))}
+                  disabled={unread.length === 0}
+                  className="flex items-center space-x-1 text-sm text-purple-600 hover:text-purple-700 disabled:text-gray-300"
+                >
+                  <CheckCheck className="w-4 h-4" />
+                  <span>Mark all read</span>
+                </button>
+              </div>
+
+              <div className="max-h-96 overflow-y-auto">
+                {notifications.length === 0 ? (
+                  <div className="px-4 py-8 text-center text-sm text-gray-500">
+                    You're all caught up.
+                  </div>
+                ) : (
+                  notifications.map((notification) => {
+                    const { icon: Icon, color } = typeStyles[notification.type] || typeStyles.info;
+                    return (
+                      <button
+                        key={notification.id}
+                        onClick={() => openNotification(notification)}
+                        className={`w-full flex items-start space-x-3 px-4 py-3 text-left border-b border-gray-50 hover:bg-gray-50 ${
+                          notification.is_read ? '' : 'bg-purple-50/50'
+                        }`}
+                      >
+                        <div className={`p-2 rounded-lg flex-shrink-0 ${color}`}>
+                          <Icon className="w-4 h-4" />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center justify-between">
+                            <span className={`text-sm ${notification.is_read ? 'text-gray-700' : 'font-semibold text-gray-900'}`}>
+                              {notification.title}
+                            </span>
+                            {!notification.is_read && <span className="w-2 h-2 bg-purple-500 rounded-full flex-shrink-0" />}
+                          </div>
+                          <p className="text-xs text-gray-600 mt-0.5">{notification.message}</p>
+                          <p className="text-xs text-gray-400 mt-1">
+                            {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                          </p>
+                        </div>
+                      </button>
+                    );
+                  })
+                )}
+              </div>
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default NotificationsDropdown;
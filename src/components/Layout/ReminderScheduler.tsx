@@ -0,0 +1,114 @@
+import React, { useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { localDayBounds, localTime, localToday } from '../../lib/localDay';
+import { registerServiceWorker } from '../../lib/pwa';
+import {
+  claimPushSubscription,
+  getDueReminders,
+  getPushSubscription,
+  isDoneForDay,
+  isReminderSupported,
+  reminderKey,
+} from '../../lib/reminders';
+import { Habit, listReminderHabits } from '../../lib/repositories/habits';
+import { listCompletionsBetween } from '../../lib/repositories/completions';
+import { paths } from '../../lib/routes';
+
+type ReminderHabit = Pick<Habit, 'id' | 'title' | 'icon' | 'target_count' | 'reminders'>;
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+const HABIT_REFRESH_MS = 5 * 60 * 1000;
+const SHOWN_STORAGE_KEY = 'habitflow:reminders-shown';
+
+// Keys of reminders already handled today, shared by every open tab
+const loadShown = (day: string) => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SHOWN_STORAGE_KEY) || '{}');
+    return new Set<string>(stored.day === day ? stored.keys : []);
+  } catch {
+    return new Set<string>();
+  }
+};
+
+const saveShown = (day: string, keys: Set<string>) => {
+  localStorage.setItem(SHOWN_STORAGE_KEY, JSON.stringify({ day, keys: [...keys] }));
+};
+
+/**
+ * Shows habit reminders while the app is open, for browsers without a push
+ * subscription. Reminders for habits already done that local day are
+ * skipped. Renders nothing.
+ */
+const ReminderScheduler: React.FC = () => {
+  const { user, timeZone } = useAuth();
+  const userId = user?.id;
+
+  // A push subscription saved by someone else on this browser moves to the
+  // signed-in user, so the previous user's reminders stop arriving here
+  useEffect(() => {
+    if (!userId) return;
+    claimPushSubscription().catch((error) => console.error('Error saving push subscription:', error));
+  }, [userId]);
+
+  useEffect(() => {
+    if (!user || !isReminderSupported()) return;
+
+    let habits: ReminderHabit[] = [];
+    let fetchedAt = 0;
+
+    const check = async () => {
+      if (Notification.permission !== 'granted') return;
+
+      try {
+        // With push, the send-reminders edge function delivers them instead
+        if (await getPushSubscription()) return;
+
+        if (Date.now() - fetchedAt > HABIT_REFRESH_MS) {
+          habits = await listReminderHabits(user.id);
+          fetchedAt = Date.now();
+        }
+
+        const day = localToday(timeZone);
+        const time = localTime(timeZone);
+        const shown = loadShown(day);
+        const due = habits.flatMap((habit) =>
+          getDueReminders(habit.reminders, day, time)
+            .map((reminder) => ({ habit, key: reminderKey(habit.id, day, reminder.time) }))
+            .filter(({ key }) => !shown.has(key))
+        );
+        if (due.length === 0) return;
+
+        const { start, end } = localDayBounds(day, timeZone);
+        const completions = await listCompletionsBetween(due.map(({ habit }) => habit.id), start, end);
+
+        const checkIns = new Map<string, number>();
+        completions.forEach(({ habit_id }) => {
+          checkIns.set(habit_id, (checkIns.get(habit_id) || 0) + 1);
+        });
+
+        const registration = await registerServiceWorker();
+        due.forEach(({ habit, key }) => {
+          shown.add(key);
+          if (isDoneForDay(checkIns.get(habit.id) || 0, habit.target_count)) return;
+
+          registration.showNotification(`${habit.icon} ${habit.title}`, {
+            body: 'Time for your habit! Check in once it\'s done.',
+            tag: key,
+            data: { url: paths.habit(habit.id) },
+          });
+        });
+        saveShown(day, shown);
+      } catch (error) {
+        console.error('Error checking reminders:', error);
+      }
+    };
+
+    check();
+    const timer = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [user, timeZone]);
+
+  return null;
+};
+
+export default ReminderScheduler;
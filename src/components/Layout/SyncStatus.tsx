@@ -0,0 +1,46 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { CloudOff, RefreshCw } from 'lucide-react';
+import { useSync } from '../../contexts/SyncContext';
+
+const SyncStatus: React.FC = () => {
+  const { online, pending, syncing, syncNow } = useSync();
+
+  if (!online) {
+    return (
+      <div
+        className="flex items-center space-x-1.5 px-3 py-1.5 bg-amber-50 text-amber-700 rounded-full text-xs font-medium"
+        title="Changes are saved on this device and will sync when you're back online"
+      >
+        <CloudOff className="w-3.5 h-3.5" />
+        <span>Offline{pending > 0 ? ` · ${pending} pending` : ''}</span>
+      </div>
+    );
+  }
+
+  if (syncing) {
+    return (
+      <div className="flex items-center space-x-1.5 px-3 py-1.5 bg-blue-50 text-blue-700 rounded-full text-xs font-medium">
+        <RefreshCw className="w-3.5 h-3.5 animate-spin" />
+        <span>Syncing…</span>
+      </div>
+    );
+  }
+
+  if (pending === 0) return null;
+
+  return (
+    <motion.button
+      whileHover={{ scale: 1.05 }}
+      whileTap={{ scale: 0.95 }}
+      onClick={syncNow}
+      className="flex items-center space-x-1.5 px-3 py-1.5 bg-amber-50 text-amber-700 hover:bg-amber-100 rounded-full text-xs font-medium transition-colors"
+      title="Sync now"
+    >
+      <RefreshCw className="w-3.5 h-3.5" />
+      <span>{pending} pending</span>
+    </motion.button>
+  );
+};
+
+export default SyncStatus;
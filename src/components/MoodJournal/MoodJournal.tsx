@@ -1,26 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { useAuth } from '../../contexts/AuthContext';
-import { supabase } from '../../lib/supabase';
 import { Heart, Calendar, TrendingUp, BookOpen } from 'lucide-react';
-import { format, subDays, eachDayOfInterval } from 'date-fns';
+import { format } from 'date-fns';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import toast from 'react-hot-toast';
-
-interface MoodEntry {
-  id: string;
-  user_id: string;
-  mood_rating: number;
-  reflection: string;
-  created_at: string;
-}
+import { addDaysToDay, dayToDate, eachLocalDay, localDayBounds, localToday, toLocalDay } from '../../lib/localDay';
+import { perform, QUEUED_MESSAGE } from '../../lib/offline/outbox';
+import { getMoodEntryForDay, listMoodEntries } from '../../lib/repositories/moods';
+import { invalidateMoods, queryKeys } from '../../lib/queries';
+import { useQuery } from '../../hooks/useQuery';
 
 const MoodJournal: React.FC = () => {
-  const { user } = useAuth();
-  const [moodEntries, setMoodEntries] = useState<MoodEntry[]>([]);
+  const { user, timeZone } = useAuth();
   const [todayMood, setTodayMood] = useState<number | null>(null);
   const [reflection, setReflection] = useState('');
-  const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
 
   const moods = [
@@ -31,51 +25,30 @@ const MoodJournal: React.FC = () => {
     { value: 5, emoji: '😁', label: 'Amazing', color: 'bg-blue-500' },
   ];
 
-  useEffect(() => {
-    fetchMoodEntries();
-    checkTodayMood();
-  }, [user]);
-
-  const fetchMoodEntries = async () => {
-    if (!user) return;
+  const { data: moodEntries = [], error: fetchError, loading } = useQuery(
+    user ? queryKeys.moodEntries(user.id) : null,
+    () => listMoodEntries(user!.id)
+  );
 
-    try {
-      const { data, error } = await supabase
-        .from('mood_entries')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false })
-        .limit(30);
+  useEffect(() => {
+    if (fetchError) console.error('Error fetching mood entries:', fetchError);
+  }, [fetchError]);
 
-      if (error) throw error;
-      setMoodEntries(data || []);
-    } catch (error: any) {
-      console.error('Error fetching mood entries:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  useEffect(() => {
+    checkTodayMood();
+  }, [user, timeZone]);
 
   const checkTodayMood = async () => {
     if (!user) return;
 
     try {
-      const today = format(new Date(), 'yyyy-MM-dd');
-      const { data, error } = await supabase
-        .from('mood_entries')
-        .select('*')
-        .eq('user_id', user.id)
-        .gte('created_at', `${today}T00:00:00`)
-        .lt('created_at', `${today}T23:59:59`);
-
-      if (error) throw error;
-      
-      if (data && data.length > 0) {
-        setTodayMood(data[0].mood_rating);
-        setReflection(data[0].reflection || '');
+      const entry = await getMoodEntryForDay(user.id, localDayBounds(localToday(timeZone), timeZone));
+      if (entry) {
+        setTodayMood(entry.mood_rating);
+        setReflection(entry.reflection || '');
       }
     } catch (error) {
-      // No mood entry for today, which is fine
+      console.error('Error fetching today\'s mood:', error);
     }
   };
 
@@ -87,44 +60,18 @@ const MoodJournal: React.FC = () => {
 
     setSubmitting(true);
     try {
-      const today = format(new Date(), 'yyyy-MM-dd');
-      
-      // Check if entry exists for today
-      const { data: existingEntry } = await supabase
-        .from('mood_entries')
-        .select('id')
-        .eq('user_id', user.id)
-        .gte('created_at', `${today}T00:00:00`)
-        .lt('created_at', `${today}T23:59:59`)
-        .single();
-
-      if (existingEntry) {
-        // Update existing entry
-        const { error } = await supabase
-          .from('mood_entries')
-          .update({
-            mood_rating: todayMood,
-            reflection: reflection.trim() || null,
-          })
-          .eq('id', existingEntry.id);
-
-        if (error) throw error;
-        toast.success('Mood updated successfully! 💙');
-      } else {
-        // Create new entry
-        const { error } = await supabase
-          .from('mood_entries')
-          .insert({
-            user_id: user.id,
-            mood_rating: todayMood,
-            reflection: reflection.trim() || null,
-          });
-
-        if (error) throw error;
-        toast.success('Mood recorded successfully! 💙');
-      }
-
-      fetchMoodEntries();
+      // One entry per local day; saving again replaces today's entry
+      const result = await perform(user.id, 'Mood entry', {
+        kind: 'mood.save',
+        day: localToday(timeZone),
+        timeZone,
+        moodRating: todayMood,
+        reflection: reflection.trim() || null,
+        recordedAt: new Date().toISOString(),
+      });
+
+      toast.success(result === 'queued' ? QUEUED_MESSAGE : 'Mood saved successfully! 💙');
+      if (result !== 'queued') invalidateMoods(user.id);
     } catch (error: any) {
       toast.error('Error saving mood entry: ' + error.message);
     } finally {
@@ -133,19 +80,16 @@ const MoodJournal: React.FC = () => {
   };
 
   const getMoodChartData = () => {
-    const last7Days = eachDayOfInterval({
-      start: subDays(new Date(), 6),
-      end: new Date()
-    });
+    const today = localToday(timeZone);
+    const last7Days = eachLocalDay(addDaysToDay(today, -6), today);
 
-    return last7Days.map(date => {
-      const dateStr = format(date, 'yyyy-MM-dd');
-      const entry = moodEntries.find(e => 
-        format(new Date(e.created_at), 'yyyy-MM-dd') === dateStr
+    return last7Days.map(day => {
+      const entry = moodEntries.find(e =>
+        toLocalDay(e.created_at, timeZone) === day
       );
-      
+
       return {
-        date: format(date, 'MMM dd'),
+        date: format(dayToDate(day), 'MMM dd'),
         mood: entry?.mood_rating || null,
       };
     });
@@ -280,7 +224,7 @@ const MoodJournal: React.FC = () => {
                     <div className="flex items-center space-x-2 mb-2">
                       <span className="text-lg">{mood?.emoji}</span>
                       <span className="text-sm font-medium text-gray-700">
-                        {format(new Date(entry.created_at), 'MMMM dd, yyyy')}
+                        {format(dayToDate(toLocalDay(entry.created_at, timeZone)), 'MMMM dd, yyyy')}
                       </span>
                     </div>
                     <p className="text-gray-600 text-sm">{entry.reflection}</p>
@@ -1,88 +1,75 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { useAuth } from '../../contexts/AuthContext';
-import { supabase } from '../../lib/supabase';
 import { Camera, Upload, Image, Calendar, Clock, Award } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { format } from 'date-fns';
-
-interface ProofEntry {
-  id: string;
-  habit_id: string;
-  proof_image_url: string;
-  notes: string;
-  completed_at: string;
-  mood_rating: number;
-  habits: {
-    title: string;
-    icon: string;
-    color: string;
-  };
+import ProofUploadModal from './ProofUploadModal';
+import ProofLightbox from './ProofLightbox';
+import ProofImage from './ProofImage';
+import {
+  getSignedProofUrls,
+  PROOF_VISIBILITY_OPTIONS,
+  ProofVisibility,
+} from '../../lib/proofs';
+import { perform, QUEUED_MESSAGE } from '../../lib/offline/outbox';
+import { listProofCompletions, ProofCompletion } from '../../lib/repositories/completions';
+import { setQueryData } from '../../lib/queryCache';
+import { invalidateCompletions, queryKeys } from '../../lib/queries';
+import { useQuery } from '../../hooks/useQuery';
+import { followLink, navigate } from '../../lib/router';
+import { paths } from '../../lib/routes';
+
+type ProofEntry = ProofCompletion;
+
+interface ProofCenterProps {
+  /** Opens this check-in's photo, from `/proof/:completionId` */
+  completionId?: string;
 }
 
-const ProofCenter: React.FC = () => {
+const ProofCenter: React.FC<ProofCenterProps> = ({ completionId }) => {
   const { user } = useAuth();
-  const [proofEntries, setProofEntries] = useState<ProofEntry[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [uploading, setUploading] = useState(false);
+  const [showUploadModal, setShowUploadModal] = useState(false);
+
+  const { data: proofEntries = [], error: fetchError, loading, fetching } = useQuery(
+    user ? queryKeys.proofCompletions(user.id) : null,
+    async () => {
+      // Sign every thumbnail in one request before the gallery renders them
+      const entries = await listProofCompletions(user!.id);
+      await getSignedProofUrls(entries.map((entry) => entry.proof_thumbnail_url || entry.proof_image_url))
+        .catch((signError) => console.error('Error signing proof URLs:', signError));
+      return entries;
+    }
+  );
 
   useEffect(() => {
-    fetchProofEntries();
-  }, [user]);
+    if (fetchError) toast.error('Error fetching proof entries: ' + fetchError.message);
+  }, [fetchError]);
 
-  const fetchProofEntries = async () => {
-    if (!user) return;
+  const lightboxEntry = (completionId && proofEntries.find((entry) => entry.id === completionId)) || null;
+  const entryMissing = !!completionId && !fetching && !loading && !fetchError && !lightboxEntry;
 
-    try {
-      const { data, error } = await supabase
-        .from('habit_completions')
-        .select(`
-          *,
-          habits (
-            title,
-            icon,
-            color
-          )
-        `)
-        .eq('user_id', user.id)
-        .not('proof_image_url', 'is', null)
-        .order('completed_at', { ascending: false });
-
-      if (error) throw error;
-      setProofEntries(data || []);
-    } catch (error: any) {
-      toast.error('Error fetching proof entries: ' + error.message);
-    } finally {
-      setLoading(false);
-    }
-  };
+  useEffect(() => {
+    if (!entryMissing) return;
+    toast.error('That photo is no longer available');
+    navigate(paths.proof, { replace: true });
+  }, [entryMissing]);
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file || !user) return;
+  const changeVisibility = async (entry: ProofEntry, visibility: ProofVisibility) => {
+    if (!user) return;
 
-    setUploading(true);
     try {
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${user.id}/${Date.now()}.${fileExt}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('habit-proofs')
-        .upload(fileName, file);
-
-      if (uploadError) throw uploadError;
-
-      const { data: { publicUrl } } = supabase.storage
-        .from('habit-proofs')
-        .getPublicUrl(fileName);
-
-      toast.success('Photo uploaded successfully! 📸');
-      // Here you would typically associate this with a habit completion
-      
-    } catch (error: any) {
-      toast.error('Error uploading photo: ' + error.message);
-    } finally {
-      setUploading(false);
+      const result = await perform(user.id, `Visibility of the "${entry.habits.title}" photo`, {
+        kind: 'completion.update',
+        id: entry.id,
+        changes: { proof_visibility: visibility },
+      });
+      setQueryData<ProofEntry[]>(queryKeys.proofCompletions(user.id), (entries) =>
+        entries.map((e) => (e.id === entry.id ? { ...e, proof_visibility: visibility } : e))
+      );
+      toast.success(result === 'queued' ? QUEUED_MESSAGE : 'Visibility updated');
+    } catch (error) {
+      toast.error('Error updating visibility: ' + (error as Error).message);
     }
   };
 
@@ -107,21 +94,15 @@ const ProofCenter: React.FC = () => {
           <p className="text-gray-600">Visual evidence of your habit completions</p>
         </div>
         <div className="flex items-center space-x-4">
-          <motion.label
+          <motion.button
             whileHover={{ scale: 1.05 }}
             whileTap={{ scale: 0.95 }}
-            className="flex items-center space-x-2 bg-gradient-to-r from-purple-600 to-blue-600 text-white px-6 py-3 rounded-lg font-semibold shadow-lg hover:shadow-xl transition-shadow cursor-pointer"
+            onClick={() => setShowUploadModal(true)}
+            className="flex items-center space-x-2 bg-gradient-to-r from-purple-600 to-blue-600 text-white px-6 py-3 rounded-lg font-semibold shadow-lg hover:shadow-xl transition-shadow"
           >
             <Upload className="w-5 h-5" />
-            <span>{uploading ? 'Uploading...' : 'Upload Photo'}</span>
-            <input
-              type="file"
-              accept="image/*"
-              onChange={handleFileUpload}
-              className="hidden"
-              disabled={uploading}
-            />
-          </motion.label>
+            <span>Upload Photo</span>
+          </motion.button>
         </div>
       </div>
 
@@ -137,7 +118,7 @@ const ProofCenter: React.FC = () => {
             <h3 className="font-semibold text-gray-900 mb-2">How to Use Proof Center</h3>
             <ul className="text-sm text-gray-600 space-y-1">
               <li>• Take photos or screenshots when completing habits</li>
-              <li>• Upload images as proof of your progress</li>
+              <li>• Attach images to a check-in, or log a new one with the photo</li>
               <li>• Build a visual timeline of your achievements</li>
               <li>• Share your progress with friends and challenges</li>
             </ul>
@@ -157,21 +138,15 @@ const ProofCenter: React.FC = () => {
           </div>
           <h3 className="text-xl font-semibold text-gray-900 mb-2">No proof photos yet</h3>
           <p className="text-gray-600 mb-6">Start uploading photos to document your habit journey!</p>
-          <motion.label
+          <motion.button
             whileHover={{ scale: 1.05 }}
             whileTap={{ scale: 0.95 }}
-            className="inline-flex items-center space-x-2 bg-gradient-to-r from-purple-600 to-blue-600 text-white px-8 py-3 rounded-lg font-semibold cursor-pointer"
+            onClick={() => setShowUploadModal(true)}
+            className="inline-flex items-center space-x-2 bg-gradient-to-r from-purple-600 to-blue-600 text-white px-8 py-3 rounded-lg font-semibold"
           >
             <Camera className="w-5 h-5" />
             <span>Upload First Photo</span>
-            <input
-              type="file"
-              accept="image/*"
-              onChange={handleFileUpload}
-              className="hidden"
-              disabled={uploading}
-            />
-          </motion.label>
+          </motion.button>
         </motion.div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -183,10 +158,16 @@ const ProofCenter: React.FC = () => {
               transition={{ delay: index * 0.1 }}
               className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden hover:shadow-md transition-shadow"
             >
-              <div className="aspect-square bg-gray-100 relative">
-                <img
-                  src={entry.proof_image_url}
+              <a
+                href={paths.proofEntry(entry.id)}
+                onClick={(event) => followLink(event, paths.proofEntry(entry.id))}
+                className="block aspect-square bg-gray-100 relative cursor-zoom-in"
+              >
+                {/* Older uploads have no thumbnail */}
+                <ProofImage
+                  path={entry.proof_thumbnail_url || entry.proof_image_url}
                   alt="Habit proof"
+                  loading="lazy"
                   className="w-full h-full object-cover"
                 />
                 <div className="absolute top-3 right-3">
@@ -194,7 +175,7 @@ const ProofCenter: React.FC = () => {
                     <span className="text-white text-lg">{getMoodEmoji(entry.mood_rating || 3)}</span>
                   </div>
                 </div>
-              </div>
+              </a>
               
               <div className="p-4">
                 <div className="flex items-center space-x-3 mb-3">
@@ -221,13 +202,38 @@ const ProofCenter: React.FC = () => {
                     <Award className="w-4 h-4 text-yellow-500" />
                     <span className="text-sm font-medium text-gray-700">Completed</span>
                   </div>
-                  <span className="text-2xl">{getMoodEmoji(entry.mood_rating || 3)}</span>
+                  <select
+                    value={entry.proof_visibility}
+                    onChange={(e) => changeVisibility(entry, e.target.value as ProofVisibility)}
+                    className="text-xs text-gray-600 border border-gray-200 rounded-lg px-2 py-1 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    title="Who can see this photo"
+                  >
+                    {PROOF_VISIBILITY_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
                 </div>
               </div>
             </motion.div>
           ))}
         </div>
       )}
+
+      <ProofUploadModal
+        isOpen={showUploadModal}
+        onClose={() => setShowUploadModal(false)}
+        onSuccess={() => user && invalidateCompletions(user.id)}
+      />
+
+      <ProofLightbox
+        path={lightboxEntry?.proof_image_url || null}
+        caption={lightboxEntry
+          ? `${lightboxEntry.habits.title} · ${format(new Date(lightboxEntry.completed_at), 'MMM dd, yyyy HH:mm')}`
+          : undefined}
+        onClose={() => navigate(paths.proof)}
+      />
     </div>
   );
 };
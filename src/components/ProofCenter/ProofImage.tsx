@@ -0,0 +1,74 @@
+import React, { useState, useEffect } from 'react';
+import { Image } from 'lucide-react';
+import {
+  getSignedProofUrl,
+  invalidateSignedProofUrl,
+  SignedProofUrl,
+  SIGNED_URL_REFRESH_MARGIN_MS,
+} from '../../lib/proofs';
+
+interface ProofImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+  /** Storage path in the proofs bucket */
+  path: string;
+}
+
+/**
+ * Renders a private proof photo through a signed URL. The URL is re-signed
+ * shortly before it expires, and once more if the browser fails to load it
+ * (e.g. after the tab slept past expiry), so galleries never show broken
+ * images for long-lived sessions.
+ */
+const ProofImage: React.FC<ProofImageProps> = ({ path, className, ...props }) => {
+  const [signed, setSigned] = useState<SignedProofUrl | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [retried, setRetried] = useState(false);
+
+  const resolve = async () => {
+    try {
+      const result = await getSignedProofUrl(path);
+      setSigned(result);
+      setFailed(!result);
+    } catch (error) {
+      console.error('Error signing proof URL:', error);
+      setFailed(true);
+    }
+  };
+
+  useEffect(() => {
+    setSigned(null);
+    setFailed(false);
+    setRetried(false);
+    resolve();
+  }, [path]);
+
+  useEffect(() => {
+    if (!signed) return;
+
+    // getSignedProofUrl hands out a fresh URL once this one nears expiry
+    const timer = window.setTimeout(resolve, Math.max(signed.expiresAt - Date.now() - SIGNED_URL_REFRESH_MARGIN_MS, 0));
+    return () => window.clearTimeout(timer);
+  }, [signed]);
+
+  const handleError = () => {
+    if (retried) {
+      setFailed(true);
+      return;
+    }
+
+    setRetried(true);
+    invalidateSignedProofUrl(path);
+    resolve();
+  };
+
+  if (failed || !signed) {
+    return (
+      <div className={`flex items-center justify-center bg-gray-100 text-gray-400 ${className || ''}`}>
+        {failed ? <Image className="w-8 h-8" /> : <div className="w-8 h-8 rounded-full bg-gray-200 animate-pulse" />}
+      </div>
+    );
+  }
+
+  return <img {...props} src={signed.url} onError={handleError} className={className} />;
+};
+
+export default ProofImage;
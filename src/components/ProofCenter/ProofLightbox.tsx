@@ -0,0 +1,60 @@
+import React, { useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X } from 'lucide-react';
+import ProofImage from './ProofImage';
+
+interface ProofLightboxProps {
+  /** Storage path of the full-size photo */
+  path: string | null;
+  caption?: string;
+  onClose: () => void;
+}
+
+const ProofLightbox: React.FC<ProofLightboxProps> = ({ path, caption, onClose }) => {
+  useEffect(() => {
+    if (!path) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [path, onClose]);
+
+  return (
+    <AnimatePresence>
+      {path && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+          className="fixed inset-0 bg-black/90 z-50 flex flex-col items-center justify-center p-4"
+        >
+          <motion.button
+            whileHover={{ scale: 1.1 }}
+            whileTap={{ scale: 0.9 }}
+            onClick={onClose}
+            className="absolute top-4 right-4 p-2 text-white/70 hover:text-white rounded-lg"
+          >
+            <X className="w-6 h-6" />
+          </motion.button>
+          <motion.div
+            initial={{ scale: 0.95 }}
+            animate={{ scale: 1 }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <ProofImage
+              path={path}
+              alt={caption || 'Habit proof'}
+              className="max-w-full max-h-[85vh] min-w-[12rem] min-h-[12rem] object-contain rounded-lg shadow-2xl"
+            />
+          </motion.div>
+          {caption && <p className="text-white/80 text-sm mt-4">{caption}</p>}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ProofLightbox;
@@ -0,0 +1,363 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useAuth } from '../../contexts/AuthContext';
+import { X, Upload, Image, Plus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import { attachProofToCompletion, PROOF_VISIBILITY_OPTIONS, ProofVisibility } from '../../lib/proofs';
+import { ACCEPTED_IMAGE_TYPES, MAX_UPLOAD_BYTES, validateImageFile } from '../../lib/imageProcessing';
+import { localToday, toLocalDay } from '../../lib/localDay';
+import { enqueue, isNetworkError, QUEUED_MESSAGE } from '../../lib/offline/outbox';
+import { loadHabitsSnapshot } from '../../lib/offline/mirror';
+import { Habit, listActiveHabits } from '../../lib/repositories/habits';
+import { Completion, listRecentHabitCompletions } from '../../lib/repositories/completions';
+import { queryKeys } from '../../lib/queries';
+import { useQuery } from '../../hooks/useQuery';
+
+type ProofHabit = Pick<Habit, 'id' | 'title' | 'icon' | 'color'>;
+type ProofCompletion = Pick<Completion, 'id' | 'completed_at' | 'proof_image_url'>;
+
+interface ProofUploadModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  /** Preselects a habit, e.g. when opened from a habit card */
+  habitId?: string | null;
+}
+
+// Empty selection means "log a new check-in with this photo"
+const NEW_CHECK_IN = '';
+
+const ProofUploadModal: React.FC<ProofUploadModalProps> = ({
+  isOpen,
+  onClose,
+  onSuccess,
+  habitId: initialHabitId = null,
+}) => {
+  const { user, timeZone } = useAuth();
+  const [habitId, setHabitId] = useState('');
+  const [completions, setCompletions] = useState<ProofCompletion[]>([]);
+  const [completionId, setCompletionId] = useState(NEW_CHECK_IN);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [visibility, setVisibility] = useState<ProofVisibility>('private');
+  const [uploading, setUploading] = useState(false);
+
+  const { data: habits = [], error: habitsError } = useQuery<ProofHabit[]>(
+    isOpen && user ? queryKeys.activeHabits(user.id) : null,
+    async () => {
+      try {
+        return await listActiveHabits(user!.id);
+      } catch (error) {
+        if (isNetworkError(error)) return loadHabitsSnapshot(user!.id);
+        throw error;
+      }
+    }
+  );
+
+  useEffect(() => {
+    if (habitsError) toast.error('Error fetching habits: ' + habitsError.message);
+  }, [habitsError]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setHabitId(initialHabitId || '');
+      setFile(null);
+      setFileError(null);
+      setVisibility('private');
+    }
+  }, [isOpen, initialHabitId]);
+
+  useEffect(() => {
+    if (isOpen && !habitId && habits.length) setHabitId(habits[0].id);
+  }, [isOpen, habitId, habits]);
+
+  useEffect(() => {
+    if (isOpen && habitId) {
+      fetchCompletions(habitId);
+    } else {
+      setCompletions([]);
+      setCompletionId(NEW_CHECK_IN);
+    }
+  }, [isOpen, habitId]);
+
+  useEffect(() => {
+    if (!file) {
+      setPreview(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(file);
+    setPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const fetchCompletions = async (id: string) => {
+    try {
+      const rows = await listRecentHabitCompletions(id);
+      setCompletions(rows);
+
+      // Default to today's check-in that has no photo yet, if any
+      const today = localToday(timeZone);
+      const candidate = rows.find(
+        (completion) => !completion.proof_image_url && toLocalDay(completion.completed_at, timeZone) === today
+      );
+      setCompletionId(candidate?.id || NEW_CHECK_IN);
+    } catch (error) {
+      // Offline, only a new check-in can be logged
+      if (!isNetworkError(error)) toast.error('Error fetching check-ins: ' + (error as Error).message);
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0] || null;
+    if (!selected) return;
+
+    try {
+      validateImageFile(selected);
+      setFile(selected);
+      setFileError(null);
+    } catch (error) {
+      setFile(null);
+      setFileError((error as Error).message);
+    }
+  };
+
+  // Queues the photo, and the check-in it belongs to if new, for the next sync
+  const queueUpload = async (userId: string, photo: File) => {
+    const habitTitle = habits.find((habit) => habit.id === habitId)?.title || 'habit';
+    const targetId = completionId || crypto.randomUUID();
+
+    if (!completionId) {
+      await enqueue({
+        userId,
+        label: `Check-in for "${habitTitle}"`,
+        op: {
+          kind: 'completion.insert',
+          row: { id: targetId, habit_id: habitId, user_id: userId, completed_at: new Date().toISOString() },
+        },
+      });
+    }
+    await enqueue({
+      userId,
+      label: `Photo for "${habitTitle}"`,
+      op: {
+        kind: 'proof.attach',
+        habitId,
+        completionId: targetId,
+        file: photo,
+        fileName: photo.name,
+        visibility,
+      },
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !habitId || !file) return;
+
+    setUploading(true);
+    try {
+      if (!navigator.onLine) {
+        await queueUpload(user.id, file);
+        toast.success(QUEUED_MESSAGE);
+        onSuccess();
+        onClose();
+        return;
+      }
+
+      await attachProofToCompletion({
+        userId: user.id,
+        habitId,
+        completionId: completionId || null,
+        file,
+        visibility,
+      });
+
+      toast.success(completionId ? 'Photo added to check-in! 📸' : 'Checked in with photo! 📸');
+      onSuccess();
+      onClose();
+    } catch (error) {
+      if (isNetworkError(error)) {
+        await queueUpload(user.id, file);
+        toast.success(QUEUED_MESSAGE);
+        onSuccess();
+        onClose();
+        return;
+      }
+      toast.error('Error uploading photo: ' + (error as Error).message);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const selectedCompletion = completions.find((completion) => completion.id === completionId);
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto"
+          >
+            <div className="p-6 border-b border-gray-200">
+              <div className="flex justify-between items-center">
+                <h2 className="text-2xl font-bold text-gray-900">Add Proof Photo</h2>
+                <motion.button
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                  onClick={onClose}
+                  className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+                >
+                  <X className="w-5 h-5" />
+                </motion.button>
+              </div>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Habit</label>
+                <select
+                  value={habitId}
+                  onChange={(e) => setHabitId(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  required
+                >
+                  {habits.length === 0 && <option value="">No active habits</option>}
+                  {habits.map((habit) => (
+                    <option key={habit.id} value={habit.id}>
+                      {habit.icon} {habit.title}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Attach to</label>
+                <div className="space-y-2 max-h-48 overflow-y-auto">
+                  <label className="flex items-center space-x-3 p-3 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50">
+                    <input
+                      type="radio"
+                      name="completion"
+                      checked={completionId === NEW_CHECK_IN}
+                      onChange={() => setCompletionId(NEW_CHECK_IN)}
+                      className="text-purple-600 focus:ring-purple-500"
+                    />
+                    <Plus className="w-4 h-4 text-purple-600" />
+                    <span className="text-sm text-gray-900">New check-in now</span>
+                  </label>
+                  {completions.map((completion) => (
+                    <label
+                      key={completion.id}
+                      className="flex items-center justify-between p-3 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50"
+                    >
+                      <div className="flex items-center space-x-3">
+                        <input
+                          type="radio"
+                          name="completion"
+                          checked={completionId === completion.id}
+                          onChange={() => setCompletionId(completion.id)}
+                          className="text-purple-600 focus:ring-purple-500"
+                        />
+                        <span className="text-sm text-gray-900">
+                          {format(new Date(completion.completed_at), 'MMM dd, yyyy HH:mm')}
+                        </span>
+                      </div>
+                      {completion.proof_image_url && (
+                        <span className="flex items-center space-x-1 text-xs text-gray-500">
+                          <Image className="w-3 h-3" />
+                          <span>Has photo</span>
+                        </span>
+                      )}
+                    </label>
+                  ))}
+                </div>
+                {selectedCompletion?.proof_image_url && (
+                  <p className="text-xs text-orange-600 mt-2">
+                    This check-in already has a photo; uploading will replace it.
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Photo</label>
+                <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-4 cursor-pointer hover:border-purple-400">
+                  {preview ? (
+                    <img src={preview} alt="Proof preview" className="max-h-48 rounded-lg object-contain" />
+                  ) : (
+                    <div className="flex flex-col items-center text-gray-500 py-6">
+                      <Upload className="w-8 h-8 mb-2" />
+                      <span className="text-sm">Choose an image</span>
+                    </div>
+                  )}
+                  <input
+                    type="file"
+                    accept={ACCEPTED_IMAGE_TYPES.join(',')}
+                    onChange={handleFileChange}
+                    className="hidden"
+                    disabled={uploading}
+                  />
+                </label>
+                {fileError ? (
+                  <p className="text-xs text-red-600 mt-2">{fileError}</p>
+                ) : (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Up to {MAX_UPLOAD_BYTES / 1024 / 1024} MB. Photos are resized and location data is removed before upload.
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Who can see it</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {PROOF_VISIBILITY_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => setVisibility(option.value)}
+                      className={`p-3 border rounded-lg text-left transition-colors ${
+                        visibility === option.value
+                          ? 'border-purple-500 bg-purple-50'
+                          : 'border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      <div className="text-sm font-medium text-gray-900">{option.label}</div>
+                      <div className="text-xs text-gray-500">{option.description}</div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex space-x-4 pt-2">
+                <motion.button
+                  type="button"
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={onClose}
+                  className="flex-1 px-6 py-3 border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50"
+                >
+                  Cancel
+                </motion.button>
+                <motion.button
+                  type="submit"
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  disabled={uploading || !habitId || !file}
+                  className="flex-1 px-6 py-3 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-lg font-semibold disabled:opacity-50"
+                >
+                  {uploading ? 'Processing...' : 'Upload'}
+                </motion.button>
+              </div>
+            </form>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ProofUploadModal;
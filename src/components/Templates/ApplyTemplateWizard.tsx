@@ -0,0 +1,391 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useAuth } from '../../contexts/AuthContext';
+import { X, AlertTriangle, ArrowLeft, ArrowRight, Check, Pause } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { describeSchedule, FREQUENCY_OPTIONS, HabitFrequency, WEEKDAY_LABELS } from '../../lib/schedules';
+import { findDuplicateHabit } from '../../lib/habitMatching';
+import { HabitTemplate, TemplateHabit } from '../../lib/templates';
+import { applyHabitTemplate, Habit, listActiveHabits } from '../../lib/repositories/habits';
+import { invalidateHabits } from '../../lib/queries';
+
+type ActiveHabit = Pick<Habit, 'id' | 'title' | 'icon'>;
+
+interface WizardHabit extends TemplateHabit {
+  target_count: number;
+  enabled: boolean;
+  scheduleDays: number[];
+  scheduleInterval: number;
+  /** The user's active habit with the same title, if any */
+  conflict: ActiveHabit | null;
+  pauseConflict: boolean;
+}
+
+interface ApplyTemplateWizardProps {
+  template: HabitTemplate | null;
+  onClose: () => void;
+}
+
+type WizardStep = 'customize' | 'review';
+
+const getCategoryColor = (category: string) => {
+  const colors: { [key: string]: string } = {
+    'Health': 'bg-red-500',
+    'Study': 'bg-blue-500',
+    'Coding': 'bg-green-500',
+    'Fitness': 'bg-orange-500',
+    'Mindfulness': 'bg-purple-500',
+    'General': 'bg-gray-500',
+  };
+  return colors[category] || 'bg-gray-500';
+};
+
+const ApplyTemplateWizard: React.FC<ApplyTemplateWizardProps> = ({ template, onClose }) => {
+  const { user } = useAuth();
+  const [step, setStep] = useState<WizardStep>('customize');
+  const [drafts, setDrafts] = useState<WizardHabit[]>([]);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    if (template) {
+      setStep('customize');
+      setDrafts([]);
+      loadDrafts(template);
+    }
+  }, [template]);
+
+  const loadDrafts = async (source: HabitTemplate) => {
+    if (!user) return;
+
+    let activeHabits: ActiveHabit[] = [];
+    try {
+      activeHabits = await listActiveHabits(user.id);
+    } catch (error) {
+      toast.error('Error checking your habits: ' + (error as Error).message);
+    }
+
+    // Habits you already track start switched off, so applying twice doesn't duplicate them
+    setDrafts(source.habits.map((habit) => {
+      const conflict = findDuplicateHabit(habit.title, activeHabits) || null;
+      return {
+        ...habit,
+        target_count: habit.target_count || 1,
+        enabled: !conflict,
+        scheduleDays: habit.schedule_days || [1, 3, 5],
+        scheduleInterval: habit.schedule_interval || 3,
+        conflict,
+        pauseConflict: false,
+      };
+    }));
+  };
+
+  const updateDraft = (index: number, changes: Partial<WizardHabit>) => {
+    setDrafts(drafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const toScheduleFields = (draft: WizardHabit) => ({
+    schedule_days: draft.frequency === 'weekdays' ? draft.scheduleDays : null,
+    schedule_interval: ['times_per_week', 'every_n_days'].includes(draft.frequency)
+      ? draft.scheduleInterval
+      : null,
+  });
+
+  const selected = drafts.filter((draft) => draft.enabled);
+  const toPause = selected.filter((draft) => draft.conflict && draft.pauseConflict);
+
+  const goToReview = () => {
+    if (selected.length === 0) {
+      toast.error('Select at least one habit');
+      return;
+    }
+    if (selected.some((draft) => draft.frequency === 'weekdays' && draft.scheduleDays.length === 0)) {
+      toast.error('Pick at least one day of the week for each weekday habit');
+      return;
+    }
+    setStep('review');
+  };
+
+  const applyTemplate = async () => {
+    if (!user || !template) return;
+
+    setApplying(true);
+    try {
+      // One RPC call so the inserts and pauses commit or roll back together
+      await applyHabitTemplate(
+        selected.map((draft) => ({
+          title: draft.title,
+          description: draft.description,
+          category: draft.category,
+          frequency: draft.frequency,
+          target_count: draft.target_count,
+          ...toScheduleFields(draft),
+          difficulty: draft.difficulty,
+          icon: draft.icon,
+          color: getCategoryColor(draft.category),
+        })),
+        toPause.map((draft) => draft.conflict!.id)
+      );
+
+      toast.success(`${template.name} template applied! ${selected.length} habits created 🎉`);
+      invalidateHabits(user.id);
+      onClose();
+    } catch (error) {
+      toast.error('Error applying template, no changes were made: ' + (error as Error).message);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const renderCustomize = () => (
+    <div className="space-y-3">
+      {drafts.map((draft, index) => (
+        <div
+          key={index}
+          className={`p-4 rounded-lg border ${
+            draft.enabled ? 'border-purple-200 bg-white' : 'border-gray-200 bg-gray-50'
+          }`}
+        >
+          <label className="flex items-center space-x-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.enabled}
+              onChange={(e) => updateDraft(index, { enabled: e.target.checked })}
+              className="rounded text-purple-600 focus:ring-purple-500"
+            />
+            <span className="text-lg">{draft.icon}</span>
+            <div className="flex-1">
+              <div className={`font-medium text-sm ${draft.enabled ? 'text-gray-900' : 'text-gray-500'}`}>
+                {draft.title}
+              </div>
+              <div className="text-xs text-gray-500">{draft.description}</div>
+            </div>
+          </label>
+
+          {draft.conflict && (
+            <div className="mt-3 ml-7 p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm">
+              <div className="flex items-center space-x-2 text-orange-700">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                <span>You already track "{draft.conflict.title}".</span>
+              </div>
+              {draft.enabled && (
+                <label className="flex items-center space-x-2 mt-2 text-orange-800 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={draft.pauseConflict}
+                    onChange={(e) => updateDraft(index, { pauseConflict: e.target.checked })}
+                    className="rounded text-orange-600 focus:ring-orange-500"
+                  />
+                  <span>Pause my existing habit and use this one instead</span>
+                </label>
+              )}
+            </div>
+          )}
+
+          {draft.enabled && (
+            <div className="mt-3 ml-7 space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Frequency</label>
+                  <select
+                    value={draft.frequency}
+                    onChange={(e) => updateDraft(index, { frequency: e.target.value as HabitFrequency })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    {FREQUENCY_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Target Count</label>
+                  <input
+                    type="number"
+                    value={draft.target_count}
+                    onChange={(e) => updateDraft(index, { target_count: Math.max(1, Number(e.target.value)) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    min={1}
+                  />
+                </div>
+              </div>
+
+              {draft.frequency === 'weekdays' && (
+                <div className="grid grid-cols-7 gap-1">
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <button
+                      key={label}
+                      type="button"
+                      onClick={() => updateDraft(index, {
+                        scheduleDays: draft.scheduleDays.includes(day)
+                          ? draft.scheduleDays.filter((d) => d !== day)
+                          : [...draft.scheduleDays, day].sort(),
+                      })}
+                      className={`py-1 rounded-md border text-xs font-medium ${
+                        draft.scheduleDays.includes(day)
+                          ? 'border-purple-500 bg-purple-50 text-purple-700'
+                          : 'border-gray-200 text-gray-600'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {(draft.frequency === 'times_per_week' || draft.frequency === 'every_n_days') && (
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    {draft.frequency === 'times_per_week' ? 'Times Per Week' : 'Repeat Every (days)'}
+                  </label>
+                  <input
+                    type="number"
+                    value={draft.scheduleInterval}
+                    onChange={(e) => updateDraft(index, { scheduleInterval: Math.max(1, Number(e.target.value)) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    min={1}
+                    max={draft.frequency === 'times_per_week' ? 7 : undefined}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderReview = () => (
+    <div className="space-y-6">
+      <div>
+        <h3 className="font-semibold text-gray-900 mb-3">
+          Habits to create ({selected.length})
+        </h3>
+        <div className="space-y-2">
+          {selected.map((draft, index) => (
+            <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+              <div className="flex items-center space-x-3">
+                <span className="text-lg">{draft.icon}</span>
+                <span className="text-sm font-medium text-gray-900">{draft.title}</span>
+              </div>
+              <span className="text-xs text-gray-500">
+                {describeSchedule({ frequency: draft.frequency, ...toScheduleFields(draft) })}
+                {draft.target_count > 1 && ` · ${draft.target_count}×`}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {toPause.length > 0 && (
+        <div>
+          <h3 className="font-semibold text-gray-900 mb-3">
+            Habits to pause ({toPause.length})
+          </h3>
+          <div className="space-y-2">
+            {toPause.map((draft) => (
+              <div key={draft.conflict!.id} className="flex items-center space-x-3 p-3 bg-orange-50 rounded-lg">
+                <Pause className="w-4 h-4 text-orange-600" />
+                <span className="text-lg">{draft.conflict!.icon}</span>
+                <span className="text-sm text-gray-900">{draft.conflict!.title}</span>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Paused habits keep their history and can be reactivated later.
+          </p>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-600">
+        Everything is applied together. If any habit can't be created, nothing changes.
+      </p>
+    </div>
+  );
+
+  return (
+    <AnimatePresence>
+      {template && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+          >
+            <div className="p-6 border-b border-gray-200">
+              <div className="flex justify-between items-center">
+                <div>
+                  <h2 className="text-2xl font-bold text-gray-900">{template.name}</h2>
+                  <p className="text-sm text-gray-500">
+                    Step {step === 'customize' ? 1 : 2} of 2 · {step === 'customize' ? 'Choose and customize habits' : 'Review and apply'}
+                  </p>
+                </div>
+                <motion.button
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                  onClick={onClose}
+                  className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+                >
+                  <X className="w-5 h-5" />
+                </motion.button>
+              </div>
+            </div>
+
+            <div className="p-6">
+              {step === 'customize' ? renderCustomize() : renderReview()}
+            </div>
+
+            <div className="p-6 border-t border-gray-200 flex space-x-4">
+              {step === 'customize' ? (
+                <>
+                  <motion.button
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={onClose}
+                    className="flex-1 px-6 py-3 border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50"
+                  >
+                    Cancel
+                  </motion.button>
+                  <motion.button
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={goToReview}
+                    disabled={selected.length === 0}
+                    className="flex-1 px-6 py-3 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-lg font-semibold disabled:opacity-50 flex items-center justify-center space-x-2"
+                  >
+                    <span>Review ({selected.length})</span>
+                    <ArrowRight className="w-4 h-4" />
+                  </motion.button>
+                </>
+              ) : (
+                <>
+                  <motion.button
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={() => setStep('customize')}
+                    disabled={applying}
+                    className="flex-1 px-6 py-3 border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 flex items-center justify-center space-x-2"
+                  >
+                    <ArrowLeft className="w-4 h-4" />
+                    <span>Back</span>
+                  </motion.button>
+                  <motion.button
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={applyTemplate}
+                    disabled={applying}
+                    className="flex-1 px-6 py-3 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-lg font-semibold disabled:opacity-50 flex items-center justify-center space-x-2"
+                  >
+                    <Check className="w-4 h-4" />
+                    <span>{applying ? 'Applying...' : 'Apply Template'}</span>
+                  </motion.button>
+                </>
+              )}
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ApplyTemplateWizard;
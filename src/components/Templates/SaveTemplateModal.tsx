@@ -0,0 +1,238 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useAuth } from '../../contexts/AuthContext';
+import { X, Globe, Lock } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { habitToTemplateHabit, TEMPLATE_COLORS } from '../../lib/templates';
+import { TEMPLATE_ICONS } from './templateIcons';
+import { Habit, listActiveHabits } from '../../lib/repositories/habits';
+import { createTemplate } from '../../lib/repositories/templates';
+
+interface SaveTemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({ isOpen, onClose, onSuccess }) => {
+  const { user } = useAuth();
+  const [habits, setHabits] = useState<Habit[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [formData, setFormData] = useState({
+    name: '',
+    description: '',
+    icon: 'target',
+    color: TEMPLATE_COLORS[0],
+    is_public: false,
+  });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData({ name: '', description: '', icon: 'target', color: TEMPLATE_COLORS[0], is_public: false });
+      fetchHabits();
+    }
+  }, [isOpen]);
+
+  const fetchHabits = async () => {
+    if (!user) return;
+
+    try {
+      const data = await listActiveHabits(user.id, 'oldest');
+      setHabits(data);
+      setSelectedIds(new Set(data.map((habit) => habit.id)));
+    } catch (error) {
+      toast.error('Error fetching habits: ' + (error as Error).message);
+    }
+  };
+
+  const toggleHabit = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (selectedIds.size === 0) {
+      toast.error('Select at least one habit');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await createTemplate({
+        creator_id: user.id,
+        name: formData.name.trim(),
+        description: formData.description.trim(),
+        icon: formData.icon,
+        color: formData.color,
+        is_public: formData.is_public,
+        habits: habits.filter((habit) => selectedIds.has(habit.id)).map(habitToTemplateHabit),
+      });
+      toast.success(formData.is_public ? 'Template published! 🌍' : 'Template saved!');
+      onSuccess();
+      onClose();
+    } catch (error) {
+      toast.error('Error saving template: ' + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto"
+          >
+            <div className="p-6 border-b border-gray-200">
+              <div className="flex justify-between items-center">
+                <h2 className="text-2xl font-bold text-gray-900">Save as Template</h2>
+                <motion.button
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                  onClick={onClose}
+                  className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+                >
+                  <X className="w-5 h-5" />
+                </motion.button>
+              </div>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Template Name</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  placeholder="e.g., Finals Week Routine"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                <textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  rows={2}
+                  placeholder="Who is this routine for?"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Icon</label>
+                  <div className="flex flex-wrap gap-2">
+                    {Object.entries(TEMPLATE_ICONS).map(([name, Icon]) => (
+                      <button
+                        key={name}
+                        type="button"
+                        onClick={() => setFormData({ ...formData, icon: name })}
+                        className={`p-2 rounded-lg border ${
+                          formData.icon === name ? 'border-purple-500 bg-purple-50 text-purple-700' : 'border-gray-200 text-gray-500'
+                        }`}
+                      >
+                        <Icon className="w-4 h-4" />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Color</label>
+                  <div className="flex flex-wrap gap-2">
+                    {TEMPLATE_COLORS.map((color) => (
+                      <button
+                        key={color}
+                        type="button"
+                        onClick={() => setFormData({ ...formData, color })}
+                        className={`w-8 h-8 rounded-lg bg-gradient-to-r ${color} ${
+                          formData.color === color ? 'ring-2 ring-offset-2 ring-gray-400' : ''
+                        }`}
+                      />
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Habits ({selectedIds.size} of {habits.length})
+                </label>
+                {habits.length === 0 ? (
+                  <p className="text-sm text-gray-500">You have no active habits to save.</p>
+                ) : (
+                  <div className="space-y-2 max-h-56 overflow-y-auto">
+                    {habits.map((habit) => (
+                      <label
+                        key={habit.id}
+                        className="flex items-center space-x-3 p-3 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(habit.id)}
+                          onChange={() => toggleHabit(habit.id)}
+                          className="rounded text-purple-600 focus:ring-purple-500"
+                        />
+                        <span className="text-lg">{habit.icon}</span>
+                        <span className="text-sm text-gray-900">{habit.title}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <label className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.is_public}
+                  onChange={(e) => setFormData({ ...formData, is_public: e.target.checked })}
+                  className="rounded text-purple-600 focus:ring-purple-500"
+                />
+                {formData.is_public ? <Globe className="w-4 h-4 text-purple-600" /> : <Lock className="w-4 h-4 text-gray-500" />}
+                <span className="text-sm text-gray-700">Publish to the community</span>
+              </label>
+
+              <div className="flex space-x-4 pt-2">
+                <motion.button
+                  type="button"
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={onClose}
+                  className="flex-1 px-6 py-3 border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50"
+                >
+                  Cancel
+                </motion.button>
+                <motion.button
+                  type="submit"
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  disabled={saving || selectedIds.size === 0}
+                  className="flex-1 px-6 py-3 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-lg font-semibold disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save Template'}
+                </motion.button>
+              </div>
+            </form>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default SaveTemplateModal;
@@ -1,238 +1,89 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { useAuth } from '../../contexts/AuthContext';
-import { supabase } from '../../lib/supabase';
-import { BookOpen, Code, Dumbbell, Brain, Coffee, Target, Plus } from 'lucide-react';
+import { Plus, Search, Star, Save, Globe, Lock, Trash2 } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { describeSchedule } from '../../lib/schedules';
+import { getTemplateRating, HabitTemplate } from '../../lib/templates';
+import { getTemplateIcon } from './templateIcons';
+import SaveTemplateModal from './SaveTemplateModal';
+import ApplyTemplateWizard from './ApplyTemplateWizard';
+import {
+  deleteTemplate as removeTemplate,
+  getMyTemplateRatings,
+  listTemplates,
+  rateTemplate as saveRating,
+  setTemplatePublished,
+  TemplateScope,
+} from '../../lib/repositories/templates';
 
-interface Template {
-  id: string;
-  name: string;
-  description: string;
-  icon: any;
-  color: string;
-  habits: {
-    title: string;
-    description: string;
-    category: string;
-    frequency: 'daily' | 'weekly';
-    difficulty: 'easy' | 'medium' | 'hard';
-    icon: string;
-  }[];
-}
+const tabs: { value: TemplateScope; label: string }[] = [
+  { value: 'builtin', label: 'Built-in' },
+  { value: 'community', label: 'Community' },
+  { value: 'mine', label: 'My Templates' },
+];
 
 const Templates: React.FC = () => {
   const { user } = useAuth();
-  const [loading, setLoading] = useState(false);
+  const [templates, setTemplates] = useState<HabitTemplate[]>([]);
+  const [myRatings, setMyRatings] = useState<Record<string, number>>({});
+  const [tab, setTab] = useState<TemplateScope>('builtin');
+  const [search, setSearch] = useState('');
+  const [fetching, setFetching] = useState(true);
+  const [wizardTemplate, setWizardTemplate] = useState<HabitTemplate | null>(null);
+  const [showSaveModal, setShowSaveModal] = useState(false);
 
-  const templates: Template[] = [
-    {
-      id: 'exam-prep',
-      name: 'Exam Preparation',
-      description: 'Structured study routine for upcoming exams',
-      icon: BookOpen,
-      color: 'from-blue-500 to-indigo-600',
-      habits: [
-        {
-          title: 'Morning Study Session',
-          description: 'Focused study for 2 hours in the morning',
-          category: 'Study',
-          frequency: 'daily',
-          difficulty: 'medium',
-          icon: '📚',
-        },
-        {
-          title: 'Practice Problems',
-          description: 'Solve practice questions for 1 hour',
-          category: 'Study',
-          frequency: 'daily',
-          difficulty: 'medium',
-          icon: '✏️',
-        },
-        {
-          title: 'Review Notes',
-          description: 'Review and summarize daily learnings',
-          category: 'Study',
-          frequency: 'daily',
-          difficulty: 'easy',
-          icon: '📝',
-        },
-        {
-          title: 'Mock Test',
-          description: 'Take a full-length practice exam',
-          category: 'Study',
-          frequency: 'weekly',
-          difficulty: 'hard',
-          icon: '🎯',
-        },
-      ],
-    },
-    {
-      id: 'coding-sprint',
-      name: 'Coding Sprint',
-      description: 'Intensive coding practice for skill development',
-      icon: Code,
-      color: 'from-green-500 to-emerald-600',
-      habits: [
-        {
-          title: 'Daily Coding Challenge',
-          description: 'Solve 2-3 algorithmic problems',
-          category: 'Coding',
-          frequency: 'daily',
-          difficulty: 'medium',
-          icon: '💻',
-        },
-        {
-          title: 'Project Development',
-          description: 'Work on personal project for 1 hour',
-          category: 'Coding',
-          frequency: 'daily',
-          difficulty: 'medium',
-          icon: '🚀',
-        },
-        {
-          title: 'Code Review',
-          description: 'Review and refactor existing code',
-          category: 'Coding',
-          frequency: 'daily',
-          difficulty: 'easy',
-          icon: '🔍',
-        },
-        {
-          title: 'Learn New Technology',
-          description: 'Study new frameworks or tools',
-          category: 'Study',
-          frequency: 'weekly',
-          difficulty: 'hard',
-          icon: '🌟',
-        },
-      ],
-    },
-    {
-      id: 'balanced-student',
-      name: 'Balanced Student Life',
-      description: 'Maintain health, studies, and personal growth',
-      icon: Target,
-      color: 'from-purple-500 to-pink-600',
-      habits: [
-        {
-          title: 'Morning Exercise',
-          description: '30 minutes of physical activity',
-          category: 'Fitness',
-          frequency: 'daily',
-          difficulty: 'medium',
-          icon: '🏃',
-        },
-        {
-          title: 'Study Session',
-          description: 'Focused academic work for 2 hours',
-          category: 'Study',
-          frequency: 'daily',
-          difficulty: 'medium',
-          icon: '📖',
-        },
-        {
-          title: 'Meditation',
-          description: '10 minutes of mindfulness practice',
-          category: 'Mindfulness',
-          frequency: 'daily',
-          difficulty: 'easy',
-          icon: '🧘',
-        },
-        {
-          title: 'Social Connection',
-          description: 'Spend quality time with friends or family',
-          category: 'General',
-          frequency: 'weekly',
-          difficulty: 'easy',
-          icon: '👥',
-        },
-      ],
-    },
-    {
-      id: 'productivity-boost',
-      name: 'Productivity Boost',
-      description: 'Maximize daily productivity and focus',
-      icon: Coffee,
-      color: 'from-orange-500 to-red-600',
-      habits: [
-        {
-          title: 'Morning Routine',
-          description: 'Consistent wake-up and preparation routine',
-          category: 'General',
-          frequency: 'daily',
-          difficulty: 'easy',
-          icon: '🌅',
-        },
-        {
-          title: 'Deep Work Block',
-          description: '2-hour focused work session without distractions',
-          category: 'Study',
-          frequency: 'daily',
-          difficulty: 'hard',
-          icon: '🎯',
-        },
-        {
-          title: 'Task Planning',
-          description: 'Plan tomorrow\'s tasks and priorities',
-          category: 'General',
-          frequency: 'daily',
-          difficulty: 'easy',
-          icon: '📋',
-        },
-        {
-          title: 'Weekly Review',
-          description: 'Reflect on progress and plan improvements',
-          category: 'General',
-          frequency: 'weekly',
-          difficulty: 'medium',
-          icon: '📊',
-        },
-      ],
-    },
-  ];
+  useEffect(() => {
+    // Debounced so typing in the search box doesn't query on every key
+    const timer = setTimeout(fetchTemplates, 250);
+    return () => clearTimeout(timer);
+  }, [user, tab, search]);
 
-  const applyTemplate = async (template: Template) => {
+  const fetchTemplates = async () => {
     if (!user) return;
 
-    setLoading(true);
+    setFetching(true);
     try {
-      const habitsToCreate = template.habits.map(habit => ({
-        user_id: user.id,
-        title: habit.title,
-        description: habit.description,
-        category: habit.category,
-        frequency: habit.frequency,
-        target_count: 1,
-        difficulty: habit.difficulty,
-        icon: habit.icon,
-        color: getCategoryColor(habit.category),
-      }));
+      const data = await listTemplates(user.id, tab, search);
+      setTemplates(data);
+      setMyRatings(await getMyTemplateRatings(user.id, data.map((template) => template.id)));
+    } catch (error) {
+      toast.error('Error fetching templates: ' + (error as Error).message);
+    } finally {
+      setFetching(false);
+    }
+  };
 
-      const { error } = await supabase
-        .from('habits')
-        .insert(habitsToCreate);
+  const rateTemplate = async (template: HabitTemplate, rating: number) => {
+    if (!user) return;
 
-      if (error) throw error;
-      
-      toast.success(`${template.name} template applied! ${template.habits.length} habits created 🎉`);
-    } catch (error: any) {
-      toast.error('Error applying template: ' + error.message);
-    } finally {
-      setLoading(false);
+    try {
+      await saveRating(template.id, user.id, rating);
+      toast.success('Thanks for rating!');
+      fetchTemplates();
+    } catch (error) {
+      toast.error('Error rating template: ' + (error as Error).message);
     }
   };
 
-  const getCategoryColor = (category: string) => {
-    const colors: { [key: string]: string } = {
-      'Health': 'bg-red-500',
-      'Study': 'bg-blue-500',
-      'Coding': 'bg-green-500',
-      'Fitness': 'bg-orange-500',
-      'Mindfulness': 'bg-purple-500',
-      'General': 'bg-gray-500',
-    };
-    return colors[category] || 'bg-gray-500';
+  const togglePublished = async (template: HabitTemplate) => {
+    try {
+      await setTemplatePublished(template.id, !template.is_public);
+      toast.success(template.is_public ? 'Template is now private' : 'Template published! 🌍');
+      fetchTemplates();
+    } catch (error) {
+      toast.error('Error updating template: ' + (error as Error).message);
+    }
+  };
+
+  const deleteTemplate = async (template: HabitTemplate) => {
+    try {
+      await removeTemplate(template.id);
+      toast.success('Template deleted');
+      fetchTemplates();
+    } catch (error) {
+      toast.error('Error deleting template: ' + (error as Error).message);
+    }
   };
 
   const getDifficultyColor = (difficulty: string) => {
@@ -244,6 +95,37 @@ const Templates: React.FC = () => {
     }
   };
 
+  const renderRating = (template: HabitTemplate) => {
+    const average = getTemplateRating(template);
+    const isOwn = template.creator_id === user?.id;
+    const mine = myRatings[template.id];
+
+    return (
+      <div className="flex items-center space-x-2">
+        <div className="flex">
+          {[1, 2, 3, 4, 5].map((value) => (
+            <button
+              key={value}
+              onClick={() => rateTemplate(template, value)}
+              disabled={isOwn}
+              title={isOwn ? "You can't rate your own template" : `Rate ${value} star${value === 1 ? '' : 's'}`}
+              className="p-0.5 disabled:cursor-default"
+            >
+              <Star
+                className={`w-4 h-4 ${
+                  value <= (mine ?? Math.round(average ?? 0)) ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'
+                }`}
+              />
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-gray-500">
+          {average === null ? 'No ratings yet' : `${average.toFixed(1)} (${template.rating_count})`}
+        </span>
+      </div>
+    );
+  };
+
   return (
     <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <motion.div
@@ -255,9 +137,57 @@ const Templates: React.FC = () => {
         <p className="text-gray-600">Quick-start your habit journey with proven routines</p>
       </motion.div>
 
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-8">
+        <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
+          {tabs.map((t) => (
+            <button
+              key={t.value}
+              onClick={() => setTab(t.value)}
+              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                tab === t.value ? 'bg-white text-purple-700 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="relative flex-1 md:w-64">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search templates..."
+              className="w-full pl-9 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+          </div>
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={() => setShowSaveModal(true)}
+            className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-lg font-semibold whitespace-nowrap"
+          >
+            <Save className="w-4 h-4" />
+            <span>Save My Habits</span>
+          </motion.button>
+        </div>
+      </div>
+
+      {!fetching && templates.length === 0 && (
+        <div className="text-center py-12 text-gray-500">
+          {search
+            ? 'No templates match your search.'
+            : tab === 'mine'
+              ? 'You haven\'t saved any templates yet. Save your current habits to reuse or share them.'
+              : 'No templates here yet.'}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {templates.map((template, index) => {
-          const Icon = template.icon;
+          const Icon = getTemplateIcon(template.icon);
+          const isOwn = template.creator_id === user?.id;
           return (
             <motion.div
               key={template.id}
@@ -267,17 +197,28 @@ const Templates: React.FC = () => {
               className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden"
             >
               <div className={`bg-gradient-to-r ${template.color} p-6 text-white`}>
-                <div className="flex items-center space-x-3 mb-3">
-                  <Icon className="w-8 h-8" />
-                  <h3 className="text-xl font-bold">{template.name}</h3>
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center space-x-3">
+                    <Icon className="w-8 h-8" />
+                    <h3 className="text-xl font-bold">{template.name}</h3>
+                  </div>
+                  {isOwn && (
+                    <span className="flex items-center space-x-1 text-xs bg-white/20 px-2 py-1 rounded-full">
+                      {template.is_public ? <Globe className="w-3 h-3" /> : <Lock className="w-3 h-3" />}
+                      <span>{template.is_public ? 'Published' : 'Private'}</span>
+                    </span>
+                  )}
                 </div>
                 <p className="text-white/90">{template.description}</p>
               </div>
 
               <div className="p-6">
-                <h4 className="font-semibold text-gray-900 mb-4">
-                  Included Habits ({template.habits.length})
-                </h4>
+                <div className="flex items-center justify-between mb-4">
+                  <h4 className="font-semibold text-gray-900">
+                    Included Habits ({template.habits.length})
+                  </h4>
+                  {(template.is_builtin || template.is_public) && renderRating(template)}
+                </div>
                 <div className="space-y-3 mb-6">
                   {template.habits.map((habit, habitIndex) => (
                     <div key={habitIndex} className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg">
@@ -290,7 +231,11 @@ const Templates: React.FC = () => {
                               {habit.difficulty}
                             </span>
                             <span className="text-xs text-gray-500 bg-white px-2 py-1 rounded-full">
-                              {habit.frequency}
+                              {describeSchedule({
+                                frequency: habit.frequency,
+                                schedule_days: habit.schedule_days ?? null,
+                                schedule_interval: habit.schedule_interval ?? null,
+                              })}
                             </span>
                           </div>
                         </div>
@@ -300,23 +245,60 @@ const Templates: React.FC = () => {
                   ))}
                 </div>
 
-                <motion.button
-                  whileHover={{ scale: 1.02 }}
-                  whileTap={{ scale: 0.98 }}
-                  onClick={() => applyTemplate(template)}
-                  disabled={loading}
-                  className={`w-full py-3 bg-gradient-to-r ${template.color} text-white rounded-lg font-semibold disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2`}
-                >
-                  <Plus className="w-4 h-4" />
-                  <span>{loading ? 'Applying...' : 'Apply Template'}</span>
-                </motion.button>
+                <div className="flex space-x-2">
+                  <motion.button
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={() => setWizardTemplate(template)}
+                    className={`flex-1 py-3 bg-gradient-to-r ${template.color} text-white rounded-lg font-semibold flex items-center justify-center space-x-2`}
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Apply Template</span>
+                  </motion.button>
+                  {isOwn && (
+                    <>
+                      <motion.button
+                        whileHover={{ scale: 1.05 }}
+                        whileTap={{ scale: 0.95 }}
+                        onClick={() => togglePublished(template)}
+                        title={template.is_public ? 'Make private' : 'Publish to the community'}
+                        className="px-4 border border-gray-300 text-gray-600 rounded-lg hover:bg-gray-50"
+                      >
+                        {template.is_public ? <Lock className="w-4 h-4" /> : <Globe className="w-4 h-4" />}
+                      </motion.button>
+                      <motion.button
+                        whileHover={{ scale: 1.05 }}
+                        whileTap={{ scale: 0.95 }}
+                        onClick={() => deleteTemplate(template)}
+                        title="Delete template"
+                        className="px-4 border border-gray-300 text-red-500 rounded-lg hover:bg-red-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </motion.button>
+                    </>
+                  )}
+                </div>
               </div>
             </motion.div>
           );
         })}
       </div>
+
+      <ApplyTemplateWizard
+        template={wizardTemplate}
+        onClose={() => setWizardTemplate(null)}
+      />
+
+      <SaveTemplateModal
+        isOpen={showSaveModal}
+        onClose={() => setShowSaveModal(false)}
+        onSuccess={() => {
+          setTab('mine');
+          fetchTemplates();
+        }}
+      />
     </div>
   );
 };
 
-export default Templates;
\ No newline at end of file
+export default Templates;
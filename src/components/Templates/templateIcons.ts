@@ -0,0 +1,15 @@
+import { BookOpen, Code, Dumbbell, Brain, Coffee, Target, Heart, Moon, type LucideIcon } from 'lucide-react';
+
+// Templates store an icon name; these are the ones that can be picked
+export const TEMPLATE_ICONS: Record<string, LucideIcon> = {
+  'book-open': BookOpen,
+  code: Code,
+  target: Target,
+  coffee: Coffee,
+  dumbbell: Dumbbell,
+  brain: Brain,
+  heart: Heart,
+  moon: Moon,
+};
+
+export const getTemplateIcon = (name: string) => TEMPLATE_ICONS[name] || Target;
@@ -1,15 +1,21 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { getBrowserTimeZone, isValidTimeZone } from '../lib/localDay';
+import { getProfile, Profile, ProfileUpdate, updateProfile as saveProfile } from '../lib/repositories/profiles';
+import { clearQueryCache } from '../lib/queryCache';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  profile: Profile | null;
+  timeZone: string;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<any>;
   signUp: (email: string, password: string, userData: any) => Promise<any>;
   signOut: () => Promise<void>;
   resendVerificationEmail: (email: string) => Promise<any>;
+  updateProfile: (updates: ProfileUpdate) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -25,6 +31,7 @@ export const useAuth = () => {
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -47,6 +54,23 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return () => subscription.unsubscribe();
   }, []);
 
+  useEffect(() => {
+    if (!user) {
+      setProfile(null);
+      return;
+    }
+
+    getProfile(user.id)
+      .then(setProfile)
+      .catch((error) => console.error('Error fetching profile:', error));
+  }, [user]);
+
+  const updateProfile = async (updates: ProfileUpdate) => {
+    if (!user) return;
+
+    setProfile(await saveProfile(user.id, updates));
+  };
+
   const signIn = async (email: string, password: string) => {
     const result = await supabase.auth.signInWithPassword({ email, password });
     return result;
@@ -71,6 +95,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const signOut = async () => {
     await supabase.auth.signOut();
+    clearQueryCache();
   };
 
   const resendVerificationEmail = async (email: string) => {
@@ -83,11 +108,16 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const value = {
     user,
     session,
+    profile,
+    timeZone: profile?.timezone && isValidTimeZone(profile.timezone)
+      ? profile.timezone
+      : getBrowserTimeZone(),
     loading,
     signIn,
     signUp,
     signOut,
     resendVerificationEmail,
+    updateProfile,
   };
 
   return (
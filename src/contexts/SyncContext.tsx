@@ -0,0 +1,96 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { useAuth } from './AuthContext';
+import { flushOutbox, subscribeOutbox } from '../lib/offline/outbox';
+import { invalidateQueries } from '../lib/queryCache';
+
+interface SyncContextType {
+  online: boolean;
+  /** Writes waiting in the outbox */
+  pending: number;
+  syncing: boolean;
+  syncNow: () => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+// Retry interval while writes are pending, in case the `online` event is missed
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+export const useSync = () => {
+  const context = useContext(SyncContext);
+  if (!context) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+};
+
+export const SyncProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, session } = useAuth();
+  const [online, setOnline] = useState(navigator.onLine);
+  const [pending, setPending] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+
+  const userId = user?.id;
+  const accessToken = session?.access_token;
+
+  useEffect(() => {
+    if (!userId) {
+      setPending(0);
+      return;
+    }
+    return subscribeOutbox(userId, setPending);
+  }, [userId]);
+
+  useEffect(() => {
+    const goOnline = () => setOnline(true);
+    const goOffline = () => setOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    if (!user || !navigator.onLine) return;
+
+    setSyncing(true);
+    try {
+      const discarded = await flushOutbox(user.id);
+      discarded.forEach(({ label, reason }) => {
+        toast.error(`${label} wasn't synced: ${reason}`);
+      });
+      // Replace the optimistic copies with what the server now has
+      invalidateQueries([]);
+    } catch (error) {
+      console.error('Error syncing offline changes:', error);
+    } finally {
+      setSyncing(false);
+    }
+  }, [user]);
+
+  const hasPending = pending > 0;
+
+  // Also retries when the session is renewed, after writes failed with an expired one
+  useEffect(() => {
+    if (!online || !hasPending) return;
+    syncNow();
+    const timer = setInterval(syncNow, RETRY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [online, hasPending, syncNow, accessToken]);
+
+  const value = {
+    online,
+    pending,
+    syncing,
+    syncNow,
+  };
+
+  return (
+    <SyncContext.Provider value={value}>
+      {children}
+    </SyncContext.Provider>
+  );
+};
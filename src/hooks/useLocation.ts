@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from 'react';
+import { getLocation, subscribeLocation } from '../lib/router';
+
+/** The current path and query string; re-renders on navigation */
+export const useLocation = () => {
+  const location = useSyncExternalStore(subscribeLocation, getLocation);
+  const queryStart = location.indexOf('?');
+
+  return queryStart === -1
+    ? { pathname: location, search: '' }
+    : { pathname: location.slice(0, queryStart), search: location.slice(queryStart) };
+};
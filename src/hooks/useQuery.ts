@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import {
+  DEFAULT_STALE_TIME_MS,
+  fetchQuery,
+  getQueryState,
+  isQueryStale,
+  QueryKey,
+  QueryState,
+  subscribeQuery,
+} from '../lib/queryCache';
+
+interface UseQueryOptions {
+  /** How long fetched data is served without refetching */
+  staleTime?: number;
+}
+
+interface UseQueryResult<T> extends QueryState<T> {
+  /** True until the first data arrives; cached data skips it */
+  loading: boolean;
+  refetch: () => Promise<T | undefined>;
+}
+
+const EMPTY_KEY: QueryKey = [];
+
+/**
+ * Reads `key` from the shared query cache, fetching it with `fetcher` when
+ * missing or stale. Cached data is returned immediately, even while it
+ * revalidates. Pass a null key to skip, e.g. before the user is known.
+ */
+export const useQuery = <T>(
+  key: QueryKey | null,
+  fetcher: () => Promise<T>,
+  { staleTime = DEFAULT_STALE_TIME_MS }: UseQueryOptions = {}
+): UseQueryResult<T> => {
+  // Keys are usually built inline, so they're compared by value
+  const hash = key ? JSON.stringify(key) : null;
+  const stableKey = useMemo(() => (hash ? (JSON.parse(hash) as QueryKey) : null), [hash]);
+
+  // The latest fetcher closes over the latest props
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const subscribe = useCallback(
+    (listener: () => void) => (stableKey ? subscribeQuery(stableKey, listener) : () => {}),
+    [stableKey]
+  );
+  const state = useSyncExternalStore(subscribe, () => getQueryState<T>(stableKey ?? EMPTY_KEY));
+
+  const refetch = useCallback(
+    () => (stableKey
+      ? fetchQuery(stableKey, () => fetcherRef.current()).catch(() => undefined)
+      : Promise.resolve(undefined)),
+    [stableKey]
+  );
+
+  useEffect(() => {
+    if (stableKey && isQueryStale(stableKey, staleTime)) refetch();
+  }, [stableKey, staleTime, refetch]);
+
+  return {
+    ...state,
+    loading: stableKey !== null && state.data === undefined && state.error === null,
+    refetch,
+  };
+};
@@ -0,0 +1,15 @@
+import { addDaysToDay, localToday, startOfLocalDay } from './localDay';
+
+/**
+ * Completions logged for a day this many local days ago or earlier are
+ * flagged by the database (see `flag_completion_backfill()`); the client
+ * uses the same rule to warn before saving one.
+ */
+export const BACKFILL_WINDOW_DAYS = Number(import.meta.env.VITE_BACKFILL_WINDOW_DAYS) || 2;
+
+export const isBeyondBackfillWindow = (day: string, timeZone: string) =>
+  day <= addDaysToDay(localToday(timeZone), -BACKFILL_WINDOW_DAYS);
+
+// Backfilled check-ins are stamped at local noon so they sit well inside the day
+export const backfillTimestamp = (day: string, timeZone: string) =>
+  new Date(startOfLocalDay(day, timeZone).getTime() + 12 * 60 * 60 * 1000).toISOString();
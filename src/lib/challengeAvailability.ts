@@ -0,0 +1,37 @@
+import type { Challenge, ChallengeAvailability } from './repositories/challenges';
+
+/**
+ * What the signed-in user can do with a challenge. The server enforces the
+ * same rules when joining; this only picks the button to show.
+ */
+export type JoinState = 'joined' | 'waitlisted' | 'requested' | 'ended' | 'full' | 'open';
+
+export const getJoinState = (
+  challenge: Pick<Challenge, 'end_date' | 'is_active'>,
+  availability: ChallengeAvailability | null | undefined,
+  joined: boolean,
+  today: string
+): JoinState => {
+  if (!challenge.is_active) return 'ended';
+  if (joined) return 'joined';
+  if (availability?.waitlist_position) return 'waitlisted';
+  if (availability?.request_pending) return 'requested';
+  if (today > challenge.end_date) return 'ended';
+  if (availability?.spots_left === 0) return 'full';
+  return 'open';
+};
+
+export const VISIBILITY_OPTIONS: { value: Challenge['visibility']; label: string; description: string }[] = [
+  { value: 'public', label: 'Public', description: 'Listed for everyone' },
+  { value: 'private', label: 'Private', description: 'Invite code or link only' },
+];
+
+/** e.g. "3 spots left", "Full · 2 waiting" or "12 joined" */
+export const describeSpots = (availability: ChallengeAvailability | null | undefined) => {
+  if (!availability) return '';
+  if (availability.spots_left === null) return `${availability.participants} joined`;
+  if (availability.spots_left === 0) {
+    return availability.waitlisted > 0 ? `Full · ${availability.waitlisted} waiting` : 'Full';
+  }
+  return `${availability.spots_left} ${availability.spots_left === 1 ? 'spot' : 'spots'} left`;
+};
@@ -0,0 +1,35 @@
+import type { Database } from './supabase';
+
+export type ScoringMode = Database['public']['Tables']['challenges']['Row']['scoring_mode'];
+
+// Mirrors the scoring modes of `challenge_standings` on the server
+export const SCORING_MODE_OPTIONS: { value: ScoringMode; label: string; description: string }[] = [
+  { value: 'completions', label: 'Completions', description: 'Most days (or weeks) that meet the challenge rules' },
+  { value: 'streak', label: 'Streak', description: 'Longest run of consecutive completed days (or weeks) of each habit, added up' },
+  { value: 'consistency', label: 'Consistency', description: 'Highest share of days completed so far' },
+  { value: 'points', label: 'Points', description: 'Completions weighted by difficulty: easy 1, medium 2, hard 3' },
+];
+
+/** Applied in order when participants have the same score */
+export const TIE_BREAKERS = [
+  'Higher consistency',
+  'More completions',
+  'Reached their score first',
+  'Joined first',
+];
+
+export const getScoringMode = (mode: ScoringMode) =>
+  SCORING_MODE_OPTIONS.find((option) => option.value === mode) || SCORING_MODE_OPTIONS[0];
+
+export const formatScore = (mode: ScoringMode, score: number) => {
+  switch (mode) {
+    case 'consistency':
+      return `${score}%`;
+    case 'streak':
+      return `${score} in a row`;
+    case 'points':
+      return `${score} pts`;
+    default:
+      return `${score} done`;
+  }
+};
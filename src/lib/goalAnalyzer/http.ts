@@ -0,0 +1,42 @@
+import type { GoalAnalyzerProvider } from './types';
+
+interface HttpProviderOptions {
+  url: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Posts `{ goal, feedback }` to an analysis endpoint and returns its body.
+ * Used for hosted analyzers and for `scripts/goal-analyzer-stub.js` in
+ * local testing.
+ */
+export const createHttpProvider = ({ url, timeoutMs = 20000 }: HttpProviderOptions): GoalAnalyzerProvider => ({
+  name: 'http',
+  generate: async (goal, feedback) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ goal, feedback }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Goal analyzer responded with ${response.status}`);
+      }
+
+      // Leave parsing to validation so bad JSON counts as malformed output
+      return await response.text();
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        throw new Error('Goal analyzer timed out');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  },
+});
@@ -0,0 +1,56 @@
+import { createHttpProvider } from './http';
+import { ruleBasedProvider } from './ruleBased';
+import { GoalAnalyzer, GoalAnalyzerProvider, MalformedSuggestionsError } from './types';
+import { parseSuggestedHabits } from './validation';
+
+export type { GoalAnalyzer, GoalAnalyzerProvider, SuggestedHabit } from './types';
+export { MalformedSuggestionsError, SUGGESTION_CATEGORIES, SUGGESTION_DIFFICULTIES, SUGGESTION_FREQUENCIES } from './types';
+export { parseSuggestedHabits } from './validation';
+export { ruleBasedProvider, suggestHabitsByRules } from './ruleBased';
+export { createHttpProvider } from './http';
+export { createVertexProvider, buildGoalPrompt } from './vertex';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * Wraps a provider so its output is validated against `SuggestedHabit`.
+ * Malformed output is retried, telling the provider what was wrong; other
+ * errors (network, auth) are not retried.
+ */
+export const createGoalAnalyzer = (
+  provider: GoalAnalyzerProvider,
+  { maxAttempts = DEFAULT_MAX_ATTEMPTS }: { maxAttempts?: number } = {}
+): GoalAnalyzer => ({
+  name: provider.name,
+  analyzeGoal: async (goal) => {
+    let feedback: string | undefined;
+    let lastError: MalformedSuggestionsError | null = null;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        return parseSuggestedHabits(await provider.generate(goal.trim(), feedback));
+      } catch (error) {
+        if (!(error instanceof MalformedSuggestionsError)) throw error;
+        lastError = error;
+        feedback = error.problems.join('; ');
+      }
+    }
+
+    throw new Error(
+      `The ${provider.name} analyzer returned unusable suggestions after ${maxAttempts} attempts (${lastError?.problems.join('; ')})`
+    );
+  },
+});
+
+/**
+ * The analyzer selected by `VITE_GOAL_ANALYZER`: `rules` (default) works
+ * offline; `http` posts to `VITE_GOAL_ANALYZER_URL`, e.g. a service running
+ * the Vertex provider.
+ */
+export const getGoalAnalyzer = () => {
+  const url = import.meta.env.VITE_GOAL_ANALYZER_URL;
+  if (import.meta.env.VITE_GOAL_ANALYZER === 'http' && url) {
+    return createGoalAnalyzer(createHttpProvider({ url }));
+  }
+  return createGoalAnalyzer(ruleBasedProvider);
+};
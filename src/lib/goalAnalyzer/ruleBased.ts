@@ -0,0 +1,454 @@
+import type { GoalAnalyzerProvider, SuggestedHabit } from './types';
+
+type HabitIdea = Omit<SuggestedHabit, 'reasoning'> & { why: string };
+
+interface GoalRule {
+  /** Whole words, or stems when ending in `*`, matched case-insensitively */
+  keywords: string[];
+  topic: string;
+  habits: HabitIdea[];
+}
+
+const ALGORITHM_PRACTICE: HabitIdea = {
+  title: 'Daily Algorithm Practice',
+  description: 'Solve 2 coding problems on LeetCode or HackerRank',
+  category: 'Coding',
+  frequency: 'daily',
+  difficulty: 'medium',
+  icon: '💻',
+  why: 'regular problem-solving builds the algorithmic thinking technical interviews test',
+};
+
+const RULES: GoalRule[] = [
+  {
+    keywords: ['interview*', 'job', 'internship', 'intern', 'hired', 'hiring', 'offer', 'career', 'faang', 'google', 'microsoft', 'amazon', 'meta'],
+    topic: 'landing the role',
+    habits: [
+      ALGORITHM_PRACTICE,
+      {
+        title: 'Mock Interview Practice',
+        description: 'Do one timed mock interview with a peer or an online platform',
+        category: 'Study',
+        frequency: 'weekly',
+        difficulty: 'hard',
+        icon: '🎤',
+        why: 'interviewing is a skill of its own and improves with rehearsal under pressure',
+      },
+      {
+        title: 'Application Pipeline',
+        description: 'Send tailored applications and follow up on open ones',
+        category: 'General',
+        frequency: 'weekly',
+        difficulty: 'medium',
+        icon: '📨',
+        why: 'a steady flow of applications keeps opportunities coming in',
+      },
+      {
+        title: 'Resume & Portfolio Refresh',
+        description: 'Update your resume, LinkedIn and GitHub with recent work',
+        category: 'General',
+        frequency: 'monthly',
+        difficulty: 'easy',
+        icon: '📄',
+        why: 'recruiters judge you by what is visible, so keep it current',
+      },
+    ],
+  },
+  {
+    keywords: ['algorithm*', 'data structure*', 'dsa', 'leetcode', 'competitive', 'codeforces', 'problem solving'],
+    topic: 'problem solving',
+    habits: [
+      ALGORITHM_PRACTICE,
+      {
+        title: 'Concept Review',
+        description: 'Re-implement one data structure or algorithm from memory',
+        category: 'Study',
+        frequency: 'daily',
+        difficulty: 'easy',
+        icon: '📚',
+        why: 'rebuilding fundamentals from scratch makes them stick',
+      },
+      {
+        title: 'Timed Contest',
+        description: 'Take part in a weekly contest or a self-timed problem set',
+        category: 'Coding',
+        frequency: 'weekly',
+        difficulty: 'hard',
+        icon: '⏱️',
+        why: 'time pressure exposes gaps that untimed practice hides',
+      },
+    ],
+  },
+  {
+    keywords: ['project*', 'full-stack', 'full stack', 'fullstack', 'app', 'website', 'deploy', 'build', 'ship', 'portfolio', 'startup', 'side project'],
+    topic: 'shipping projects',
+    habits: [
+      {
+        title: 'Focused Build Session',
+        description: 'Spend one uninterrupted hour building features',
+        category: 'Coding',
+        frequency: 'daily',
+        difficulty: 'medium',
+        icon: '🛠️',
+        why: 'projects get finished through consistent small sessions, not occasional marathons',
+      },
+      {
+        title: 'Weekly Ship',
+        description: 'Deploy or demo something that works, however small',
+        category: 'Coding',
+        frequency: 'weekly',
+        difficulty: 'medium',
+        icon: '🚀',
+        why: 'shipping every week keeps scope honest and momentum visible',
+      },
+    ],
+  },
+  {
+    keywords: ['open source', 'open-source', 'github', 'contribut*', 'oss'],
+    topic: 'open source',
+    habits: [
+      {
+        title: 'Open Source Contribution',
+        description: 'Open a pull request, review one, or triage an issue',
+        category: 'Coding',
+        frequency: 'weekly',
+        difficulty: 'medium',
+        icon: '🌟',
+        why: 'contributions demonstrate real-world collaboration skills',
+      },
+      {
+        title: 'Explore a Codebase',
+        description: 'Read code and open issues in a project you want to contribute to',
+        category: 'Coding',
+        frequency: 'daily',
+        difficulty: 'easy',
+        icon: '🔍',
+        why: 'familiarity with a codebase is what makes a first contribution possible',
+      },
+    ],
+  },
+  {
+    keywords: ['machine learning', 'ml', 'ai', 'artificial intelligence', 'deep learning', 'data science', 'neural*', 'llm', 'kaggle'],
+    topic: 'machine learning',
+    habits: [
+      {
+        title: 'ML Course Progress',
+        description: 'Work through one lesson of a machine learning course',
+        category: 'Study',
+        frequency: 'daily',
+        difficulty: 'medium',
+        icon: '🧠',
+        why: 'the theory compounds quickly when studied a little every day',
+      },
+      {
+        title: 'Hands-on Experiment',
+        description: 'Train or fine-tune a model on a small dataset and note the results',
+        category: 'Coding',
+        frequency: 'weekly',
+        difficulty: 'hard',
+        icon: '📊',
+        why: 'applying ideas to real data is where understanding forms',
+      },
+      {
+        title: 'Paper Reading',
+        description: 'Read and summarise one paper or in-depth article',
+        category: 'Study',
+        frequency: 'weekly',
+        difficulty: 'medium',
+        icon: '📄',
+        why: 'reading primary sources keeps you current in a fast-moving field',
+      },
+    ],
+  },
+  {
+    keywords: ['system design', 'architecture', 'backend', 'scalab*', 'distributed', 'senior'],
+    topic: 'system design',
+    habits: [
+      {
+        title: 'System Design Study',
+        description: 'Read system design articles or watch talks for 30 minutes',
+        category: 'Study',
+        frequency: 'daily',
+        difficulty: 'medium',
+        icon: '🏗️',
+        why: 'understanding trade-offs at scale is expected for senior roles',
+      },
+    ],
+  },
+  {
+    keywords: ['exam*', 'test', 'gpa', 'grade', 'course*', 'class', 'semester', 'study', 'learn', 'degree', 'certif*', 'pass'],
+    topic: 'studying',
+    habits: [
+      {
+        title: 'Deep Study Block',
+        description: 'Study for 45 minutes with your phone in another room',
+        category: 'Study',
+        frequency: 'daily',
+        difficulty: 'medium',
+        icon: '📚',
+        why: 'focused blocks beat long distracted sessions',
+      },
+      {
+        title: 'Spaced Repetition Review',
+        description: 'Review flashcards of material from previous weeks',
+        category: 'Study',
+        frequency: 'daily',
+        difficulty: 'easy',
+        icon: '🗂️',
+        why: 'spaced review is the most reliable way to retain what you learn',
+      },
+      {
+        title: 'Practice Test',
+        description: 'Take a timed practice test and review every mistake',
+        category: 'Study',
+        frequency: 'weekly',
+        difficulty: 'hard',
+        icon: '📝',
+        why: 'testing yourself shows what you actually know',
+      },
+    ],
+  },
+  {
+    keywords: ['weight', 'fit', 'fitness', 'run', 'marathon', '5k', '10k', 'gym', 'muscle', 'strength', 'exercis*', 'workout*', 'lose', 'athlet*'],
+    topic: 'fitness',
+    habits: [
+      {
+        title: 'Daily Workout',
+        description: 'Complete a 30 minute workout',
+        category: 'Fitness',
+        frequency: 'daily',
+        difficulty: 'medium',
+        icon: '💪',
+        why: 'consistent training is what changes your body',
+      },
+      {
+        title: 'Long Session',
+        description: 'Do one longer run or training session to build endurance',
+        category: 'Fitness',
+        frequency: 'weekly',
+        difficulty: 'hard',
+        icon: '🏃',
+        why: 'a weekly long effort builds endurance safely',
+      },
+      {
+        title: 'Hydrate & Eat Well',
+        description: 'Drink 8 glasses of water and eat a balanced meal',
+        category: 'Health',
+        frequency: 'daily',
+        difficulty: 'easy',
+        icon: '🥗',
+        why: 'recovery and results depend on nutrition as much as training',
+      },
+    ],
+  },
+  {
+    keywords: ['sleep', 'stress', 'anxiety', 'mindful*', 'meditat*', 'calm', 'burnout', 'mental', 'focus', 'happ*', 'balance', 'wellbeing', 'well-being'],
+    topic: 'wellbeing',
+    habits: [
+      {
+        title: 'Morning Meditation',
+        description: 'Meditate for 10 minutes after waking up',
+        category: 'Mindfulness',
+        frequency: 'daily',
+        difficulty: 'easy',
+        icon: '🧘',
+        why: 'a short daily practice measurably lowers stress and improves focus',
+      },
+      {
+        title: 'Consistent Bedtime',
+        description: 'Screens off and in bed at the same time every night',
+        category: 'Health',
+        frequency: 'daily',
+        difficulty: 'medium',
+        icon: '😴',
+        why: 'regular sleep underpins mood, memory and energy',
+      },
+      {
+        title: 'Evening Journal',
+        description: 'Write down three things that went well today',
+        category: 'Mindfulness',
+        frequency: 'daily',
+        difficulty: 'easy',
+        icon: '✍️',
+        why: 'reflection helps you notice progress and process stress',
+      },
+    ],
+  },
+  {
+    keywords: ['write', 'writing', 'blog', 'communicat*', 'public speaking', 'present'],
+    topic: 'communication',
+    habits: [
+      {
+        title: 'Writing Practice',
+        description: 'Write 300 words about something you learned',
+        category: 'General',
+        frequency: 'daily',
+        difficulty: 'easy',
+        icon: '📝',
+        why: 'clear writing comes from volume and explaining ideas in your own words',
+      },
+      {
+        title: 'Publish a Post',
+        description: 'Edit and publish one article or talk',
+        category: 'General',
+        frequency: 'weekly',
+        difficulty: 'medium',
+        icon: '📣',
+        why: 'publishing showcases your communication skills and deepens understanding',
+      },
+    ],
+  },
+  {
+    keywords: ['language*', 'spanish', 'french', 'german', 'japanese', 'chinese', 'mandarin', 'korean', 'fluent', 'vocabulary'],
+    topic: 'language learning',
+    habits: [
+      {
+        title: 'Vocabulary Practice',
+        description: 'Practise 20 new words with a flashcard app',
+        category: 'Study',
+        frequency: 'daily',
+        difficulty: 'easy',
+        icon: '🗣️',
+        why: 'vocabulary grows through daily exposure',
+      },
+      {
+        title: 'Conversation Session',
+        description: 'Speak with a tutor or language partner for 30 minutes',
+        category: 'Study',
+        frequency: 'weekly',
+        difficulty: 'hard',
+        icon: '💬',
+        why: 'speaking practice turns passive knowledge into fluency',
+      },
+    ],
+  },
+  {
+    keywords: ['read', 'reading', 'book*'],
+    topic: 'reading',
+    habits: [
+      {
+        title: 'Read 20 Pages',
+        description: 'Read at least 20 pages of your current book',
+        category: 'Study',
+        frequency: 'daily',
+        difficulty: 'easy',
+        icon: '📖',
+        why: '20 pages a day adds up to more than a book a month',
+      },
+    ],
+  },
+  {
+    keywords: ['money', 'save', 'saving', 'budget', 'finance', 'debt', 'invest*'],
+    topic: 'finances',
+    habits: [
+      {
+        title: 'Track Spending',
+        description: 'Log every expense from today',
+        category: 'General',
+        frequency: 'daily',
+        difficulty: 'easy',
+        icon: '💰',
+        why: 'you can only change spending you can see',
+      },
+      {
+        title: 'Budget Review',
+        description: 'Compare spending against your budget and adjust next month',
+        category: 'General',
+        frequency: 'monthly',
+        difficulty: 'medium',
+        icon: '📈',
+        why: 'a monthly check keeps savings goals on track',
+      },
+    ],
+  },
+];
+
+const MAX_RULE_SUGGESTIONS = 5;
+const MIN_RULE_SUGGESTIONS = 3;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const keywordPattern = (keyword: string) =>
+  keyword.endsWith('*')
+    ? new RegExp(`\\b${escapeRegExp(keyword.slice(0, -1))}`, 'i')
+    : new RegExp(`\\b${escapeRegExp(keyword)}\\b`, 'i');
+
+const countMatches = (goal: string, rule: GoalRule) =>
+  rule.keywords.filter((keyword) => keywordPattern(keyword).test(goal)).length;
+
+const shorten = (goal: string) => (goal.length > 40 ? `${goal.slice(0, 37).trimEnd()}...` : goal);
+
+// Used when few or no rules match, so every goal gets a workable plan
+const genericHabits = (goal: string): SuggestedHabit[] => [
+  {
+    title: `Daily Step: ${shorten(goal)}`,
+    description: `Spend 30 focused minutes on one concrete task towards "${goal}"`,
+    category: 'General',
+    frequency: 'daily',
+    difficulty: 'medium',
+    icon: '🎯',
+    reasoning: 'Big goals are reached through small, consistent daily actions',
+  },
+  {
+    title: 'Weekly Review & Plan',
+    description: `Review what moved "${shorten(goal)}" forward and plan next week's tasks`,
+    category: 'General',
+    frequency: 'weekly',
+    difficulty: 'easy',
+    icon: '🗓️',
+    reasoning: 'A weekly review keeps your daily effort pointed at the goal',
+  },
+  {
+    title: 'Monthly Milestone Check',
+    description: 'Compare progress with where you wanted to be and adjust the plan',
+    category: 'General',
+    frequency: 'monthly',
+    difficulty: 'medium',
+    icon: '🏁',
+    reasoning: 'Milestones show whether the plan is working before it is too late to change it',
+  },
+];
+
+/**
+ * Deterministic, offline suggestions: the goal is matched against keyword
+ * rules, the best-matching rules contribute their habits, and generic
+ * planning habits fill in when little matches. The same goal always gives
+ * the same suggestions.
+ */
+export const suggestHabitsByRules = (goal: string): SuggestedHabit[] => {
+  const text = goal.trim();
+  const matched = RULES
+    .map((rule, order) => ({ rule, order, score: countMatches(text, rule) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.order - b.order);
+
+  const suggestions: SuggestedHabit[] = [];
+  const seen = new Set<string>();
+
+  // Take habits round-robin so the strongest topics don't crowd out others
+  const queues = matched.map(({ rule }) => rule.habits.map((idea) => ({ idea, topic: rule.topic })));
+  while (suggestions.length < MAX_RULE_SUGGESTIONS && queues.some((queue) => queue.length > 0)) {
+    queues.forEach((queue) => {
+      const next = queue.shift();
+      if (!next || suggestions.length >= MAX_RULE_SUGGESTIONS || seen.has(next.idea.title)) return;
+
+      const { why, ...habit } = next.idea;
+      seen.add(habit.title);
+      suggestions.push({
+        ...habit,
+        reasoning: `For "${shorten(text)}", ${next.topic} matters: ${why}`,
+      });
+    });
+  }
+
+  genericHabits(text).forEach((habit) => {
+    if (suggestions.length < MIN_RULE_SUGGESTIONS) suggestions.push(habit);
+  });
+
+  return suggestions;
+};
+
+export const ruleBasedProvider: GoalAnalyzerProvider = {
+  name: 'rules',
+  generate: async (goal) => suggestHabitsByRules(goal),
+};
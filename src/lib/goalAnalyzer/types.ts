@@ -0,0 +1,38 @@
+import type { HabitFrequency } from '../schedules';
+
+export const SUGGESTION_CATEGORIES = ['Health', 'Study', 'Coding', 'Fitness', 'Mindfulness', 'General'] as const;
+export const SUGGESTION_FREQUENCIES = ['daily', 'weekly', 'monthly'] as const satisfies readonly HabitFrequency[];
+export const SUGGESTION_DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+
+export interface SuggestedHabit {
+  title: string;
+  description: string;
+  category: (typeof SUGGESTION_CATEGORIES)[number];
+  frequency: (typeof SUGGESTION_FREQUENCIES)[number];
+  difficulty: (typeof SUGGESTION_DIFFICULTIES)[number];
+  icon: string;
+  reasoning: string;
+}
+
+/**
+ * A source of raw habit suggestions for a goal. Providers may return
+ * anything (a model's JSON text, a parsed HTTP body, ...); the analyzer
+ * validates it. `feedback` describes why the previous attempt was rejected
+ * so model-backed providers can correct themselves.
+ */
+export interface GoalAnalyzerProvider {
+  name: string;
+  generate: (goal: string, feedback?: string) => Promise<unknown>;
+}
+
+export interface GoalAnalyzer {
+  name: string;
+  analyzeGoal: (goal: string) => Promise<SuggestedHabit[]>;
+}
+
+export class MalformedSuggestionsError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Malformed suggestions: ${problems.join('; ')}`);
+    this.name = 'MalformedSuggestionsError';
+  }
+}
@@ -0,0 +1,95 @@
+import {
+  MalformedSuggestionsError,
+  SuggestedHabit,
+  SUGGESTION_CATEGORIES,
+  SUGGESTION_DIFFICULTIES,
+  SUGGESTION_FREQUENCIES,
+} from './types';
+
+export const MAX_SUGGESTIONS = 8;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const oneOf = <T extends string>(options: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
+
+// Models often wrap JSON in a markdown fence or an envelope object
+const unwrap = (raw: unknown): unknown => {
+  if (typeof raw === 'string') {
+    const text = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    try {
+      return unwrap(JSON.parse(text));
+    } catch {
+      throw new MalformedSuggestionsError(['output is not valid JSON']);
+    }
+  }
+  if (isRecord(raw) && Array.isArray(raw.habits)) return raw.habits;
+  return raw;
+};
+
+/**
+ * Checks raw provider output against the `SuggestedHabit` shape and returns
+ * the cleaned suggestions. Every problem found is reported at once so a
+ * retry can address all of them.
+ */
+export const parseSuggestedHabits = (raw: unknown): SuggestedHabit[] => {
+  const value = unwrap(raw);
+  if (!Array.isArray(value)) {
+    throw new MalformedSuggestionsError(['expected an array of habits']);
+  }
+  if (value.length === 0) {
+    throw new MalformedSuggestionsError(['no habits were suggested']);
+  }
+
+  const problems: string[] = [];
+  const habits: SuggestedHabit[] = [];
+
+  value.slice(0, MAX_SUGGESTIONS).forEach((item, index) => {
+    const at = `habit ${index + 1}`;
+    if (!isRecord(item)) {
+      problems.push(`${at} is not an object`);
+      return;
+    }
+
+    const text = (key: string) => (typeof item[key] === 'string' ? (item[key] as string).trim() : '');
+    const title = text('title');
+    const description = text('description');
+    const reasoning = text('reasoning');
+    const icon = text('icon');
+
+    if (!title) problems.push(`${at} is missing a title`);
+    if (!description) problems.push(`${at} is missing a description`);
+    if (!reasoning) problems.push(`${at} is missing reasoning`);
+    if (!oneOf(SUGGESTION_CATEGORIES, item.category)) {
+      problems.push(`${at} has category "${String(item.category)}", expected one of ${SUGGESTION_CATEGORIES.join(', ')}`);
+    }
+    if (!oneOf(SUGGESTION_FREQUENCIES, item.frequency)) {
+      problems.push(`${at} has frequency "${String(item.frequency)}", expected one of ${SUGGESTION_FREQUENCIES.join(', ')}`);
+    }
+    if (!oneOf(SUGGESTION_DIFFICULTIES, item.difficulty)) {
+      problems.push(`${at} has difficulty "${String(item.difficulty)}", expected one of ${SUGGESTION_DIFFICULTIES.join(', ')}`);
+    }
+
+    if (
+      title && description && reasoning &&
+      oneOf(SUGGESTION_CATEGORIES, item.category) &&
+      oneOf(SUGGESTION_FREQUENCIES, item.frequency) &&
+      oneOf(SUGGESTION_DIFFICULTIES, item.difficulty)
+    ) {
+      habits.push({
+        title: title.slice(0, 80),
+        description: description.slice(0, 240),
+        category: item.category,
+        frequency: item.frequency,
+        difficulty: item.difficulty,
+        // A missing or odd icon isn't worth a retry
+        icon: icon && icon.length <= 8 ? icon : '🎯',
+        reasoning: reasoning.slice(0, 300),
+      });
+    }
+  });
+
+  if (problems.length > 0) throw new MalformedSuggestionsError(problems);
+  return habits;
+};
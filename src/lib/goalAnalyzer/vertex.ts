@@ -0,0 +1,63 @@
+import type { GoalAnalyzerProvider } from './types';
+import { SUGGESTION_CATEGORIES, SUGGESTION_DIFFICULTIES, SUGGESTION_FREQUENCIES } from './types';
+
+type AiPlatform = typeof import('@google-cloud/aiplatform');
+
+interface VertexProviderOptions {
+  project: string;
+  location?: string;
+  model?: string;
+}
+
+export const buildGoalPrompt = (goal: string, feedback?: string) => [
+  'You help university students turn a goal into 3 to 5 concrete, trackable habits.',
+  'Reply with only a JSON array. Each item must have exactly these fields:',
+  '- "title": short habit name',
+  '- "description": one sentence saying what to do',
+  `- "category": one of ${SUGGESTION_CATEGORIES.map((c) => `"${c}"`).join(', ')}`,
+  `- "frequency": one of ${SUGGESTION_FREQUENCIES.map((f) => `"${f}"`).join(', ')}`,
+  `- "difficulty": one of ${SUGGESTION_DIFFICULTIES.map((d) => `"${d}"`).join(', ')}`,
+  '- "icon": a single emoji',
+  '- "reasoning": one sentence on how the habit serves the goal',
+  '',
+  `Goal: ${goal}`,
+  ...(feedback ? ['', `Your previous answer was rejected: ${feedback}. Fix these problems.`] : []),
+].join('\n');
+
+/**
+ * Generates suggestions with a Gemini model on Vertex AI. The client library
+ * needs Node and Application Default Credentials, so this provider runs on a
+ * server (for example behind the HTTP provider's endpoint), never in the
+ * browser bundle; the module name is resolved at runtime to keep it out.
+ */
+export const createVertexProvider = ({
+  project,
+  location = 'us-central1',
+  model = 'gemini-2.0-flash',
+}: VertexProviderOptions): GoalAnalyzerProvider => {
+  let client: InstanceType<AiPlatform['v1']['PredictionServiceClient']> | null = null;
+
+  const getClient = async () => {
+    if (!client) {
+      const moduleName = '@google-cloud/aiplatform';
+      const { v1 }: AiPlatform = await import(/* @vite-ignore */ moduleName);
+      client = new v1.PredictionServiceClient({ apiEndpoint: `${location}-aiplatform.googleapis.com` });
+    }
+    return client;
+  };
+
+  return {
+    name: 'vertex',
+    generate: async (goal, feedback) => {
+      const [response] = await (await getClient()).generateContent({
+        model: `projects/${project}/locations/${location}/publishers/google/models/${model}`,
+        contents: [{ role: 'user', parts: [{ text: buildGoalPrompt(goal, feedback) }] }],
+        generationConfig: { responseMimeType: 'application/json', temperature: 0.4 },
+      });
+
+      return (response.candidates?.[0]?.content?.parts || [])
+        .map((part) => part.text || '')
+        .join('');
+    },
+  };
+};
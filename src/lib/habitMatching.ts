@@ -0,0 +1,20 @@
+/**
+ * Normalizes a habit title for duplicate detection: case, punctuation,
+ * emoji and spacing are ignored, so "Daily Algorithm Practice!" and
+ * "daily algorithm  practice" are the same habit.
+ */
+export const normalizeHabitTitle = (title: string) =>
+  title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+export const isSameHabitTitle = (a: string, b: string) => {
+  const normalized = normalizeHabitTitle(a);
+  return normalized !== '' && normalized === normalizeHabitTitle(b);
+};
+
+// Returns the first existing habit whose title matches, if any
+export const findDuplicateHabit = <T extends { title: string }>(title: string, habits: T[]) =>
+  habits.find((habit) => isSameHabitTitle(title, habit.title));
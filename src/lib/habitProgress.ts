@@ -0,0 +1,96 @@
+import type { Database } from './supabase';
+import { toLocalDay } from './localDay';
+import { getRequiredCheckIns, getScale, PeriodScale, ScheduleHabit } from './schedules';
+
+type CompletionRow = Database['public']['Tables']['habit_completions']['Row'];
+
+export type ProgressHabit = ScheduleHabit & { id: string };
+export type ProgressCompletion = Pick<CompletionRow, 'habit_id' | 'completed_at'>;
+
+export interface HabitHistory {
+  habit: ProgressHabit;
+  scale: PeriodScale;
+  /** Check-ins per period key */
+  counts: Map<string, number>;
+  /** Period keys whose target was reached */
+  achieved: Set<string>;
+  /** Local days on which a period's target was reached */
+  achievedDays: Set<string>;
+}
+
+/**
+ * Groups a habit's check-ins into the periods of its schedule (see
+ * `getScale`). A period is achieved once it has the required number of
+ * check-ins; partial periods only show up in `counts`.
+ */
+export const buildHabitHistory = (
+  habit: ProgressHabit,
+  completions: ProgressCompletion[],
+  timeZone: string
+): HabitHistory => {
+  const scale = getScale(habit, timeZone);
+  const target = getRequiredCheckIns(habit);
+  const counts = new Map<string, number>();
+  const achieved = new Set<string>();
+  const achievedDays = new Set<string>();
+
+  completions
+    .filter((completion) => completion.habit_id === habit.id)
+    .sort((a, b) => new Date(a.completed_at).getTime() - new Date(b.completed_at).getTime())
+    .forEach((completion) => {
+      const day = toLocalDay(completion.completed_at, timeZone);
+      const key = scale.key(day);
+      const count = (counts.get(key) || 0) + 1;
+      counts.set(key, count);
+
+      if (count === target) {
+        achieved.add(key);
+        achievedDays.add(day);
+      }
+    });
+
+  return { habit, scale, counts, achieved, achievedDays };
+};
+
+export const buildHistories = (
+  habits: ProgressHabit[],
+  completions: ProgressCompletion[],
+  timeZone: string
+) => habits.map((habit) => buildHabitHistory(habit, completions, timeZone));
+
+export interface PeriodProgress {
+  count: number;
+  target: number;
+  done: boolean;
+}
+
+export const getPeriodProgress = (history: HabitHistory, day: string): PeriodProgress => {
+  const target = getRequiredCheckIns(history.habit);
+  const count = history.counts.get(history.scale.key(day)) || 0;
+  return { count, target, done: count >= target };
+};
+
+// Whether the habit has a scheduled period on the given day; rest days of a
+// weekday schedule are not due and never count as misses
+export const isDueOn = (history: HabitHistory, day: string) =>
+  history.scale.isScheduled(day);
+
+/**
+ * Share of scheduled periods touching `days` whose target was reached, as a
+ * whole percentage. A daily habit contributes one period per day, a weekday
+ * habit one per scheduled day, a weekly habit one per week, and so on.
+ */
+export const calculateCompletionRate = (histories: HabitHistory[], days: string[]) => {
+  let possible = 0;
+  let achieved = 0;
+
+  histories.forEach((history) => {
+    const periods = new Set(days.filter(history.scale.isScheduled).map(history.scale.key));
+    periods.forEach((period) => {
+      possible++;
+      if (history.achieved.has(period)) achieved++;
+    });
+  });
+
+  return possible > 0 ? Math.round((achieved / possible) * 100) : 0;
+};
@@ -0,0 +1,110 @@
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/heic', 'image/heif'];
+export const MAX_UPLOAD_BYTES = 15 * 1024 * 1024;
+
+export const PROOF_MAX_DIMENSION = 1600;
+export const THUMBNAIL_MAX_DIMENSION = 400;
+const PROOF_QUALITY = 0.82;
+const THUMBNAIL_QUALITY = 0.7;
+
+export interface ProcessedImage {
+  blob: Blob;
+  extension: 'webp' | 'jpg';
+  width: number;
+  height: number;
+}
+
+export interface ProcessedProof {
+  full: ProcessedImage;
+  thumbnail: ProcessedImage;
+}
+
+/**
+ * Rejects files we can't (or shouldn't) process, with a message that can be
+ * shown to the user as-is.
+ */
+export const validateImageFile = (file: File) => {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    throw new Error('Unsupported file type. Please choose a JPEG, PNG, WebP, GIF or HEIC image.');
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    const sizeMb = (file.size / 1024 / 1024).toFixed(1);
+    throw new Error(`Image is ${sizeMb} MB; the limit is ${MAX_UPLOAD_BYTES / 1024 / 1024} MB.`);
+  }
+};
+
+const loadImage = async (file: File): Promise<ImageBitmap | HTMLImageElement> => {
+  // createImageBitmap applies the EXIF orientation before it is dropped
+  if ('createImageBitmap' in window) {
+    try {
+      return await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch {
+      // Fall through to <img>, which also decodes formats some browsers
+      // only support there
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new window.Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } catch {
+    throw new Error("This image couldn't be read by your browser. Try a JPEG or PNG.");
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+
+/**
+ * Draws the image scaled to fit `maxDimension` and re-encodes it. Encoding
+ * from a canvas drops all metadata, including EXIF and GPS tags. WebP is
+ * preferred; browsers that can't encode it fall back to JPEG.
+ */
+const renderImage = async (
+  source: ImageBitmap | HTMLImageElement,
+  maxDimension: number,
+  quality: number
+): Promise<ProcessedImage> => {
+  const scale = Math.min(1, maxDimension / Math.max(source.width, source.height));
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Image processing is not supported in this browser.');
+  context.drawImage(source, 0, 0, width, height);
+
+  // Unsupported types silently come back as PNG, so check what we got
+  const webp = await canvasToBlob(canvas, 'image/webp', quality);
+  if (webp?.type === 'image/webp') {
+    return { blob: webp, extension: 'webp', width, height };
+  }
+
+  const jpeg = await canvasToBlob(canvas, 'image/jpeg', quality);
+  if (!jpeg) throw new Error('Could not compress the image.');
+  return { blob: jpeg, extension: 'jpg', width, height };
+};
+
+/**
+ * Validates a proof photo and produces the resized, metadata-free full
+ * image plus a small thumbnail for the gallery.
+ */
+export const processProofImage = async (file: File): Promise<ProcessedProof> => {
+  validateImageFile(file);
+
+  const source = await loadImage(file);
+  try {
+    const full = await renderImage(source, PROOF_MAX_DIMENSION, PROOF_QUALITY);
+    const thumbnail = await renderImage(source, THUMBNAIL_MAX_DIMENSION, THUMBNAIL_QUALITY);
+    return { full, thumbnail };
+  } finally {
+    if ('close' in source) source.close();
+  }
+};
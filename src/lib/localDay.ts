@@ -0,0 +1,146 @@
+/**
+ * "Local day" helpers. Completions and mood entries are stored as UTC
+ * `timestamptz`; every comparison or query that buckets them by day goes
+ * through here so a day means the same thing in the user's profile timezone
+ * everywhere. Days are represented as `yyyy-MM-dd` strings.
+ */
+
+export const getBrowserTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const wallClock = (instant: Date, timeZone: string) => {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone)
+    .formatToParts(instant)
+    .forEach(({ type, value }) => {
+      if (type !== 'literal') parts[type] = Number(value);
+    });
+  return parts;
+};
+
+// Milliseconds the zone is ahead of UTC at the given instant
+const offsetAt = (instant: Date, timeZone: string) => {
+  const { year, month, day, hour, minute, second } = wallClock(instant, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const parseDay = (day: string) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return { year, month, date };
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const toLocalDay = (instant: Date | string, timeZone: string) => {
+  const { year, month, day } = wallClock(new Date(instant), timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+export const localToday = (timeZone: string, now: Date = new Date()) =>
+  toLocalDay(now, timeZone);
+
+// Wall-clock hour (0-23) in the zone
+export const localHour = (timeZone: string, now: Date = new Date()) =>
+  wallClock(now, timeZone).hour;
+
+// Wall-clock time in the zone as `HH:mm`
+export const localTime = (timeZone: string, now: Date = new Date()) => {
+  const { hour, minute } = wallClock(now, timeZone);
+  return `${pad(hour)}:${pad(minute)}`;
+};
+
+export const addDaysToDay = (day: string, amount: number) => {
+  const { year, month, date } = parseDay(day);
+  const shifted = new Date(Date.UTC(year, month - 1, date + amount));
+  return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`;
+};
+
+export const diffDays = (later: string, earlier: string) => {
+  const a = parseDay(later);
+  const b = parseDay(earlier);
+  return Math.round(
+    (Date.UTC(a.year, a.month - 1, a.date) - Date.UTC(b.year, b.month - 1, b.date)) / 86400000
+  );
+};
+
+// 0 = Sunday, matching date-fns and `Date#getDay`
+export const dayOfWeek = (day: string) => {
+  const { year, month, date } = parseDay(day);
+  return new Date(Date.UTC(year, month - 1, date)).getUTCDay();
+};
+
+// Weeks start on Sunday, like date-fns `startOfWeek` defaults
+export const startOfLocalWeek = (day: string) => addDaysToDay(day, -dayOfWeek(day));
+
+export const eachLocalDay = (start: string, end: string) => {
+  const days: string[] = [];
+  for (let day = start; day <= end; day = addDaysToDay(day, 1)) {
+    days.push(day);
+  }
+  return days;
+};
+
+// The UTC instant at which the given local day starts
+export const startOfLocalDay = (day: string, timeZone: string) => {
+  const { year, month, date } = parseDay(day);
+  const guess = Date.UTC(year, month - 1, date);
+  let start = guess - offsetAt(new Date(guess), timeZone);
+  // Re-check across DST transitions
+  const corrected = guess - offsetAt(new Date(start), timeZone);
+  if (corrected !== start) start = corrected;
+  return new Date(start);
+};
+
+/**
+ * UTC bounds for querying a range of local days, inclusive of both ends.
+ * Use as `.gte(column, start).lt(column, end)`.
+ */
+export const localDayRange = (startDay: string, endDay: string, timeZone: string) => ({
+  start: startOfLocalDay(startDay, timeZone).toISOString(),
+  end: startOfLocalDay(addDaysToDay(endDay, 1), timeZone).toISOString(),
+});
+
+export const localDayBounds = (day: string, timeZone: string) =>
+  localDayRange(day, day, timeZone);
+
+// A browser-local Date for the day, for display formatting with date-fns
+export const dayToDate = (day: string) => {
+  const { year, month, date } = parseDay(day);
+  return new Date(year, month - 1, date);
+};
+
+export const listTimeZones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = intl.supportedValuesOf?.('timeZone') ?? [];
+  return Array.from(new Set([getBrowserTimeZone(), 'UTC', ...zones])).sort();
+};
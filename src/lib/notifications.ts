@@ -0,0 +1,73 @@
+import { createNotifications } from './repositories/notifications';
+import { listActiveHabits } from './repositories/habits';
+import { listCompletionHistory } from './repositories/completions';
+import { addDaysToDay, localHour, toLocalDay } from './localDay';
+import { buildHabitHistory, getPeriodProgress, isDueOn, ProgressCompletion, ProgressHabit } from './habitProgress';
+import { calculateStreaks, formatStreak, HabitStreak } from './streaks';
+
+/** Local hour after which an unfinished period that ends today is at risk */
+export const STREAK_RISK_HOUR = 18;
+
+type RiskHabit = ProgressHabit & { title: string };
+
+export interface StreakAtRisk {
+  habit: RiskHabit;
+  streak: HabitStreak;
+  day: string;
+}
+
+/**
+ * Habits with a running streak whose current period ends today without
+ * having reached its target. Only considered from `STREAK_RISK_HOUR` on, so
+ * a morning check doesn't nag about habits there's still time for.
+ */
+export const findStreaksAtRisk = (
+  habits: RiskHabit[],
+  completions: ProgressCompletion[],
+  timeZone: string,
+  now: Date = new Date()
+): StreakAtRisk[] => {
+  if (localHour(timeZone, now) < STREAK_RISK_HOUR) return [];
+
+  const today = toLocalDay(now, timeZone);
+  const streaks = calculateStreaks(habits, completions, timeZone, now);
+
+  return habits.flatMap((habit) => {
+    const streak = streaks.byHabit[habit.id];
+    if (!streak || streak.current === 0) return [];
+
+    const history = buildHabitHistory(habit, completions, timeZone);
+    const endsToday = history.scale.key(addDaysToDay(today, 1)) !== history.scale.key(today);
+    if (!isDueOn(history, today) || !endsToday || getPeriodProgress(history, today).done) return [];
+
+    return [{ habit, streak, day: today }];
+  });
+};
+
+/**
+ * Writes a `streak_risk` notification for each habit found by
+ * `findStreaksAtRisk`. Safe to call repeatedly: the dedupe key allows one
+ * per habit and day.
+ */
+export const notifyStreaksAtRisk = async (userId: string, timeZone: string) => {
+  if (localHour(timeZone) < STREAK_RISK_HOUR) return;
+
+  const habits = await listActiveHabits(userId);
+  if (habits.length === 0) return;
+
+  const completions = await listCompletionHistory(userId);
+
+  const atRisk = findStreaksAtRisk(habits, completions, timeZone);
+  if (atRisk.length === 0) return;
+
+  await createNotifications(
+    atRisk.map(({ habit, streak, day }) => ({
+      user_id: userId,
+      title: 'Streak at risk 🔥',
+      message: `You're ${formatStreak(streak)} into "${habit.title}". Check in before midnight to keep the streak.`,
+      type: 'streak_risk' as const,
+      data: { habit_id: habit.id, day },
+      dedupe_key: `streak_risk:${habit.id}:${day}`,
+    }))
+  );
+};
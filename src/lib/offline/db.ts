@@ -0,0 +1,88 @@
+/**
+ * Minimal promise wrapper over the app's IndexedDB database. `habits` and
+ * `completions` mirror the last rows fetched from Supabase; `outbox` holds
+ * writes made while offline, in the order they were made.
+ */
+
+const DB_NAME = 'habitflow';
+const DB_VERSION = 1;
+
+export type StoreName = 'habits' | 'completions' | 'outbox';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const habits = db.createObjectStore('habits', { keyPath: 'id' });
+        habits.createIndex('user_id', 'user_id');
+        const completions = db.createObjectStore('completions', { keyPath: 'id' });
+        completions.createIndex('user_id', 'user_id');
+        db.createObjectStore('outbox', { keyPath: 'seq', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const getAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDb();
+  return requestToPromise(db.transaction(store).objectStore(store).getAll());
+};
+
+export const getAllByIndex = async <T>(store: StoreName, index: string, value: IDBValidKey): Promise<T[]> => {
+  const db = await openDb();
+  return requestToPromise(db.transaction(store).objectStore(store).index(index).getAll(value));
+};
+
+export const put = async <T>(store: StoreName, value: T) => {
+  const db = await openDb();
+  return requestToPromise(db.transaction(store, 'readwrite').objectStore(store).put(value));
+};
+
+export const add = async <T>(store: StoreName, value: T) => {
+  const db = await openDb();
+  return requestToPromise(db.transaction(store, 'readwrite').objectStore(store).add(value));
+};
+
+export const remove = async (store: StoreName, key: IDBValidKey) => {
+  const db = await openDb();
+  const transaction = db.transaction(store, 'readwrite');
+  transaction.objectStore(store).delete(key);
+  return transactionDone(transaction);
+};
+
+/**
+ * Replaces the rows matched by `index = value` with `rows` in one
+ * transaction, so readers never see a half-written mirror.
+ */
+export const replaceByIndex = async <T>(store: StoreName, index: string, value: IDBValidKey, rows: T[]) => {
+  const db = await openDb();
+  const transaction = db.transaction(store, 'readwrite');
+  const objectStore = transaction.objectStore(store);
+  const keys = await requestToPromise(objectStore.index(index).getAllKeys(value));
+  keys.forEach((key) => objectStore.delete(key));
+  rows.forEach((row) => objectStore.put(row));
+  return transactionDone(transaction);
+};
@@ -0,0 +1,75 @@
+import type { Completion } from '../repositories/completions';
+import type { Habit } from '../repositories/habits';
+import { getAllByIndex, replaceByIndex } from './db';
+import { getPendingEntries } from './outbox';
+
+export type MirrorCompletion = Pick<Completion, 'id' | 'habit_id' | 'user_id' | 'completed_at' | 'mood_rating'>;
+export type MirrorHabit = Habit & { completions: MirrorCompletion[] };
+
+/** Stores the user's active habits and their completions as last fetched */
+export const saveHabitsSnapshot = async (
+  userId: string,
+  habits: (Habit & { completions?: Omit<MirrorCompletion, 'user_id'>[] })[]
+) => {
+  const completions = habits.flatMap((habit) =>
+    (habit.completions || []).map((completion) => ({ ...completion, user_id: userId }))
+  );
+  const rows = habits.map((habit) => {
+    const row = { ...habit };
+    delete row.completions;
+    return row;
+  });
+  await replaceByIndex('habits', 'user_id', userId, rows);
+  await replaceByIndex('completions', 'user_id', userId, completions);
+};
+
+/**
+ * The mirrored habits with the user's queued writes applied on top, newest
+ * first, so the offline view shows what the server will have once synced.
+ */
+export const loadHabitsSnapshot = async (userId: string): Promise<MirrorHabit[]> => {
+  let habits = await getAllByIndex<Habit>('habits', 'user_id', userId);
+  let completions = await getAllByIndex<MirrorCompletion>('completions', 'user_id', userId);
+
+  (await getPendingEntries(userId)).forEach(({ op }) => {
+    switch (op.kind) {
+      case 'completion.insert':
+        completions.push({
+          id: op.row.id,
+          habit_id: op.row.habit_id,
+          user_id: op.row.user_id,
+          completed_at: op.row.completed_at || new Date().toISOString(),
+          mood_rating: op.row.mood_rating ?? null,
+        });
+        break;
+      case 'completion.delete':
+        completions = completions.filter((completion) => completion.id !== op.id);
+        break;
+      case 'habit.insert':
+        habits.push({
+          description: null,
+          target_count: 1,
+          schedule_days: null,
+          schedule_interval: null,
+          is_active: true,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+          goal_id: null,
+          reminders: [],
+          ...op.row,
+        } as Habit);
+        break;
+      case 'habit.update':
+        habits = habits.map((habit) => (habit.id === op.id ? { ...habit, ...op.changes } : habit));
+        break;
+    }
+  });
+
+  return habits
+    .filter((habit) => habit.is_active)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .map((habit) => ({
+      ...habit,
+      completions: completions.filter((completion) => completion.habit_id === habit.id),
+    }));
+};
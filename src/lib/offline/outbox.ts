@@ -0,0 +1,237 @@
+import { localDayBounds } from '../localDay';
+import { attachProofToCompletion, ProofVisibility } from '../proofs';
+import { CompletionInsert, CompletionUpdate, createCompletionOnce, deleteCompletion, updateCompletion } from '../repositories/completions';
+import { createHabitOnce, HabitInsert, HabitUpdate, updateHabit } from '../repositories/habits';
+import { saveMoodEntry } from '../repositories/moods';
+import { add, getAll, put, remove } from './db';
+
+/**
+ * A write that can be replayed later. Rows created offline carry a
+ * client-generated id so later operations (undo, attaching a photo) can
+ * refer to them before they reach the server.
+ */
+export type OutboxOperation =
+  | { kind: 'completion.insert'; row: CompletionInsert & { id: string } }
+  | { kind: 'completion.update'; id: string; changes: CompletionUpdate }
+  | { kind: 'completion.delete'; id: string }
+  | { kind: 'habit.insert'; row: HabitInsert & { id: string } }
+  | { kind: 'habit.update'; id: string; changes: HabitUpdate; baseUpdatedAt: string | null }
+  | {
+      kind: 'mood.save';
+      day: string;
+      timeZone: string;
+      moodRating: number;
+      reflection: string | null;
+      recordedAt: string;
+    }
+  | {
+      kind: 'proof.attach';
+      habitId: string;
+      completionId: string;
+      file: Blob;
+      fileName: string;
+      visibility: ProofVisibility;
+    };
+
+export interface OutboxEntry {
+  seq?: number;
+  userId: string;
+  /** Shown to the user if the entry can't be synced, e.g. `Check-in for "Read"` */
+  label: string;
+  queuedAt: string;
+  op: OutboxOperation;
+}
+
+export interface DiscardedEntry {
+  label: string;
+  reason: string;
+}
+
+export class SyncConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncConflictError';
+  }
+}
+
+// Offline, or the request never reached the server
+export const isNetworkError = (error: unknown) => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (error instanceof TypeError) return true;
+  const message = (error as { message?: string })?.message || '';
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+};
+
+// The session expired or was revoked; the write can go through after signing in again
+export const isAuthError = (error: unknown) => {
+  const { status, code, message } = (error as { status?: number; code?: string; message?: string }) || {};
+  if (status === 401 || code === 'PGRST301' || code === 'PGRST303') return true;
+  return /jwt|not authenticated|refresh token/i.test(message || '');
+};
+
+type Listener = (pending: number) => void;
+// Each listener only counts its user's entries; others may be queued on a shared device
+const listeners = new Map<Listener, string>();
+
+const notify = async () => {
+  const entries = await getAll<OutboxEntry>('outbox');
+  listeners.forEach((userId, listener) =>
+    listener(entries.filter((entry) => entry.userId === userId).length)
+  );
+};
+
+export const subscribeOutbox = (userId: string, listener: Listener) => {
+  listeners.set(listener, userId);
+  notify();
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getPendingEntries = (userId: string) =>
+  getAll<OutboxEntry>('outbox').then((entries) => entries.filter((entry) => entry.userId === userId));
+
+const refersToCompletion = (op: OutboxOperation, id: string) =>
+  (op.kind === 'completion.insert' && op.row.id === id)
+  || ((op.kind === 'completion.update' || op.kind === 'completion.delete') && op.id === id)
+  || (op.kind === 'proof.attach' && op.completionId === id);
+
+/**
+ * Queues an operation. Operations on rows that only exist in the outbox are
+ * folded into the queued insert instead: deleting an unsynced check-in
+ * drops it and everything queued for it, and editing an unsynced habit
+ * edits the queued row.
+ */
+export const enqueue = async (entry: Omit<OutboxEntry, 'queuedAt'>) => {
+  const queued = await getAll<OutboxEntry>('outbox');
+  const { op } = entry;
+
+  if (op.kind === 'completion.delete') {
+    const unsynced = queued.find((e) => e.op.kind === 'completion.insert' && e.op.row.id === op.id);
+    if (unsynced) {
+      await Promise.all(
+        queued.filter((e) => refersToCompletion(e.op, op.id)).map((e) => remove('outbox', e.seq!))
+      );
+      await notify();
+      return;
+    }
+  }
+
+  if (op.kind === 'habit.update') {
+    const unsynced = queued.find((e) => e.op.kind === 'habit.insert' && e.op.row.id === op.id);
+    if (unsynced && unsynced.op.kind === 'habit.insert') {
+      await put('outbox', { ...unsynced, op: { ...unsynced.op, row: { ...unsynced.op.row, ...op.changes } } });
+      await notify();
+      return;
+    }
+  }
+
+  await add('outbox', { ...entry, queuedAt: new Date().toISOString() });
+  await notify();
+};
+
+/**
+ * Replays one operation against Supabase. Returns a reason when the server
+ * state makes it obsolete, which discards it; throws on failure.
+ *
+ * Conflict rules:
+ * - Inserts are idempotent on their client id, so a retried insert is a no-op
+ * - Habit edits only apply if the habit hasn't changed on the server since
+ *   it was loaded; otherwise the server copy wins
+ * - Mood entries are one per local day; the latest save wins
+ * - Updates to check-ins that were deleted elsewhere are dropped
+ */
+const applyOperation = async (userId: string, op: OutboxOperation): Promise<string | null> => {
+  switch (op.kind) {
+    case 'completion.insert': {
+      try {
+        await createCompletionOnce(op.row);
+      } catch (error) {
+        if ((error as { code?: string }).code === '23503') return 'the habit no longer exists';
+        throw error;
+      }
+      return null;
+    }
+    case 'completion.update':
+      return (await updateCompletion(op.id, op.changes)) ? null : 'the check-in was removed';
+    case 'completion.delete':
+      await deleteCompletion(op.id);
+      return null;
+    case 'habit.insert':
+      await createHabitOnce(op.row);
+      return null;
+    case 'habit.update':
+      return (await updateHabit(op.id, op.changes, op.baseUpdatedAt)) ? null : 'the habit was changed on another device';
+    case 'mood.save':
+      await saveMoodEntry(userId, localDayBounds(op.day, op.timeZone), {
+        mood_rating: op.moodRating,
+        reflection: op.reflection,
+        created_at: op.recordedAt,
+      });
+      return null;
+    case 'proof.attach':
+      await attachProofToCompletion({
+        userId,
+        habitId: op.habitId,
+        completionId: op.completionId,
+        file: new File([op.file], op.fileName, { type: op.file.type }),
+        visibility: op.visibility,
+      });
+      return null;
+  }
+};
+
+let flushing: Promise<DiscardedEntry[]> | null = null;
+
+/**
+ * Replays the user's queued operations in order. Stops at the first
+ * network or auth failure and leaves the rest queued; entries the server
+ * rejects or that conflict are discarded and returned so the UI can say so.
+ */
+export const flushOutbox = (userId: string) => {
+  if (!flushing) {
+    flushing = (async () => {
+      const discarded: DiscardedEntry[] = [];
+      try {
+        for (const entry of await getPendingEntries(userId)) {
+          try {
+            const conflict = await applyOperation(userId, entry.op);
+            if (conflict) discarded.push({ label: entry.label, reason: conflict });
+          } catch (error) {
+            if (isNetworkError(error) || isAuthError(error)) break;
+            discarded.push({ label: entry.label, reason: (error as Error).message });
+          }
+          await remove('outbox', entry.seq!);
+          await notify();
+        }
+      } finally {
+        flushing = null;
+      }
+      return discarded;
+    })();
+  }
+  return flushing;
+};
+
+/**
+ * Runs an operation now when possible, otherwise queues it. Operations also
+ * queue behind anything already pending so they reach the server in order.
+ * Returns whether the write is `synced` or `queued`.
+ */
+export const perform = async (userId: string, label: string, op: OutboxOperation) => {
+  const pending = await getPendingEntries(userId);
+  if (navigator.onLine && pending.length === 0) {
+    try {
+      const conflict = await applyOperation(userId, op);
+      if (conflict) throw new SyncConflictError(`Couldn't save because ${conflict}`);
+      return 'synced' as const;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  await enqueue({ userId, label, op });
+  return 'queued' as const;
+};
+
+export const QUEUED_MESSAGE = 'Saved offline. It will sync when you\'re back online.';
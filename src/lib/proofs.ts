@@ -0,0 +1,142 @@
+import { supabase, Database } from './supabase';
+import { createCompletion, updateCompletion } from './repositories/completions';
+import { processProofImage, ProcessedImage } from './imageProcessing';
+
+export const PROOF_BUCKET = 'habit-proofs';
+
+export type ProofVisibility = Database['public']['Tables']['habit_completions']['Row']['proof_visibility'];
+
+export const PROOF_VISIBILITY_OPTIONS: { value: ProofVisibility; label: string; description: string }[] = [
+  { value: 'private', label: 'Private', description: 'Only you' },
+  { value: 'challenge', label: 'Challenge members', description: 'People in your challenges' },
+  { value: 'public', label: 'Public', description: 'Any signed-in user' },
+];
+
+// Signed URLs are short-lived; cached ones are reused until shortly before
+// they expire
+const SIGNED_URL_TTL_SECONDS = 10 * 60;
+export const SIGNED_URL_REFRESH_MARGIN_MS = 60 * 1000;
+
+export interface SignedProofUrl {
+  url: string;
+  expiresAt: number;
+}
+
+const signedUrlCache = new Map<string, SignedProofUrl>();
+
+const isFresh = (entry: SignedProofUrl | undefined): entry is SignedProofUrl =>
+  !!entry && entry.expiresAt - SIGNED_URL_REFRESH_MARGIN_MS > Date.now();
+
+/**
+ * Resolves storage paths to signed URLs, signing any that aren't cached (or
+ * are about to expire) in a single request. Paths that can't be signed,
+ * e.g. because the viewer lost access, are left out of the result.
+ */
+export const getSignedProofUrls = async (paths: string[]) => {
+  const result: Record<string, SignedProofUrl> = {};
+  const missing: string[] = [];
+
+  new Set(paths).forEach((path) => {
+    const cached = signedUrlCache.get(path);
+    if (isFresh(cached)) {
+      result[path] = cached;
+    } else {
+      missing.push(path);
+    }
+  });
+
+  if (missing.length > 0) {
+    const expiresAt = Date.now() + SIGNED_URL_TTL_SECONDS * 1000;
+    const { data, error } = await supabase.storage
+      .from(PROOF_BUCKET)
+      .createSignedUrls(missing, SIGNED_URL_TTL_SECONDS);
+
+    if (error) throw error;
+
+    data.forEach((signed) => {
+      if (!signed.path || !signed.signedUrl || signed.error) return;
+      const entry = { url: signed.signedUrl, expiresAt };
+      signedUrlCache.set(signed.path, entry);
+      result[signed.path] = entry;
+    });
+  }
+
+  return result;
+};
+
+export const getSignedProofUrl = async (path: string) =>
+  (await getSignedProofUrls([path]))[path] || null;
+
+// Drops a cached URL the browser failed to load, so the next lookup re-signs
+export const invalidateSignedProofUrl = (path: string) => {
+  signedUrlCache.delete(path);
+};
+
+/** Another user's proofs that the current user may see, without the rest of each check-in */
+export const listSharedProofs = async (ownerId: string) => {
+  const { data, error } = await supabase.rpc('list_shared_proofs', { p_owner_id: ownerId });
+
+  if (error) throw error;
+  return data;
+};
+
+const uploadBlob = async (path: string, image: ProcessedImage) => {
+  const { error } = await supabase.storage
+    .from(PROOF_BUCKET)
+    .upload(path, image.blob, { contentType: image.blob.type });
+
+  if (error) throw error;
+  return path;
+};
+
+/**
+ * Resizes and strips a proof photo (see `processProofImage`), then uploads
+ * it with its thumbnail under the user's folder and returns both storage
+ * paths. Storage policies only allow writes to `<user id>/...`.
+ */
+export const uploadProofImage = async (userId: string, file: File) => {
+  const { full, thumbnail } = await processProofImage(file);
+  const baseName = `${userId}/${Date.now()}`;
+
+  const imagePath = await uploadBlob(`${baseName}.${full.extension}`, full);
+  const thumbnailPath = await uploadBlob(`${baseName}_thumb.${thumbnail.extension}`, thumbnail);
+
+  return { imagePath, thumbnailPath };
+};
+
+/**
+ * Attaches a proof photo to an existing completion, or to a new check-in
+ * for the habit when no completion is given.
+ */
+export const attachProofToCompletion = async ({
+  userId,
+  habitId,
+  completionId,
+  file,
+  visibility,
+}: {
+  userId: string;
+  habitId: string;
+  completionId: string | null;
+  file: File;
+  visibility: ProofVisibility;
+}) => {
+  const { imagePath, thumbnailPath } = await uploadProofImage(userId, file);
+  const proof = {
+    proof_image_url: imagePath,
+    proof_thumbnail_url: thumbnailPath,
+    proof_visibility: visibility,
+  };
+
+  if (completionId) {
+    await updateCompletion(completionId, proof);
+    return completionId;
+  }
+
+  return createCompletion({
+    habit_id: habitId,
+    user_id: userId,
+    completed_at: new Date().toISOString(),
+    ...proof,
+  });
+};
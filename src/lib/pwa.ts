@@ -0,0 +1,7 @@
+/** The app's single service worker: app shell caching and reminders */
+export const SERVICE_WORKER_URL = '/sw.js';
+
+export const isServiceWorkerSupported = () =>
+  typeof window !== 'undefined' && 'serviceWorker' in navigator;
+
+export const registerServiceWorker = () => navigator.serviceWorker.register(SERVICE_WORKER_URL);
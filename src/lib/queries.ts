@@ -0,0 +1,79 @@
+import { invalidateQueries, updateQueriesData } from './queryCache';
+import type { Completion } from './repositories/completions';
+import type { HabitWithCompletions } from './repositories/habits';
+
+/**
+ * Cache keys for shared queries. The first two parts are the data kind and
+ * the user, so a write can invalidate everything of a kind for that user.
+ */
+export const queryKeys = {
+  activeHabits: (userId: string) => ['habits', userId, 'active'] as const,
+  habitsWithCompletions: (userId: string) => ['habits', userId, 'with-completions'] as const,
+  proofCompletions: (userId: string) => ['completions', userId, 'proofs'] as const,
+  moodEntries: (userId: string) => ['moods', userId] as const,
+  goals: (userId: string) => ['goals', userId] as const,
+  activeChallenges: (userId: string) => ['challenges', userId, 'active'] as const,
+  pastChallenges: (userId: string) => ['challenges', userId, 'past'] as const,
+  joinedChallenges: (userId: string) => ['challenges', userId, 'joined'] as const,
+  challenge: (userId: string, challengeId: string) => ['challenges', userId, 'detail', challengeId] as const,
+  challengeHabits: (userId: string, challengeId: string) => ['challenges', userId, 'habits', challengeId] as const,
+  challengeProgress: (userId: string, challengeId: string) => ['challenges', userId, 'progress', challengeId] as const,
+  challengeLeaderboard: (userId: string, challengeId: string) =>
+    ['challenges', userId, 'leaderboard', challengeId] as const,
+  challengeInvite: (userId: string, inviteCode: string) => ['challenges', userId, 'invite', inviteCode] as const,
+  challengeJoinRequests: (userId: string, challengeId: string) =>
+    ['challenges', userId, 'join-requests', challengeId] as const,
+  periodProgress: (userId: string, day: string, timeZone: string) =>
+    ['analytics', userId, 'period-progress', day, timeZone] as const,
+  dailyCounts: (userId: string, start: string, end: string, timeZone: string) =>
+    ['analytics', userId, 'daily-counts', start, end, timeZone] as const,
+  categoryBreakdown: (userId: string, start: string, end: string, timeZone: string) =>
+    ['analytics', userId, 'categories', start, end, timeZone] as const,
+  completionRate: (userId: string, start: string, end: string, timeZone: string) =>
+    ['analytics', userId, 'completion-rate', start, end, timeZone] as const,
+  streaks: (userId: string, timeZone: string) => ['analytics', userId, 'streaks', timeZone] as const,
+};
+
+type CachedCompletion = Pick<Completion, 'id' | 'habit_id' | 'completed_at' | 'mood_rating'>;
+
+/** After habits are created, edited or paused */
+export const invalidateHabits = (userId: string) => {
+  invalidateQueries(['habits', userId]);
+  invalidateQueries(['goals', userId]);
+  invalidateQueries(['analytics', userId]);
+};
+
+/** After check-ins are added, edited or removed */
+export const invalidateCompletions = (userId: string) => {
+  invalidateQueries(['completions', userId]);
+  invalidateQueries(queryKeys.habitsWithCompletions(userId));
+  invalidateQueries(['analytics', userId]);
+  invalidateQueries(['challenges', userId, 'progress']);
+  invalidateQueries(['challenges', userId, 'leaderboard']);
+};
+
+export const invalidateMoods = (userId: string) => invalidateQueries(queryKeys.moodEntries(userId));
+
+/** After creating, editing, joining or leaving a challenge */
+export const invalidateChallenges = (userId: string) => invalidateQueries(['challenges', userId]);
+
+/**
+ * Shows a new check-in in every cached view of the user's habits before
+ * the server has it, so other tabs are current without refetching.
+ */
+export const addCompletionToCache = (userId: string, completion: CachedCompletion) => {
+  updateQueriesData<HabitWithCompletions[]>(queryKeys.habitsWithCompletions(userId), (habits) =>
+    habits.map((habit) => (habit.id === completion.habit_id
+      ? { ...habit, completions: [...habit.completions, completion] }
+      : habit))
+  );
+};
+
+export const removeCompletionFromCache = (userId: string, completionId: string) => {
+  updateQueriesData<HabitWithCompletions[]>(queryKeys.habitsWithCompletions(userId), (habits) =>
+    habits.map((habit) => ({
+      ...habit,
+      completions: habit.completions.filter((completion) => completion.id !== completionId),
+    }))
+  );
+};
@@ -0,0 +1,148 @@
+/**
+ * Client-side cache for read queries, shared by every mounted component.
+ * Entries are keyed by an array such as `['habits', userId, 'active']`;
+ * invalidating a prefix like `['habits', userId]` marks every matching entry
+ * stale. Stale entries keep serving their data while they refetch, and
+ * concurrent fetches of the same key share one request.
+ */
+
+export type QueryKey = readonly (string | number | boolean | null)[];
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: Error | null;
+  /** When `data` was last fetched or set; 0 if never */
+  updatedAt: number;
+  fetching: boolean;
+}
+
+interface Entry {
+  key: QueryKey;
+  state: QueryState<unknown>;
+  /** Set by invalidation; the next read refetches regardless of age */
+  invalidated: boolean;
+  promise: Promise<unknown> | null;
+  fetcher: (() => Promise<unknown>) | null;
+  listeners: Set<() => void>;
+}
+
+/** How long fetched data counts as fresh by default */
+export const DEFAULT_STALE_TIME_MS = 30 * 1000;
+
+const EMPTY_STATE: QueryState<never> = { data: undefined, error: null, updatedAt: 0, fetching: false };
+
+const entries = new Map<string, Entry>();
+
+const hashKey = (key: QueryKey) => JSON.stringify(key);
+
+const getEntry = (key: QueryKey) => {
+  const hash = hashKey(key);
+  let entry = entries.get(hash);
+  if (!entry) {
+    entry = { key, state: EMPTY_STATE, invalidated: false, promise: null, fetcher: null, listeners: new Set() };
+    entries.set(hash, entry);
+  }
+  return entry;
+};
+
+// States are replaced rather than mutated so React sees a new snapshot
+const setState = (entry: Entry, changes: Partial<QueryState<unknown>>) => {
+  entry.state = { ...entry.state, ...changes };
+  entry.listeners.forEach((listener) => listener());
+};
+
+const startsWith = (key: QueryKey, prefix: QueryKey) =>
+  prefix.length <= key.length && prefix.every((part, index) => key[index] === part);
+
+export const getQueryState = <T>(key: QueryKey) =>
+  (entries.get(hashKey(key))?.state ?? EMPTY_STATE) as QueryState<T>;
+
+export const subscribeQuery = (key: QueryKey, listener: () => void) => {
+  const entry = getEntry(key);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+};
+
+export const isQueryStale = (key: QueryKey, staleTime = DEFAULT_STALE_TIME_MS) => {
+  const entry = entries.get(hashKey(key));
+  return !entry || entry.invalidated || Date.now() - entry.state.updatedAt > staleTime;
+};
+
+/**
+ * Fetches `key` with `fetcher` and stores the result, joining the request
+ * already in flight for the key if there is one. Rejects with the error,
+ * which is also kept in the entry's state.
+ */
+export const fetchQuery = <T>(key: QueryKey, fetcher: () => Promise<T>): Promise<T> => {
+  const entry = getEntry(key);
+  entry.fetcher = fetcher;
+  if (entry.promise) return entry.promise as Promise<T>;
+
+  entry.invalidated = false;
+  setState(entry, { fetching: true });
+
+  const promise = fetcher().then(
+    (data) => {
+      entry.promise = null;
+      setState(entry, { data, error: null, updatedAt: Date.now(), fetching: false });
+      // Invalidated while in flight, so this data may predate the write
+      if (entry.invalidated) refetchIfShown(entry);
+      return data;
+    },
+    (error) => {
+      entry.promise = null;
+      setState(entry, { error: error as Error, fetching: false });
+      throw error;
+    }
+  );
+  entry.promise = promise;
+  return promise;
+};
+
+const refetchIfShown = (entry: Entry) => {
+  if (entry.listeners.size > 0 && entry.fetcher) {
+    fetchQuery(entry.key, entry.fetcher).catch(() => {
+      // Kept in the entry's state for the components showing it
+    });
+  }
+};
+
+/**
+ * Replaces an entry's data without fetching, e.g. to show a write before the
+ * server confirms it. Entries that were never fetched are left alone.
+ */
+export const setQueryData = <T>(key: QueryKey, update: (data: T) => T) => {
+  const entry = entries.get(hashKey(key));
+  if (!entry || entry.state.data === undefined) return;
+  setState(entry, { data: update(entry.state.data as T) });
+};
+
+/** Applies `update` to the data of every fetched entry under `prefix` */
+export const updateQueriesData = <T>(prefix: QueryKey, update: (data: T, key: QueryKey) => T) => {
+  entries.forEach((entry) => {
+    if (startsWith(entry.key, prefix) && entry.state.data !== undefined) {
+      setState(entry, { data: update(entry.state.data as T, entry.key) });
+    }
+  });
+};
+
+/**
+ * Marks every entry under `prefix` stale. Entries a mounted component is
+ * showing refetch right away; the rest refetch when next read, serving the
+ * old data meanwhile.
+ */
+export const invalidateQueries = (prefix: QueryKey) => {
+  entries.forEach((entry) => {
+    if (!startsWith(entry.key, prefix)) return;
+
+    entry.invalidated = true;
+    if (!entry.promise) refetchIfShown(entry);
+  });
+};
+
+/** Drops everything, e.g. on sign-out */
+export const clearQueryCache = () => {
+  entries.clear();
+};
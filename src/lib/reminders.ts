@@ -0,0 +1,111 @@
+import { savePushSubscription } from './repositories/pushSubscriptions';
+import { dayOfWeek } from './localDay';
+import { WEEKDAY_LABELS } from './schedules';
+import { isServiceWorkerSupported, registerServiceWorker, SERVICE_WORKER_URL } from './pwa';
+
+/**
+ * A reminder stored on a habit. `time` is `HH:mm` in the owner's profile
+ * timezone; an empty `days` list means every day.
+ */
+export interface HabitReminder {
+  time: string;
+  days: number[];
+}
+
+// A reminder missed by up to this much (a sleeping laptop, a late cron run)
+// is still delivered; after that it is dropped
+export const REMINDER_GRACE_MINUTES = 15;
+
+const VAPID_PUBLIC_KEY: string | undefined = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const sortReminders = (reminders: HabitReminder[]) =>
+  [...reminders].sort((a, b) => toMinutes(a.time) - toMinutes(b.time));
+
+export const formatReminder = (reminder: HabitReminder) =>
+  reminder.days.length === 0 || reminder.days.length === 7
+    ? `${reminder.time} daily`
+    : `${reminder.time} ${[...reminder.days].sort().map((day) => WEEKDAY_LABELS[day]).join(', ')}`;
+
+/** Reminders that fall due on `day` at most `REMINDER_GRACE_MINUTES` before `time` */
+export const getDueReminders = (reminders: HabitReminder[], day: string, time: string) =>
+  reminders.filter((reminder) => {
+    const late = toMinutes(time) - toMinutes(reminder.time);
+    return (reminder.days.length === 0 || reminder.days.includes(dayOfWeek(day)))
+      && late >= 0
+      && late < REMINDER_GRACE_MINUTES;
+  });
+
+// A habit is done for the day, and its reminders skipped, once that local
+// day's check-ins reach its target
+export const isDoneForDay = (checkIns: number, targetCount: number) =>
+  checkIns >= Math.max(targetCount || 1, 1);
+
+export const reminderKey = (habitId: string, day: string, time: string) => `${habitId}:${day}:${time}`;
+
+export const isReminderSupported = () => isServiceWorkerSupported() && 'Notification' in window;
+
+const base64UrlToBytes = (value: string) => {
+  const padded = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+};
+
+export const getPushSubscription = async () => {
+  if (!isReminderSupported() || !('PushManager' in window)) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+// False when the browser handed out a subscription without its keys
+const storePushSubscription = async (subscription: PushSubscription) => {
+  const { endpoint, keys } = subscription.toJSON();
+  if (!endpoint || !keys?.p256dh || !keys?.auth) return false;
+
+  await savePushSubscription(endpoint, keys.p256dh, keys.auth);
+  return true;
+};
+
+/**
+ * Saves this browser's existing push subscription for the signed-in user,
+ * so reminders reach whoever is using a shared browser now.
+ */
+export const claimPushSubscription = async () => {
+  const subscription = await getPushSubscription();
+  if (subscription) await storePushSubscription(subscription);
+};
+
+export type ReminderDelivery = 'push' | 'local' | 'denied' | 'unsupported';
+
+/**
+ * Asks for notification permission and makes sure the service worker is
+ * registered. When `VITE_VAPID_PUBLIC_KEY` is configured the browser is also
+ * subscribed to Web Push, so the `send-reminders` edge function can reach it
+ * with the app closed; otherwise the open app shows reminders itself.
+ */
+export const enableReminders = async (): Promise<ReminderDelivery> => {
+  if (!isReminderSupported()) return 'unsupported';
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') return 'denied';
+
+  const registration = await registerServiceWorker();
+  if (!VAPID_PUBLIC_KEY || !('PushManager' in window)) return 'local';
+
+  try {
+    await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.getSubscription()
+      || await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: base64UrlToBytes(VAPID_PUBLIC_KEY),
+      });
+
+    return await storePushSubscription(subscription) ? 'push' : 'local';
+  } catch (error) {
+    console.error('Error subscribing to push reminders:', error);
+    return 'local';
+  }
+};
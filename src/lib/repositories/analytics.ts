@@ -0,0 +1,82 @@
+import { supabase } from '../supabase';
+import type { HabitStreak } from '../streaks';
+
+/**
+ * Aggregates computed in Postgres (see the `analytics_*` functions), so the
+ * Dashboard and Analytics tabs don't download the whole check-in history.
+ * Days are local `yyyy-MM-dd` strings in `timeZone`; ranges include both ends.
+ */
+
+/** Check-ins and target of each active habit's period containing `day` */
+export const listPeriodProgress = async (day: string, timeZone: string) => {
+  const { data, error } = await supabase.rpc('analytics_period_progress', {
+    p_day: day,
+    p_time_zone: timeZone,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+/** Number of habits that reached their target on each day */
+export const listDailyCounts = async (start: string, end: string, timeZone: string) => {
+  const { data, error } = await supabase.rpc('analytics_daily_counts', {
+    p_start: start,
+    p_end: end,
+    p_time_zone: timeZone,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+/** Check-ins per habit category, most first */
+export const listCategoryBreakdown = async (start: string, end: string, timeZone: string) => {
+  const { data, error } = await supabase.rpc('analytics_category_breakdown', {
+    p_start: start,
+    p_end: end,
+    p_time_zone: timeZone,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+/** Share of scheduled periods whose target was reached, as a whole percentage */
+export const getCompletionRate = async (start: string, end: string, timeZone: string) => {
+  const { data, error } = await supabase.rpc('analytics_completion_rate', {
+    p_start: start,
+    p_end: end,
+    p_time_zone: timeZone,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export interface StreakTotals {
+  habits: HabitStreak[];
+  /** Consecutive days on which at least one habit reached its target */
+  current: number;
+  longest: number;
+}
+
+export const getStreaks = async (timeZone: string): Promise<StreakTotals> => {
+  const [habits, overall] = await Promise.all([
+    supabase.rpc('analytics_habit_streaks', { p_time_zone: timeZone }),
+    supabase.rpc('analytics_overall_streak', { p_time_zone: timeZone }),
+  ]);
+
+  if (habits.error) throw habits.error;
+  if (overall.error) throw overall.error;
+  return {
+    habits: habits.data.map((streak) => ({
+      habitId: streak.habit_id,
+      current: streak.current_streak,
+      longest: streak.longest_streak,
+      unit: streak.unit,
+    })),
+    current: overall.data[0]?.current_streak ?? 0,
+    longest: overall.data[0]?.longest_streak ?? 0,
+  };
+};
@@ -0,0 +1,273 @@
+import { Database, supabase, Tables, TablesUpdate } from '../supabase';
+import { localToday } from '../localDay';
+
+type Functions = Database['public']['Functions'];
+
+export type Challenge = Tables<'challenges'>;
+export type ChallengeInsert = Functions['create_challenge']['Args']['p_challenge'];
+/** What creators can change; the start date and scoring are fixed once the challenge starts */
+export type ChallengeUpdate = Pick<
+  TablesUpdate<'challenges'>,
+  'title' | 'description' | 'start_date' | 'end_date' | 'max_participants' | 'scoring_mode' | 'visibility' | 'requires_approval'
+>;
+export type ChallengeResult = Tables<'challenge_results'>;
+export type ChallengeParticipant = Tables<'challenge_participants'>;
+export type ChallengeHabit = Tables<'challenge_habits'>;
+export type ChallengeHabitInsert = Functions['create_challenge']['Args']['p_habits'][number];
+export type ChallengeProgress = Functions['challenge_progress']['Returns'][number];
+export type ChallengeAvailability = Functions['challenge_availability']['Returns'][number];
+export type LeaderboardEntry = Functions['challenge_leaderboard']['Returns'][number];
+export type JoinRequest = Functions['list_challenge_join_requests']['Returns'][number];
+
+// A challenge is over once its end date is over everywhere, as in `challenge_has_ended`
+const LAST_TIME_ZONE = 'Etc/GMT+12';
+
+/** Public challenges plus the private ones the user created or joined */
+export const listActiveChallenges = async () => {
+  const { data, error } = await supabase
+    .from('challenges')
+    .select('*')
+    .eq('is_active', true)
+    .gte('end_date', localToday(LAST_TIME_ZONE))
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Ended and cancelled challenges the user can see, most recent first.
+ * Archived ones are left out. Challenges that have just ended are closed
+ * first, so their final results are there.
+ */
+export const listPastChallenges = async () => {
+  const { error: closeError } = await supabase.rpc('close_ended_challenges');
+  if (closeError) throw closeError;
+
+  const { data, error } = await supabase
+    .from('challenges')
+    .select('*')
+    .eq('is_active', false)
+    .is('archived_at', null)
+    .order('end_date', { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
+
+/** A single challenge, or null if it doesn't exist or isn't visible */
+export const getChallenge = async (id: string) => {
+  const { data, error } = await supabase
+    .from('challenges')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/** Participant and waitlist counts for each challenge, keyed by challenge id */
+export const listChallengeAvailability = async (challengeIds: string[]) => {
+  if (challengeIds.length === 0) return new Map<string, ChallengeAvailability>();
+
+  const { data, error } = await supabase.rpc('challenge_availability', { p_challenge_ids: challengeIds });
+  if (error) throw error;
+  return new Map(data.map((availability) => [availability.challenge_id, availability]));
+};
+
+/** Ids of the challenges the user has joined */
+export const listJoinedChallengeIds = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('challenge_participants')
+    .select('challenge_id')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return data.map((participant) => participant.challenge_id);
+};
+
+/** The target habits of a challenge, in the order the creator listed them */
+export const listChallengeHabits = async (challengeId: string) => {
+  const { data, error } = await supabase
+    .from('challenge_habits')
+    .select('*')
+    .eq('challenge_id', challengeId)
+    .order('position');
+
+  if (error) throw error;
+  return data;
+};
+
+/** Creates the challenge and its target habits together; the caller is the creator */
+export const createChallenge = async (challenge: ChallengeInsert, habits: ChallengeHabitInsert[]) => {
+  const { data, error } = await supabase.rpc('create_challenge', { p_challenge: challenge, p_habits: habits });
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Joins as the signed-in user. Each target habit is tracked by the existing
+ * habit `links` maps it to, or by a new habit created from its rule. Private
+ * challenges need their invite code. A full challenge puts the user on its
+ * waitlist instead, and one that needs approval files a request; either way
+ * they join with the same links later.
+ */
+export const joinChallenge = async (
+  challengeId: string,
+  links: Record<string, string> = {},
+  inviteCode: string | null = null
+) => {
+  const { data, error } = await supabase.rpc('join_challenge', {
+    p_challenge_id: challengeId,
+    p_links: links,
+    p_invite_code: inviteCode,
+  });
+  if (error) throw error;
+  return data;
+};
+
+/** The challenge an invite code belongs to, or null if it's unknown or no longer active */
+export const getChallengeInvite = async (inviteCode: string) => {
+  const { data, error } = await supabase.rpc('get_challenge_invite', { p_invite_code: inviteCode });
+  if (error) throw error;
+  return data[0] ?? null;
+};
+
+export const listChallengeInviteHabits = async (inviteCode: string) => {
+  const { data, error } = await supabase.rpc('list_challenge_invite_habits', { p_invite_code: inviteCode });
+  if (error) throw error;
+  return data;
+};
+
+/** Replaces the invite code, so old invite links stop working. Creator only */
+export const resetChallengeInviteCode = async (challengeId: string) => {
+  const { data, error } = await supabase.rpc('reset_challenge_invite_code', { p_challenge_id: challengeId });
+  if (error) throw error;
+  return data;
+};
+
+/** Pending join requests, oldest first. Creator only */
+export const listChallengeJoinRequests = async (challengeId: string) => {
+  const { data, error } = await supabase.rpc('list_challenge_join_requests', { p_challenge_id: challengeId });
+  if (error) throw error;
+  return data;
+};
+
+export const respondToJoinRequest = async (requestId: string, approve: boolean) => {
+  const { data, error } = await supabase.rpc('respond_to_join_request', {
+    p_request_id: requestId,
+    p_approve: approve,
+  });
+  if (error) throw error;
+  return data;
+};
+
+export const withdrawJoinRequest = async (challengeId: string, userId: string) => {
+  const { error } = await supabase
+    .from('challenge_join_requests')
+    .delete()
+    .eq('challenge_id', challengeId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
+
+/** Every participant's progress on each target habit, from check-ins within the challenge dates */
+export const listChallengeProgress = async (challengeId: string) => {
+  const { data, error } = await supabase.rpc('challenge_progress', { p_challenge_id: challengeId });
+  if (error) throw error;
+  return data;
+};
+
+/** Creator only. Ended and cancelled challenges can't be edited */
+export const updateChallenge = async (challengeId: string, changes: ChallengeUpdate) => {
+  const { error } = await supabase.from('challenges').update(changes).eq('id', challengeId);
+  if (error) throw error;
+};
+
+/** Ends the challenge early for everyone; the standings so far become final. Creator only */
+export const cancelChallenge = async (challengeId: string) => {
+  const { error } = await supabase.rpc('cancel_challenge', { p_challenge_id: challengeId });
+  if (error) throw error;
+};
+
+/** Hides an ended or cancelled challenge from the past challenges list, or brings it back. Creator only */
+export const setChallengeArchived = async (challengeId: string, archived: boolean) => {
+  const { error } = await supabase
+    .from('challenges')
+    .update({ archived_at: archived ? new Date().toISOString() : null })
+    .eq('id', challengeId);
+
+  if (error) throw error;
+};
+
+/** Final standings of closed challenges, best rank first */
+export const listChallengeResults = async (challengeIds: string[]) => {
+  if (challengeIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('challenge_results')
+    .select('*')
+    .in('challenge_id', challengeIds)
+    .order('rank');
+
+  if (error) throw error;
+  return data;
+};
+
+export const leaveChallengeWaitlist = async (challengeId: string, userId: string) => {
+  const { error } = await supabase
+    .from('challenge_waitlist')
+    .delete()
+    .eq('challenge_id', challengeId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
+
+/** Leaves a challenge; creators can also remove other participants with it */
+export const leaveChallenge = async (challengeId: string, userId: string) => {
+  const { error } = await supabase
+    .from('challenge_participants')
+    .delete()
+    .eq('challenge_id', challengeId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
+
+/**
+ * Ranked standings: live while the challenge runs, final once it has ended.
+ * See `challenge_standings` for the scoring modes and tie-breakers.
+ */
+export const listChallengeLeaderboard = async (challengeId: string) => {
+  const { data, error } = await supabase.rpc('challenge_leaderboard', { p_challenge_id: challengeId });
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Calls `onChange` whenever a participant checks in, joins or leaves.
+ * Returns an unsubscribe function.
+ */
+export const subscribeToChallengeScores = (challengeId: string, onChange: () => void) => {
+  const channel = supabase
+    .channel(`challenge-scores:${challengeId}`)
+    .on<Challenge>(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'challenges', filter: `id=eq.${challengeId}` },
+      () => onChange()
+    )
+    // Check-ins touch the participant's own row rather than the challenge
+    .on<ChallengeParticipant>(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'challenge_participants', filter: `challenge_id=eq.${challengeId}` },
+      () => onChange()
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
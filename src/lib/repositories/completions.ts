@@ -0,0 +1,128 @@
+import { supabase, Tables, TablesInsert, TablesUpdate } from '../supabase';
+
+export type Completion = Tables<'habit_completions'>;
+export type CompletionInsert = TablesInsert<'habit_completions'>;
+export type CompletionUpdate = TablesUpdate<'habit_completions'>;
+export type CompletionEvent = Tables<'habit_completion_events'>;
+
+/** Every check-in the user has made, for streaks and targets */
+export const listCompletionHistory = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('habit_completions')
+    .select('id, habit_id, completed_at')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return data;
+};
+
+/** Check-ins for the given habits in `[start, end)` */
+export const listCompletionsBetween = async (habitIds: string[], start: string, end: string) => {
+  const { data, error } = await supabase
+    .from('habit_completions')
+    .select('habit_id, completed_at')
+    .in('habit_id', habitIds)
+    .gte('completed_at', start)
+    .lt('completed_at', end);
+
+  if (error) throw error;
+  return data;
+};
+
+/** A habit's check-ins, oldest first */
+export const listHabitCompletions = async (habitId: string) => {
+  const { data, error } = await supabase
+    .from('habit_completions')
+    .select('id, habit_id, completed_at, notes, mood_rating, backfill_flagged')
+    .eq('habit_id', habitId)
+    .order('completed_at', { ascending: true });
+
+  if (error) throw error;
+  return data;
+};
+
+export const listRecentHabitCompletions = async (habitId: string, limit = 20) => {
+  const { data, error } = await supabase
+    .from('habit_completions')
+    .select('id, completed_at, proof_image_url')
+    .eq('habit_id', habitId)
+    .order('completed_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data;
+};
+
+/** The user's check-ins that have a proof photo, newest first */
+export const listProofCompletions = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('habit_completions')
+    .select(`
+      *,
+      habits (
+        title,
+        icon,
+        color
+      )
+    `)
+    .eq('user_id', userId)
+    .not('proof_image_url', 'is', null)
+    .order('completed_at', { ascending: false });
+
+  if (error) throw error;
+  return data.filter((completion): completion is typeof completion & { proof_image_url: string } =>
+    completion.proof_image_url !== null
+  );
+};
+
+export type ProofCompletion = Awaited<ReturnType<typeof listProofCompletions>>[number];
+
+export const listCompletionEvents = async (habitId: string, limit = 10) => {
+  const { data, error } = await supabase
+    .from('habit_completion_events')
+    .select('*')
+    .eq('habit_id', habitId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data;
+};
+
+/** Inserts a check-in and returns its id */
+export const createCompletion = async (completion: CompletionInsert) => {
+  const { data, error } = await supabase
+    .from('habit_completions')
+    .insert(completion)
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
+
+/** Inserts a check-in with a client-generated id; a retried insert is a no-op */
+export const createCompletionOnce = async (completion: CompletionInsert & { id: string }) => {
+  const { error } = await supabase
+    .from('habit_completions')
+    .upsert(completion, { onConflict: 'id', ignoreDuplicates: true });
+
+  if (error) throw error;
+};
+
+/** Returns whether the check-in still existed */
+export const updateCompletion = async (id: string, changes: CompletionUpdate) => {
+  const { data, error } = await supabase
+    .from('habit_completions')
+    .update(changes)
+    .eq('id', id)
+    .select('id');
+
+  if (error) throw error;
+  return data.length > 0;
+};
+
+export const deleteCompletion = async (id: string) => {
+  const { error } = await supabase.from('habit_completions').delete().eq('id', id);
+  if (error) throw error;
+};
@@ -0,0 +1,39 @@
+import { supabase, Tables, TablesInsert } from '../supabase';
+
+export type Goal = Tables<'goals'>;
+export type GoalInsert = TablesInsert<'goals'>;
+export type GoalWithHabitIds = Goal & { habits: { id: string }[] };
+
+export const listGoals = async (userId: string): Promise<GoalWithHabitIds[]> => {
+  const { data, error } = await supabase
+    .from('goals')
+    .select('*, habits (id)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
+
+/** Inserts a goal and returns its id */
+export const createGoal = async (goal: GoalInsert) => {
+  const { data, error } = await supabase
+    .from('goals')
+    .insert(goal)
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
+
+/** Archiving also deactivates the goal's habits (see sync_goal_habits) */
+export const updateGoalStatus = async (id: string, status: Goal['status']) => {
+  const { error } = await supabase.from('goals').update({ status }).eq('id', id);
+  if (error) throw error;
+};
+
+export const deleteGoal = async (id: string) => {
+  const { error } = await supabase.from('goals').delete().eq('id', id);
+  if (error) throw error;
+};
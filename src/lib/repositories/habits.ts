@@ -0,0 +1,114 @@
+import { supabase, Database, Tables, TablesInsert, TablesUpdate } from '../supabase';
+import type { Completion } from './completions';
+
+export type Habit = Tables<'habits'>;
+export type HabitInsert = TablesInsert<'habits'>;
+export type HabitUpdate = TablesUpdate<'habits'>;
+
+export type HabitCompletionSummary = Pick<Completion, 'id' | 'habit_id' | 'completed_at' | 'mood_rating'>;
+export type HabitWithCompletions = Habit & { completions: HabitCompletionSummary[] };
+export type GoalHabit = Habit & { completions: Pick<Completion, 'habit_id' | 'completed_at'>[] };
+
+export type TemplateHabitInput = Database['public']['Functions']['apply_habit_template']['Args']['p_habits'][number];
+
+/** The user's active habits, newest first unless `order` is `oldest` */
+export const listActiveHabits = async (userId: string, order: 'newest' | 'oldest' = 'newest') => {
+  const { data, error } = await supabase
+    .from('habits')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .order('created_at', { ascending: order === 'oldest' });
+
+  if (error) throw error;
+  return data;
+};
+
+export const listActiveHabitsWithCompletions = async (userId: string): Promise<HabitWithCompletions[]> => {
+  const { data, error } = await supabase
+    .from('habits')
+    .select(`
+      *,
+      completions:habit_completions (
+        id,
+        habit_id,
+        completed_at,
+        mood_rating
+      )
+    `)
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
+
+/** Every habit generated for a goal, including paused ones, oldest first */
+export const listGoalHabits = async (goalId: string): Promise<GoalHabit[]> => {
+  const { data, error } = await supabase
+    .from('habits')
+    .select(`
+      *,
+      completions:habit_completions (
+        habit_id,
+        completed_at
+      )
+    `)
+    .eq('goal_id', goalId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data;
+};
+
+/** Active habits with at least one reminder set */
+export const listReminderHabits = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('habits')
+    .select('id, title, icon, target_count, reminders')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .filter('reminders', 'neq', '[]');
+
+  if (error) throw error;
+  return data;
+};
+
+export const createHabits = async (habits: HabitInsert[]) => {
+  const { error } = await supabase.from('habits').insert(habits);
+  if (error) throw error;
+};
+
+/** Inserts a habit with a client-generated id; a retried insert is a no-op */
+export const createHabitOnce = async (habit: HabitInsert & { id: string }) => {
+  const { error } = await supabase
+    .from('habits')
+    .upsert(habit, { onConflict: 'id', ignoreDuplicates: true });
+
+  if (error) throw error;
+};
+
+/**
+ * Updates a habit. With `baseUpdatedAt`, only applies if the habit hasn't
+ * changed since that version was loaded. Returns whether a row was updated.
+ */
+export const updateHabit = async (id: string, changes: HabitUpdate, baseUpdatedAt?: string | null) => {
+  let query = supabase.from('habits').update(changes).eq('id', id);
+  if (baseUpdatedAt) query = query.lte('updated_at', baseUpdatedAt);
+
+  const { data, error } = await query.select('id');
+  if (error) throw error;
+  return data.length > 0;
+};
+
+/** Creates a template's habits and pauses the ones they replace in one transaction */
+export const applyHabitTemplate = async (habits: TemplateHabitInput[], pauseHabitIds: string[]) => {
+  const { data, error } = await supabase.rpc('apply_habit_template', {
+    p_habits: habits,
+    p_pause_habit_ids: pauseHabitIds,
+  });
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,58 @@
+import { supabase, Tables } from '../supabase';
+
+export type MoodEntry = Tables<'mood_entries'>;
+
+interface DayBounds {
+  start: string;
+  end: string;
+}
+
+export const listMoodEntries = async (userId: string, limit = 30) => {
+  const { data, error } = await supabase
+    .from('mood_entries')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data;
+};
+
+/** The entry recorded within `bounds` (one local day), if any */
+export const getMoodEntryForDay = async (userId: string, bounds: DayBounds) => {
+  const { data, error } = await supabase
+    .from('mood_entries')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('created_at', bounds.start)
+    .lt('created_at', bounds.end)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Records the mood for a local day. There's one entry per day, so saving
+ * again replaces the rating and reflection of the existing entry.
+ */
+export const saveMoodEntry = async (
+  userId: string,
+  bounds: DayBounds,
+  entry: { mood_rating: number; reflection: string | null; created_at?: string }
+) => {
+  const existing = await getMoodEntryForDay(userId, bounds);
+
+  const { error } = existing
+    ? await supabase
+      .from('mood_entries')
+      .update({ mood_rating: entry.mood_rating, reflection: entry.reflection })
+      .eq('id', existing.id)
+    : await supabase
+      .from('mood_entries')
+      .insert({ user_id: userId, ...entry });
+
+  if (error) throw error;
+};
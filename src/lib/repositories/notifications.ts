@@ -0,0 +1,64 @@
+import { supabase, Tables, TablesInsert } from '../supabase';
+
+export type AppNotification = Tables<'notifications'>;
+export type AppNotificationInsert = TablesInsert<'notifications'>;
+
+export interface NotificationHandlers {
+  onInsert: (notification: AppNotification) => void;
+  onUpdate: (notification: AppNotification) => void;
+  onDelete: (id: string) => void;
+}
+
+export const listNotifications = async (userId: string, limit: number) => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data;
+};
+
+/** Inserts notifications, skipping any whose `dedupe_key` the user already has */
+export const createNotifications = async (notifications: AppNotificationInsert[]) => {
+  const { error } = await supabase
+    .from('notifications')
+    .upsert(notifications, { onConflict: 'user_id,dedupe_key', ignoreDuplicates: true });
+
+  if (error) throw error;
+};
+
+export const markNotificationsRead = async (ids: string[]) => {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ is_read: true })
+    .in('id', ids);
+
+  if (error) throw error;
+};
+
+/** Streams changes to the user's notifications. Returns an unsubscribe function */
+export const subscribeToNotifications = (userId: string, handlers: NotificationHandlers) => {
+  const channel = supabase
+    .channel(`notifications:${userId}`)
+    .on<AppNotification>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+      (payload) => {
+        if (payload.eventType === 'INSERT') {
+          handlers.onInsert(payload.new);
+        } else if (payload.eventType === 'UPDATE') {
+          handlers.onUpdate(payload.new);
+        } else if (payload.eventType === 'DELETE' && payload.old.id) {
+          handlers.onDelete(payload.old.id);
+        }
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
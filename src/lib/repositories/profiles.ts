@@ -0,0 +1,40 @@
+import { supabase, Tables, TablesUpdate } from '../supabase';
+
+export type Profile = Tables<'profiles'>;
+export type ProfileUpdate = TablesUpdate<'profiles'>;
+
+export const getProfile = async (id: string) => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/** Profiles by id. RLS only returns the ones the user may see */
+export const listProfiles = async (ids: string[]) => {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, username, full_name')
+    .in('id', ids);
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateProfile = async (id: string, updates: ProfileUpdate) => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,16 @@
+import { supabase } from '../supabase';
+
+/**
+ * Stores this browser's push subscription for the signed-in user;
+ * re-subscribing refreshes its keys, and a subscription saved by someone
+ * who used the browser before moves to the new user.
+ */
+export const savePushSubscription = async (endpoint: string, p256dh: string, auth: string) => {
+  const { error } = await supabase.rpc('save_push_subscription', {
+    p_endpoint: endpoint,
+    p_p256dh: p256dh,
+    p_auth: auth,
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,82 @@
+import { supabase, TablesInsert } from '../supabase';
+import type { HabitTemplate } from '../templates';
+
+export type HabitTemplateInsert = TablesInsert<'habit_templates'>;
+
+/** `builtin` ships with the app, `community` is other users' published templates */
+export type TemplateScope = 'builtin' | 'community' | 'mine';
+
+// PostgREST filter syntax uses these characters, so they are dropped from search terms
+const sanitizeSearch = (term: string) => term.replace(/[%,()*\\]/g, ' ').trim();
+
+/** Templates in `scope` whose name or description contains `search` */
+export const listTemplates = async (userId: string, scope: TemplateScope, search = ''): Promise<HabitTemplate[]> => {
+  let query = supabase.from('habit_templates').select('*');
+
+  if (scope === 'builtin') {
+    query = query.eq('is_builtin', true).order('name');
+  } else if (scope === 'community') {
+    query = query
+      .eq('is_public', true)
+      .eq('is_builtin', false)
+      .neq('creator_id', userId)
+      .order('rating_total', { ascending: false })
+      .order('created_at', { ascending: false });
+  } else {
+    query = query.eq('creator_id', userId).order('created_at', { ascending: false });
+  }
+
+  const term = sanitizeSearch(search);
+  if (term) {
+    query = query.or(`name.ilike.%${term}%,description.ilike.%${term}%`);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+};
+
+/** The user's ratings of the given templates, keyed by template id */
+export const getMyTemplateRatings = async (userId: string, templateIds: string[]) => {
+  if (templateIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('habit_template_ratings')
+    .select('template_id, rating')
+    .eq('user_id', userId)
+    .in('template_id', templateIds);
+
+  if (error) throw error;
+  return Object.fromEntries(data.map((rating) => [rating.template_id, rating.rating])) as Record<string, number>;
+};
+
+/** Rating again replaces the user's previous rating */
+export const rateTemplate = async (templateId: string, userId: string, rating: number) => {
+  const { error } = await supabase
+    .from('habit_template_ratings')
+    .upsert(
+      { template_id: templateId, user_id: userId, rating },
+      { onConflict: 'template_id,user_id' }
+    );
+
+  if (error) throw error;
+};
+
+export const createTemplate = async (template: HabitTemplateInsert) => {
+  const { error } = await supabase.from('habit_templates').insert(template);
+  if (error) throw error;
+};
+
+export const setTemplatePublished = async (id: string, isPublic: boolean) => {
+  const { error } = await supabase
+    .from('habit_templates')
+    .update({ is_public: isPublic })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const deleteTemplate = async (id: string) => {
+  const { error } = await supabase.from('habit_templates').delete().eq('id', id);
+  if (error) throw error;
+};
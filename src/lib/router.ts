@@ -0,0 +1,70 @@
+/**
+ * Client-side routing on the History API. The current location is a small
+ * external store, like the query cache, so components read it with
+ * `useLocation` and change it with `navigate`; the back button and deep
+ * links work because every screen has a real URL.
+ */
+
+import type { MouseEvent } from 'react';
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+window.addEventListener('popstate', notify);
+
+/** Path plus query string, e.g. `/login?redirect=%2Fhabits` */
+export const getLocation = () => window.location.pathname + window.location.search;
+
+export const subscribeLocation = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const navigate = (to: string, { replace = false }: { replace?: boolean } = {}) => {
+  if (to === getLocation()) return;
+
+  if (replace) {
+    window.history.replaceState(null, '', to);
+  } else {
+    window.history.pushState(null, '', to);
+  }
+  notify();
+};
+
+/**
+ * Matches `pathname` against a pattern such as `/habits/:id`, returning the
+ * decoded params, or null if it doesn't match. Trailing slashes are ignored.
+ */
+export const matchPath = (pattern: string, pathname: string): Record<string, string> | null => {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = pathname.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let index = 0; index < patternParts.length; index++) {
+    const part = patternParts[index];
+    if (part.startsWith(':')) {
+      params[part.slice(1)] = decodeURIComponent(pathParts[index]);
+    } else if (part !== pathParts[index]) {
+      return null;
+    }
+  }
+  return params;
+};
+
+/**
+ * Click handler for `<a href>` elements inside the app: navigates without a
+ * page load, but leaves modified clicks (new tab, new window) to the browser.
+ */
+export const followLink = (event: MouseEvent<HTMLAnchorElement>, to: string) => {
+  if (event.defaultPrevented || event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) {
+    return;
+  }
+  event.preventDefault();
+  navigate(to);
+};
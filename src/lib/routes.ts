@@ -0,0 +1,31 @@
+/** URLs of the app's screens; build links with these rather than by hand */
+export const paths = {
+  dashboard: '/',
+  login: '/login',
+  habits: '/habits',
+  habit: (habitId: string) => `/habits/${encodeURIComponent(habitId)}`,
+  goals: '/goals',
+  analytics: '/analytics',
+  mood: '/mood',
+  challenges: '/challenges',
+  challenge: (challengeId: string) => `/challenges/${encodeURIComponent(challengeId)}`,
+  challengeInvite: (inviteCode: string) => `/challenges/join/${encodeURIComponent(inviteCode)}`,
+  proof: '/proof',
+  proofEntry: (completionId: string) => `/proof/${encodeURIComponent(completionId)}`,
+  templates: '/templates',
+};
+
+/** The login page, returning to `from` once signed in */
+export const loginPath = (from: string) =>
+  from === paths.dashboard ? paths.login : `${paths.login}?redirect=${encodeURIComponent(from)}`;
+
+/**
+ * Where to go after signing in. Only same-origin paths are followed, so a
+ * crafted link can't redirect elsewhere.
+ */
+export const getRedirectTarget = (search: string) => {
+  const target = new URLSearchParams(search).get('redirect');
+  return target && target.startsWith('/') && !target.startsWith('//') ? target : paths.dashboard;
+};
+
+export const shareUrl = (path: string) => new URL(path, window.location.origin).href;
@@ -0,0 +1,136 @@
+import type { Database } from './supabase';
+import { addDaysToDay, dayOfWeek, diffDays, startOfLocalWeek, toLocalDay } from './localDay';
+
+type HabitRow = Database['public']['Tables']['habits']['Row'];
+
+export type HabitFrequency = HabitRow['frequency'];
+export type ScheduleHabit = Pick<
+  HabitRow,
+  'frequency' | 'target_count' | 'schedule_days' | 'schedule_interval' | 'created_at'
+>;
+
+export type PeriodUnit = 'day' | 'week' | 'month' | 'cycle';
+
+/**
+ * How a schedule slices time into periods. Every check-in falls into the
+ * period `key(day)`; `shift` moves between consecutive scheduled periods so
+ * rest days never break a streak.
+ */
+export interface PeriodScale {
+  unit: PeriodUnit;
+  key: (day: string) => string;
+  shift: (day: string, amount: number) => string;
+  isScheduled: (day: string) => boolean;
+}
+
+export const FREQUENCY_OPTIONS: { value: HabitFrequency; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekdays', label: 'Specific weekdays' },
+  { value: 'times_per_week', label: 'N times per week' },
+  { value: 'every_n_days', label: 'Every N days' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const DAY_SCALE: PeriodScale = {
+  unit: 'day',
+  key: (day) => day,
+  shift: addDaysToDay,
+  isScheduled: () => true,
+};
+
+const WEEK_SCALE: PeriodScale = {
+  unit: 'week',
+  key: startOfLocalWeek,
+  shift: (day, amount) => addDaysToDay(day, amount * 7),
+  isScheduled: () => true,
+};
+
+const MONTH_SCALE: PeriodScale = {
+  unit: 'month',
+  key: (day) => `${day.slice(0, 7)}-01`,
+  shift: (day, amount) => {
+    const [year, month] = day.split('-').map(Number);
+    const total = year * 12 + (month - 1) + amount;
+    return `${Math.floor(total / 12)}-${pad((total % 12) + 1)}-01`;
+  },
+  isScheduled: () => true,
+};
+
+const weekdayScale = (weekdays: number[]): PeriodScale => {
+  const isScheduled = (day: string) => weekdays.includes(dayOfWeek(day));
+  return {
+    unit: 'day',
+    key: (day) => day,
+    // Step over rest days one at a time; a week always has a scheduled day
+    shift: (day, amount) => {
+      const direction = Math.sign(amount);
+      let cursor = day;
+      for (let remaining = Math.abs(amount); remaining > 0; remaining--) {
+        do {
+          cursor = addDaysToDay(cursor, direction);
+        } while (!isScheduled(cursor));
+      }
+      return cursor;
+    },
+    isScheduled,
+  };
+};
+
+// Consecutive N-day windows counted from the day the habit was created
+const intervalScale = (interval: number, anchor: string): PeriodScale => ({
+  unit: 'cycle',
+  key: (day) => addDaysToDay(anchor, Math.floor(diffDays(day, anchor) / interval) * interval),
+  shift: (day, amount) => addDaysToDay(day, amount * interval),
+  isScheduled: () => true,
+});
+
+const getInterval = (habit: Pick<ScheduleHabit, 'schedule_interval'>) =>
+  Math.max(habit.schedule_interval || 1, 1);
+
+export const getScale = (habit: ScheduleHabit, timeZone: string): PeriodScale => {
+  switch (habit.frequency) {
+    case 'weekdays': {
+      const weekdays = (habit.schedule_days || []).filter((day) => day >= 0 && day <= 6);
+      return weekdays.length > 0 ? weekdayScale(weekdays) : DAY_SCALE;
+    }
+    case 'weekly':
+    case 'times_per_week':
+      return WEEK_SCALE;
+    case 'every_n_days':
+      return intervalScale(getInterval(habit), toLocalDay(habit.created_at, timeZone));
+    case 'monthly':
+      return MONTH_SCALE;
+    default:
+      return DAY_SCALE;
+  }
+};
+
+/**
+ * Check-ins needed to complete one period: `target_count`, times the number
+ * of sessions for "N times per week" habits.
+ */
+export const getRequiredCheckIns = (habit: Pick<ScheduleHabit, 'frequency' | 'target_count' | 'schedule_interval'>) => {
+  const target = Math.max(habit.target_count || 1, 1);
+  return habit.frequency === 'times_per_week' ? target * getInterval(habit) : target;
+};
+
+export const describeSchedule = (habit: Pick<ScheduleHabit, 'frequency' | 'schedule_days' | 'schedule_interval'>) => {
+  switch (habit.frequency) {
+    case 'weekdays':
+      return [...(habit.schedule_days || [])]
+        .sort()
+        .map((day) => WEEKDAY_LABELS[day])
+        .join(', ') || 'daily';
+    case 'times_per_week':
+      return `${getInterval(habit)}× per week`;
+    case 'every_n_days':
+      return getInterval(habit) === 1 ? 'daily' : `every ${getInterval(habit)} days`;
+    default:
+      return habit.frequency;
+  }
+};
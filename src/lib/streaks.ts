@@ -0,0 +1,94 @@
+import { toLocalDay } from './localDay';
+import { buildHistories, ProgressCompletion, ProgressHabit } from './habitProgress';
+import { DAY_SCALE, PeriodScale, PeriodUnit } from './schedules';
+
+export type StreakHabit = ProgressHabit;
+export type StreakCompletion = ProgressCompletion;
+
+export interface HabitStreak {
+  habitId: string;
+  current: number;
+  longest: number;
+  unit: PeriodUnit;
+}
+
+export interface StreakSummary {
+  current: number;
+  longest: number;
+  byHabit: Record<string, HabitStreak>;
+}
+
+// Length of the run of achieved periods ending now. The period in progress
+// does not break a streak until it is over, so we fall back one period.
+// Check-ins on rest days don't count, as in `analytics_habit_streaks`.
+const currentRun = (achieved: Set<string>, scale: PeriodScale, today: string) => {
+  let cursor = today;
+  if (!scale.isScheduled(cursor) || !achieved.has(scale.key(cursor))) {
+    cursor = scale.shift(cursor, -1);
+  }
+
+  let length = 0;
+  while (achieved.has(scale.key(cursor))) {
+    length++;
+    cursor = scale.shift(cursor, -1);
+  }
+  return length;
+};
+
+const longestRun = (achieved: Set<string>, scale: PeriodScale) => {
+  let longest = 0;
+  achieved.forEach((period) => {
+    // Only walk forward from the first scheduled period of each run
+    if (!scale.isScheduled(period) || achieved.has(scale.key(scale.shift(period, -1)))) return;
+
+    let length = 0;
+    let cursor = period;
+    while (achieved.has(scale.key(cursor))) {
+      length++;
+      cursor = scale.shift(cursor, 1);
+    }
+    longest = Math.max(longest, length);
+  });
+  return longest;
+};
+
+/**
+ * Computes current and longest streaks per habit and overall.
+ *
+ * A habit's streak counts consecutive achieved periods of its schedule, so
+ * rest days of a weekday schedule are skipped rather than breaking it, and
+ * check-ins on them don't extend it. A period counts once it has its
+ * required check-ins. The overall streak is the number of consecutive days
+ * on which at least one habit reached its target.
+ * Days are local to `timeZone`.
+ */
+export const calculateStreaks = (
+  habits: StreakHabit[],
+  completions: StreakCompletion[],
+  timeZone: string,
+  now: Date = new Date()
+): StreakSummary => {
+  const byHabit: Record<string, HabitStreak> = {};
+  const activeDays = new Set<string>();
+  const today = toLocalDay(now, timeZone);
+
+  buildHistories(habits, completions, timeZone).forEach(({ habit, scale, achieved, achievedDays }) => {
+    achievedDays.forEach((day) => activeDays.add(day));
+
+    byHabit[habit.id] = {
+      habitId: habit.id,
+      current: currentRun(achieved, scale, today),
+      longest: longestRun(achieved, scale),
+      unit: scale.unit,
+    };
+  });
+
+  return {
+    current: currentRun(activeDays, DAY_SCALE, today),
+    longest: longestRun(activeDays, DAY_SCALE),
+    byHabit,
+  };
+};
+
+export const formatStreak = (streak: Pick<HabitStreak, 'current' | 'unit'>) =>
+  `${streak.current} ${streak.unit}${streak.current === 1 ? '' : 's'}`;
@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
+import type { TemplateHabit } from './templates';
+import type { HabitReminder } from './reminders';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -7,7 +9,7 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables. Please check your .env file.');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
   auth: {
     autoRefreshToken: true,
     persistSession: true,
@@ -33,6 +35,7 @@ export type Database = {
           updated_at: string;
           is_cse_student: boolean;
           year_of_study: number | null;
+          timezone: string | null;
         };
         Insert: {
           id: string;
@@ -43,6 +46,7 @@ export type Database = {
           updated_at?: string;
           is_cse_student?: boolean;
           year_of_study?: number | null;
+          timezone?: string | null;
         };
         Update: {
           id?: string;
@@ -53,7 +57,9 @@ export type Database = {
           updated_at?: string;
           is_cse_student?: boolean;
           year_of_study?: number | null;
+          timezone?: string | null;
         };
+        Relationships: [];
       };
       habits: {
         Row: {
@@ -62,14 +68,20 @@ export type Database = {
           title: string;
           description: string | null;
           category: string;
-          frequency: 'daily' | 'weekly';
+          frequency: 'daily' | 'weekly' | 'weekdays' | 'times_per_week' | 'every_n_days' | 'monthly';
           target_count: number;
+          schedule_days: number[] | null;
+          schedule_interval: number | null;
           difficulty: 'easy' | 'medium' | 'hard';
           is_active: boolean;
           created_at: string;
           updated_at: string;
           icon: string;
           color: string;
+          goal_id: string | null;
+          paused_by_goal: boolean;
+          challenge_habit_id: string | null;
+          reminders: HabitReminder[];
         };
         Insert: {
           id?: string;
@@ -77,14 +89,20 @@ export type Database = {
           title: string;
           description?: string | null;
           category: string;
-          frequency: 'daily' | 'weekly';
+          frequency: 'daily' | 'weekly' | 'weekdays' | 'times_per_week' | 'every_n_days' | 'monthly';
           target_count?: number;
+          schedule_days?: number[] | null;
+          schedule_interval?: number | null;
           difficulty: 'easy' | 'medium' | 'hard';
           is_active?: boolean;
           created_at?: string;
           updated_at?: string;
           icon: string;
           color: string;
+          goal_id?: string | null;
+          paused_by_goal?: boolean;
+          challenge_habit_id?: string | null;
+          reminders?: HabitReminder[];
         };
         Update: {
           id?: string;
@@ -92,15 +110,67 @@ export type Database = {
           title?: string;
           description?: string | null;
           category?: string;
-          frequency?: 'daily' | 'weekly';
+          frequency?: 'daily' | 'weekly' | 'weekdays' | 'times_per_week' | 'every_n_days' | 'monthly';
           target_count?: number;
+          schedule_days?: number[] | null;
+          schedule_interval?: number | null;
           difficulty?: 'easy' | 'medium' | 'hard';
           is_active?: boolean;
           created_at?: string;
           updated_at?: string;
           icon?: string;
           color?: string;
+          goal_id?: string | null;
+          paused_by_goal?: boolean;
+          challenge_habit_id?: string | null;
+          reminders?: HabitReminder[];
         };
+        Relationships: [
+          {
+            foreignKeyName: 'habits_goal_id_fkey';
+            columns: ['goal_id'];
+            isOneToOne: false;
+            referencedRelation: 'goals';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'habits_challenge_habit_id_fkey';
+            columns: ['challenge_habit_id'];
+            isOneToOne: false;
+            referencedRelation: 'challenge_habits';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      goals: {
+        Row: {
+          id: string;
+          user_id: string;
+          title: string;
+          target_date: string | null;
+          status: 'active' | 'completed' | 'archived';
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          title: string;
+          target_date?: string | null;
+          status?: 'active' | 'completed' | 'archived';
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          title?: string;
+          target_date?: string | null;
+          status?: 'active' | 'completed' | 'archived';
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
       };
       habit_completions: {
         Row: {
@@ -108,9 +178,14 @@ export type Database = {
           habit_id: string;
           user_id: string;
           completed_at: string;
+          /** Storage path in the private `habit-proofs` bucket */
           proof_image_url: string | null;
+          proof_thumbnail_url: string | null;
+          proof_visibility: 'private' | 'challenge' | 'public';
           notes: string | null;
           mood_rating: number | null;
+          logged_at: string;
+          backfill_flagged: boolean;
         };
         Insert: {
           id?: string;
@@ -118,8 +193,12 @@ export type Database = {
           user_id: string;
           completed_at?: string;
           proof_image_url?: string | null;
+          proof_thumbnail_url?: string | null;
+          proof_visibility?: 'private' | 'challenge' | 'public';
           notes?: string | null;
           mood_rating?: number | null;
+          logged_at?: string;
+          backfill_flagged?: boolean;
         };
         Update: {
           id?: string;
@@ -127,9 +206,37 @@ export type Database = {
           user_id?: string;
           completed_at?: string;
           proof_image_url?: string | null;
+          proof_thumbnail_url?: string | null;
+          proof_visibility?: 'private' | 'challenge' | 'public';
           notes?: string | null;
           mood_rating?: number | null;
+          logged_at?: string;
+          backfill_flagged?: boolean;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'habit_completions_habit_id_fkey';
+            columns: ['habit_id'];
+            isOneToOne: false;
+            referencedRelation: 'habits';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      habit_completion_events: {
+        Row: {
+          id: string;
+          completion_id: string | null;
+          habit_id: string;
+          user_id: string;
+          action: 'created' | 'updated' | 'deleted';
+          completed_at: string;
+          changes: Record<string, unknown>;
+          created_at: string;
         };
+        Insert: never;
+        Update: never;
+        Relationships: [];
       };
       challenges: {
         Row: {
@@ -141,6 +248,13 @@ export type Database = {
           end_date: string;
           is_active: boolean;
           max_participants: number | null;
+          scoring_mode: 'completions' | 'streak' | 'consistency' | 'points';
+          scores_updated_at: string;
+          visibility: 'public' | 'private';
+          requires_approval: boolean;
+          invite_code: string;
+          cancelled_at: string | null;
+          archived_at: string | null;
           created_at: string;
         };
         Insert: {
@@ -152,6 +266,13 @@ export type Database = {
           end_date: string;
           is_active?: boolean;
           max_participants?: number | null;
+          scoring_mode?: 'completions' | 'streak' | 'consistency' | 'points';
+          scores_updated_at?: string;
+          visibility?: 'public' | 'private';
+          requires_approval?: boolean;
+          invite_code?: string;
+          cancelled_at?: string | null;
+          archived_at?: string | null;
           created_at?: string;
         };
         Update: {
@@ -163,9 +284,485 @@ export type Database = {
           end_date?: string;
           is_active?: boolean;
           max_participants?: number | null;
+          scoring_mode?: 'completions' | 'streak' | 'consistency' | 'points';
+          scores_updated_at?: string;
+          visibility?: 'public' | 'private';
+          requires_approval?: boolean;
+          invite_code?: string;
+          cancelled_at?: string | null;
+          archived_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      challenge_participants: {
+        Row: {
+          id: string;
+          challenge_id: string;
+          user_id: string;
+          joined_at: string;
+          scores_updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          challenge_id: string;
+          user_id: string;
+          joined_at?: string;
+          scores_updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          challenge_id?: string;
+          user_id?: string;
+          joined_at?: string;
+          scores_updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'challenge_participants_challenge_id_fkey';
+            columns: ['challenge_id'];
+            isOneToOne: false;
+            referencedRelation: 'challenges';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      challenge_habits: {
+        Row: {
+          id: string;
+          challenge_id: string;
+          title: string;
+          description: string | null;
+          category: string;
+          icon: string;
+          color: string;
+          frequency: 'daily' | 'weekly' | 'weekdays' | 'times_per_week' | 'every_n_days' | 'monthly';
+          target_count: number;
+          schedule_days: number[] | null;
+          schedule_interval: number | null;
+          difficulty: 'easy' | 'medium' | 'hard';
+          position: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          challenge_id: string;
+          title: string;
+          description?: string | null;
+          category?: string;
+          icon?: string;
+          color?: string;
+          frequency?: 'daily' | 'weekly' | 'weekdays' | 'times_per_week' | 'every_n_days' | 'monthly';
+          target_count?: number;
+          schedule_days?: number[] | null;
+          schedule_interval?: number | null;
+          difficulty?: 'easy' | 'medium' | 'hard';
+          position?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          challenge_id?: string;
+          title?: string;
+          description?: string | null;
+          category?: string;
+          icon?: string;
+          color?: string;
+          frequency?: 'daily' | 'weekly' | 'weekdays' | 'times_per_week' | 'every_n_days' | 'monthly';
+          target_count?: number;
+          schedule_days?: number[] | null;
+          schedule_interval?: number | null;
+          difficulty?: 'easy' | 'medium' | 'hard';
+          position?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'challenge_habits_challenge_id_fkey';
+            columns: ['challenge_id'];
+            isOneToOne: false;
+            referencedRelation: 'challenges';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      challenge_waitlist: {
+        Row: {
+          id: string;
+          challenge_id: string;
+          user_id: string;
+          /** Habit links chosen when asking to join, as passed to `join_challenge` */
+          links: Record<string, string>;
+          created_at: string;
+        };
+        Insert: never;
+        Update: never;
+        Relationships: [
+          {
+            foreignKeyName: 'challenge_waitlist_challenge_id_fkey';
+            columns: ['challenge_id'];
+            isOneToOne: false;
+            referencedRelation: 'challenges';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      challenge_join_requests: {
+        Row: {
+          id: string;
+          challenge_id: string;
+          user_id: string;
+          /** Habit links chosen when asking to join, as passed to `join_challenge` */
+          links: Record<string, string>;
+          created_at: string;
+        };
+        Insert: never;
+        Update: never;
+        Relationships: [
+          {
+            foreignKeyName: 'challenge_join_requests_challenge_id_fkey';
+            columns: ['challenge_id'];
+            isOneToOne: false;
+            referencedRelation: 'challenges';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      challenge_results: {
+        Row: {
+          id: string;
+          challenge_id: string;
+          user_id: string;
+          rank: number;
+          display_name: string;
+          score: number;
+          check_ins: number;
+          periods_completed: number;
+          periods_total: number;
+          consistency: number;
+          longest_streak: number;
+          points: number;
+          reached_at: string | null;
+          joined_at: string;
+          finalized_at: string;
+        };
+        Insert: never;
+        Update: never;
+        Relationships: [
+          {
+            foreignKeyName: 'challenge_results_challenge_id_fkey';
+            columns: ['challenge_id'];
+            isOneToOne: false;
+            referencedRelation: 'challenges';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      mood_entries: {
+        Row: {
+          id: string;
+          user_id: string;
+          mood_rating: number;
+          reflection: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          mood_rating: number;
+          reflection?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          mood_rating?: number;
+          reflection?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          title: string;
+          message: string;
+          type: 'info' | 'challenge_join' | 'streak_risk' | 'milestone';
+          is_read: boolean;
+          /** Ids the notification refers to, e.g. `challenge_id` or `habit_id` */
+          data: Record<string, unknown>;
+          /** Unique per user; repeats of the same event are ignored */
+          dedupe_key: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          title: string;
+          message: string;
+          type?: 'info' | 'challenge_join' | 'streak_risk' | 'milestone';
+          is_read?: boolean;
+          data?: Record<string, unknown>;
+          dedupe_key?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          is_read?: boolean;
+        };
+        Relationships: [];
+      };
+      push_subscriptions: {
+        Row: {
+          id: string;
+          user_id: string;
+          endpoint: string;
+          p256dh: string;
+          auth: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          endpoint: string;
+          p256dh: string;
+          auth: string;
           created_at?: string;
         };
+        Update: {
+          p256dh?: string;
+          auth?: string;
+        };
+        Relationships: [];
+      };
+      habit_templates: {
+        Row: {
+          id: string;
+          creator_id: string | null;
+          slug: string | null;
+          name: string;
+          description: string;
+          icon: string;
+          color: string;
+          habits: TemplateHabit[];
+          is_builtin: boolean;
+          is_public: boolean;
+          rating_total: number;
+          rating_count: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          creator_id: string;
+          name: string;
+          description?: string;
+          icon?: string;
+          color?: string;
+          habits: TemplateHabit[];
+          is_public?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          description?: string;
+          icon?: string;
+          color?: string;
+          habits?: TemplateHabit[];
+          is_public?: boolean;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      habit_template_ratings: {
+        Row: {
+          id: string;
+          template_id: string;
+          user_id: string;
+          rating: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          template_id: string;
+          user_id: string;
+          rating: number;
+          created_at?: string;
+        };
+        Update: {
+          rating?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'habit_template_ratings_template_id_fkey';
+            columns: ['template_id'];
+            isOneToOne: false;
+            referencedRelation: 'habit_templates';
+            referencedColumns: ['id'];
+          },
+        ];
       };
     };
+    Views: Record<never, never>;
+    Functions: {
+      list_shared_proofs: {
+        Args: { p_owner_id: string };
+        Returns: {
+          completion_id: string;
+          habit_id: string;
+          completed_at: string;
+          proof_image_url: string;
+          proof_thumbnail_url: string | null;
+          proof_visibility: 'private' | 'challenge' | 'public';
+        }[];
+      };
+      apply_habit_template: {
+        Args: {
+          p_habits: Omit<Database['public']['Tables']['habits']['Insert'], 'user_id'>[];
+          p_pause_habit_ids: string[];
+        };
+        Returns: Database['public']['Tables']['habits']['Row'][];
+      };
+      save_push_subscription: {
+        Args: { p_endpoint: string; p_p256dh: string; p_auth: string };
+        Returns: undefined;
+      };
+      analytics_period_progress: {
+        Args: { p_day: string; p_time_zone: string };
+        Returns: { habit_id: string; due: boolean; check_ins: number; target: number }[];
+      };
+      analytics_daily_counts: {
+        Args: { p_start: string; p_end: string; p_time_zone: string };
+        Returns: { day: string; habits_done: number }[];
+      };
+      analytics_category_breakdown: {
+        Args: { p_start: string; p_end: string; p_time_zone: string };
+        Returns: { category: string; check_ins: number }[];
+      };
+      analytics_completion_rate: {
+        Args: { p_start: string; p_end: string; p_time_zone: string };
+        Returns: number;
+      };
+      analytics_habit_streaks: {
+        Args: { p_time_zone: string };
+        Returns: {
+          habit_id: string;
+          current_streak: number;
+          longest_streak: number;
+          unit: 'day' | 'week' | 'month' | 'cycle';
+        }[];
+      };
+      analytics_overall_streak: {
+        Args: { p_time_zone: string };
+        Returns: { current_streak: number; longest_streak: number }[];
+      };
+      create_challenge: {
+        Args: {
+          p_challenge: Pick<
+            Database['public']['Tables']['challenges']['Insert'],
+            | 'title'
+            | 'description'
+            | 'start_date'
+            | 'end_date'
+            | 'max_participants'
+            | 'scoring_mode'
+            | 'visibility'
+            | 'requires_approval'
+          >;
+          p_habits: Omit<Database['public']['Tables']['challenge_habits']['Insert'], 'challenge_id' | 'position'>[];
+        };
+        Returns: Database['public']['Tables']['challenges']['Row'];
+      };
+      join_challenge: {
+        /**
+         * `p_links` maps challenge habit ids to the existing habits that track
+         * them; `p_invite_code` is required for private challenges
+         */
+        Args: { p_challenge_id: string; p_links?: Record<string, string>; p_invite_code?: string | null };
+        /** `waitlisted` when the challenge is full, `requested` when the creator must approve */
+        Returns: 'joined' | 'waitlisted' | 'requested';
+      };
+      get_challenge_invite: {
+        Args: { p_invite_code: string };
+        Returns: Database['public']['Tables']['challenges']['Row'][];
+      };
+      list_challenge_invite_habits: {
+        Args: { p_invite_code: string };
+        Returns: Database['public']['Tables']['challenge_habits']['Row'][];
+      };
+      reset_challenge_invite_code: {
+        Args: { p_challenge_id: string };
+        Returns: string;
+      };
+      close_ended_challenges: {
+        Args: Record<string, never>;
+        /** How many challenges were closed */
+        Returns: number;
+      };
+      cancel_challenge: {
+        Args: { p_challenge_id: string };
+        Returns: undefined;
+      };
+      list_challenge_join_requests: {
+        Args: { p_challenge_id: string };
+        Returns: { id: string; user_id: string; display_name: string; created_at: string }[];
+      };
+      respond_to_join_request: {
+        Args: { p_request_id: string; p_approve: boolean };
+        Returns: 'joined' | 'waitlisted' | 'declined';
+      };
+      challenge_availability: {
+        Args: { p_challenge_ids: string[] };
+        Returns: {
+          challenge_id: string;
+          participants: number;
+          /** Null when the challenge has no participant limit */
+          spots_left: number | null;
+          waitlisted: number;
+          /** The caller's place in the waitlist, if they are on it */
+          waitlist_position: number | null;
+          /** The caller asked to join and is waiting for the creator's approval */
+          request_pending: boolean;
+        }[];
+      };
+      challenge_progress: {
+        Args: { p_challenge_id: string };
+        Returns: {
+          user_id: string;
+          display_name: string;
+          challenge_habit_id: string;
+          check_ins: number;
+          periods_completed: number;
+          periods_total: number;
+        }[];
+      };
+      challenge_leaderboard: {
+        Args: { p_challenge_id: string };
+        Returns: {
+          rank: number;
+          user_id: string;
+          display_name: string;
+          score: number;
+          check_ins: number;
+          periods_completed: number;
+          periods_total: number;
+          consistency: number;
+          longest_streak: number;
+          points: number;
+          reached_at: string | null;
+          /** True once the challenge has ended and the standings are frozen */
+          is_final: boolean;
+        }[];
+      };
+    };
+    Enums: Record<never, never>;
+    CompositeTypes: Record<never, never>;
   };
-};
\ No newline at end of file
+};
+
+type PublicTables = Database['public']['Tables'];
+
+export type Tables<T extends keyof PublicTables> = PublicTables[T]['Row'];
+export type TablesInsert<T extends keyof PublicTables> = PublicTables[T]['Insert'];
+export type TablesUpdate<T extends keyof PublicTables> = PublicTables[T]['Update'];
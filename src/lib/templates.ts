@@ -0,0 +1,50 @@
+import type { Database } from './supabase';
+import type { HabitFrequency } from './schedules';
+
+type HabitRow = Database['public']['Tables']['habits']['Row'];
+
+export type HabitTemplate = Database['public']['Tables']['habit_templates']['Row'];
+
+/** A habit definition stored in a template's `habits` array */
+export interface TemplateHabit {
+  title: string;
+  description: string;
+  category: string;
+  frequency: HabitFrequency;
+  target_count?: number;
+  schedule_days?: number[] | null;
+  schedule_interval?: number | null;
+  difficulty: 'easy' | 'medium' | 'hard';
+  icon: string;
+}
+
+export const TEMPLATE_COLORS = [
+  'from-blue-500 to-indigo-600',
+  'from-green-500 to-emerald-600',
+  'from-purple-500 to-pink-600',
+  'from-orange-500 to-red-600',
+  'from-teal-500 to-cyan-600',
+  'from-yellow-500 to-orange-600',
+];
+
+export const habitToTemplateHabit = (
+  habit: Pick<
+    HabitRow,
+    'title' | 'description' | 'category' | 'frequency' | 'target_count' |
+    'schedule_days' | 'schedule_interval' | 'difficulty' | 'icon'
+  >
+): TemplateHabit => ({
+  title: habit.title,
+  description: habit.description || '',
+  category: habit.category,
+  frequency: habit.frequency,
+  target_count: habit.target_count,
+  schedule_days: habit.schedule_days,
+  schedule_interval: habit.schedule_interval,
+  difficulty: habit.difficulty,
+  icon: habit.icon,
+});
+
+// Average star rating, or null when nobody has rated the template yet
+export const getTemplateRating = (template: Pick<HabitTemplate, 'rating_total' | 'rating_count'>) =>
+  template.rating_count > 0 ? template.rating_total / template.rating_count : null;
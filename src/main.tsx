@@ -2,9 +2,16 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import './index.css';
+import { isServiceWorkerSupported, registerServiceWorker } from './lib/pwa';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
   </StrictMode>
 );
+
+if (isServiceWorkerSupported()) {
+  window.addEventListener('load', () => {
+    registerServiceWorker().catch((error) => console.error('Service worker registration failed:', error));
+  });
+}
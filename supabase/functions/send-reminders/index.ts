@@ -0,0 +1,194 @@
+/*
+ * Sends due habit reminders as Web Push notifications.
+ *
+ * Deploy with `supabase functions deploy send-reminders` and call it every
+ * few minutes, e.g. from pg_cron through pg_net. Needs the secrets
+ * VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT (a mailto: or https:
+ * URL); the public key is also the app's VITE_VAPID_PUBLIC_KEY.
+ *
+ * A reminder is due when its `HH:mm` has passed in the owner's profile
+ * timezone within the last GRACE_MINUTES. It is skipped once the habit's
+ * check-ins for that local day reach its target, matching `isDoneForDay` in
+ * src/lib/reminders.ts.
+ */
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import webpush from 'npm:web-push@3';
+
+// Keep in step with REMINDER_GRACE_MINUTES in src/lib/reminders.ts
+const GRACE_MINUTES = 15;
+
+interface Reminder {
+  time: string;
+  days: number[];
+}
+
+interface ReminderHabit {
+  id: string;
+  user_id: string;
+  title: string;
+  icon: string;
+  target_count: number;
+  reminders: Reminder[];
+}
+
+interface PushSubscriptionRow {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+webpush.setVapidDetails(
+  Deno.env.get('VAPID_SUBJECT')!,
+  Deno.env.get('VAPID_PUBLIC_KEY')!,
+  Deno.env.get('VAPID_PRIVATE_KEY')!
+);
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Local day, time and weekday (0 = Sunday) of an instant in a timezone
+const wallClock = (instant: Date, timeZone: string) => {
+  const parts: Record<string, number> = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+    .formatToParts(instant)
+    .forEach(({ type, value }) => {
+      if (type !== 'literal') parts[type] = Number(value);
+    });
+
+  return {
+    day: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+    minutes: parts.hour * 60 + parts.minute,
+    weekday: new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay(),
+  };
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const isValidTimeZone = (timeZone: string | null): timeZone is string => {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+Deno.serve(async () => {
+  const now = new Date();
+
+  const { data: subscriptions, error: subscriptionsError } = await supabase
+    .from('push_subscriptions')
+    .select('id, user_id, endpoint, p256dh, auth');
+
+  if (subscriptionsError) return Response.json({ error: subscriptionsError.message }, { status: 500 });
+
+  const userIds = [...new Set((subscriptions as PushSubscriptionRow[]).map((s) => s.user_id))];
+  if (userIds.length === 0) return Response.json({ sent: 0 });
+
+  const [{ data: habits, error: habitsError }, { data: profiles, error: profilesError }] = await Promise.all([
+    supabase
+      .from('habits')
+      .select('id, user_id, title, icon, target_count, reminders')
+      .in('user_id', userIds)
+      .eq('is_active', true)
+      .neq('reminders', '[]'),
+    supabase.from('profiles').select('id, timezone').in('id', userIds),
+  ]);
+
+  if (habitsError || profilesError) {
+    return Response.json({ error: (habitsError || profilesError)!.message }, { status: 500 });
+  }
+
+  const timeZones = new Map<string, string>(
+    (profiles || []).map((p: { id: string; timezone: string | null }) => [
+      p.id,
+      isValidTimeZone(p.timezone) ? p.timezone : 'UTC',
+    ])
+  );
+
+  const due = (habits as ReminderHabit[]).flatMap((habit) => {
+    const timeZone = timeZones.get(habit.user_id) || 'UTC';
+    const { day, minutes, weekday } = wallClock(now, timeZone);
+
+    return habit.reminders
+      .filter((reminder) => {
+        const late = minutes - toMinutes(reminder.time);
+        return (reminder.days.length === 0 || reminder.days.includes(weekday))
+          && late >= 0
+          && late < GRACE_MINUTES;
+      })
+      .map((reminder) => ({ habit, timeZone, day, time: reminder.time }));
+  });
+
+  if (due.length === 0) return Response.json({ sent: 0 });
+
+  // The last two days of completions cover "today" in every timezone
+  const { data: completions, error: completionsError } = await supabase
+    .from('habit_completions')
+    .select('habit_id, completed_at')
+    .in('habit_id', [...new Set(due.map(({ habit }) => habit.id))])
+    .gte('completed_at', new Date(now.getTime() - 2 * 86400000).toISOString());
+
+  if (completionsError) return Response.json({ error: completionsError.message }, { status: 500 });
+
+  let sent = 0;
+  for (const { habit, timeZone, day, time } of due) {
+    const checkIns = (completions || []).filter((completion: { habit_id: string; completed_at: string }) =>
+      completion.habit_id === habit.id && wallClock(new Date(completion.completed_at), timeZone).day === day
+    ).length;
+    if (checkIns >= Math.max(habit.target_count || 1, 1)) continue;
+
+    // Claim the delivery first so overlapping runs never send it twice
+    const { error: claimError } = await supabase
+      .from('reminder_deliveries')
+      .insert({ habit_id: habit.id, day, time });
+    if (claimError) continue;
+
+    const payload = JSON.stringify({
+      title: `${habit.icon} ${habit.title}`,
+      body: 'Time for your habit! Check in once it\'s done.',
+      tag: `${habit.id}:${day}:${time}`,
+      url: `/habits/${habit.id}`,
+    });
+
+    const targets = (subscriptions as PushSubscriptionRow[]).filter((s) => s.user_id === habit.user_id);
+    for (const subscription of targets) {
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          payload
+        );
+        sent++;
+      } catch (error) {
+        const status = (error as { statusCode?: number }).statusCode;
+        // The browser unsubscribed or the endpoint expired
+        if (status === 404 || status === 410) {
+          await supabase.from('push_subscriptions').delete().eq('id', subscription.id);
+        } else {
+          console.error('Error sending reminder:', error);
+        }
+      }
+    }
+  }
+
+  return Response.json({ sent });
+});
@@ -0,0 +1,42 @@
+/*
+  # Per-profile timezone
+
+  1. Changes
+    - Add `timezone` (IANA name, e.g. `Asia/Kolkata`) to `profiles`
+    - Store the browser timezone sent in signup metadata
+
+  2. Notes
+    - Completions and mood entries stay in UTC `timestamptz`; the client
+      buckets them into local days using the profile timezone
+    - Profiles without a timezone fall back to the browser timezone
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS timezone text;
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (
+    id,
+    username,
+    full_name,
+    is_cse_student,
+    year_of_study,
+    timezone
+  )
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'username', NULL),
+    COALESCE(NEW.raw_user_meta_data->>'full_name', NULL),
+    COALESCE((NEW.raw_user_meta_data->>'is_cse_student')::boolean, false),
+    COALESCE((NEW.raw_user_meta_data->>'year_of_study')::integer, NULL),
+    COALESCE(NEW.raw_user_meta_data->>'timezone', NULL)
+  );
+  RETURN NEW;
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log the error but don't fail the user creation
+    RAISE LOG 'Error in handle_new_user: %', SQLERRM;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,32 @@
+/*
+  # Flexible habit schedules
+
+  1. Changes
+    - Allow `frequency` values beyond daily/weekly:
+      - `weekdays`       - specific days of the week, listed in `schedule_days`
+      - `times_per_week` - `schedule_interval` sessions any time in the week
+      - `every_n_days`   - once per `schedule_interval`-day cycle
+      - `monthly`        - once per calendar month
+    - Add `schedule_days` (0 = Sunday .. 6 = Saturday)
+    - Add `schedule_interval`
+
+  2. Notes
+    - Existing daily/weekly habits are unaffected
+*/
+
+ALTER TABLE habits ADD COLUMN IF NOT EXISTS schedule_days integer[];
+ALTER TABLE habits ADD COLUMN IF NOT EXISTS schedule_interval integer;
+
+ALTER TABLE habits DROP CONSTRAINT IF EXISTS habits_frequency_check;
+ALTER TABLE habits ADD CONSTRAINT habits_frequency_check
+  CHECK (frequency IN ('daily', 'weekly', 'weekdays', 'times_per_week', 'every_n_days', 'monthly'));
+
+ALTER TABLE habits DROP CONSTRAINT IF EXISTS habits_schedule_check;
+ALTER TABLE habits ADD CONSTRAINT habits_schedule_check CHECK (
+  (frequency <> 'weekdays' OR (
+    cardinality(schedule_days) > 0
+    AND schedule_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]
+  ))
+  AND (frequency NOT IN ('times_per_week', 'every_n_days') OR schedule_interval >= 1)
+  AND (frequency <> 'times_per_week' OR schedule_interval <= 7)
+);
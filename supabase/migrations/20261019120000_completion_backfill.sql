@@ -0,0 +1,133 @@
+/*
+  # Backfilled completions and completion history
+
+  1. Changes
+    - Add `logged_at` to `habit_completions`: when the row was actually written,
+      as opposed to `completed_at`, the day it counts for
+    - Add `backfill_flagged`: set when a completion is logged for a day older
+      than the backfill window, so challenge scoring can ignore it
+    - Add `habit_completion_events` recording every create, edit and delete
+
+  2. Configuration
+    - The backfill window defaults to 2 days and can be changed with
+      `ALTER DATABASE postgres SET app.backfill_window_days = '3';`
+    - The window counts local days in the profile timezone, like
+      `isBeyondBackfillWindow` in `src/lib/backfill.ts`: with 2 days, a
+      completion for the day before yesterday is flagged at any hour
+    - Completions for a local day after today are rejected, on insert and
+      when an edit moves `completed_at`. Ten minutes of clock skew are
+      allowed around midnight.
+
+  3. Security
+    - Users can read their own completion events; rows are only written by
+      the trigger
+*/
+
+ALTER TABLE habit_completions ADD COLUMN IF NOT EXISTS logged_at timestamptz DEFAULT now();
+ALTER TABLE habit_completions ADD COLUMN IF NOT EXISTS backfill_flagged boolean DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS habit_completion_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  completion_id uuid,
+  -- No foreign keys: events are written while cascading deletes run
+  habit_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  action text CHECK (action IN ('created', 'updated', 'deleted')) NOT NULL,
+  completed_at timestamptz NOT NULL,
+  changes jsonb DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE habit_completion_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own completion events"
+  ON habit_completion_events
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_habit_completion_events_habit_id ON habit_completion_events(habit_id);
+
+-- Window, in days, after which a backfilled completion is flagged
+CREATE OR REPLACE FUNCTION backfill_window_days()
+RETURNS integer AS $$
+  SELECT COALESCE(NULLIF(current_setting('app.backfill_window_days', true), '')::integer, 2);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION profile_time_zone(p_user_id uuid)
+RETURNS text AS $$
+  SELECT COALESCE((SELECT timezone FROM profiles WHERE id = p_user_id), 'UTC');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Only for the trigger below; it would otherwise tell anyone any user's timezone
+REVOKE EXECUTE ON FUNCTION profile_time_zone(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION flag_completion_backfill()
+RETURNS trigger AS $$
+DECLARE
+  user_time_zone text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    -- Clients cannot choose when a row was logged
+    NEW.logged_at = now();
+  ELSE
+    NEW.logged_at = OLD.logged_at;
+  END IF;
+
+  user_time_zone = profile_time_zone(NEW.user_id);
+
+  IF (TG_OP = 'INSERT' OR NEW.completed_at IS DISTINCT FROM OLD.completed_at)
+    AND (NEW.completed_at AT TIME ZONE user_time_zone)::date
+      > ((now() + interval '10 minutes') AT TIME ZONE user_time_zone)::date THEN
+    RAISE EXCEPTION 'Check-ins can''t be logged for a future day';
+  END IF;
+
+  NEW.backfill_flagged = (NEW.completed_at AT TIME ZONE user_time_zone)::date
+    <= (NEW.logged_at AT TIME ZONE user_time_zone)::date - backfill_window_days();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS flag_completion_backfill ON habit_completions;
+CREATE TRIGGER flag_completion_backfill
+  BEFORE INSERT OR UPDATE ON habit_completions
+  FOR EACH ROW EXECUTE FUNCTION flag_completion_backfill();
+
+CREATE OR REPLACE FUNCTION log_completion_event()
+RETURNS trigger AS $$
+DECLARE
+  diff jsonb;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO habit_completion_events (completion_id, habit_id, user_id, action, completed_at, changes)
+    VALUES (NEW.id, NEW.habit_id, NEW.user_id, 'created', NEW.completed_at,
+      jsonb_build_object('backfill_flagged', NEW.backfill_flagged));
+    RETURN NEW;
+  ELSIF TG_OP = 'UPDATE' THEN
+    diff = jsonb_strip_nulls(jsonb_build_object(
+      'notes', CASE WHEN NEW.notes IS DISTINCT FROM OLD.notes
+        THEN jsonb_build_object('from', OLD.notes, 'to', NEW.notes) END,
+      'mood_rating', CASE WHEN NEW.mood_rating IS DISTINCT FROM OLD.mood_rating
+        THEN jsonb_build_object('from', OLD.mood_rating, 'to', NEW.mood_rating) END,
+      'completed_at', CASE WHEN NEW.completed_at IS DISTINCT FROM OLD.completed_at
+        THEN jsonb_build_object('from', OLD.completed_at, 'to', NEW.completed_at) END
+    ));
+
+    -- Only record edits to the fields shown in the history
+    IF diff <> '{}'::jsonb THEN
+      INSERT INTO habit_completion_events (completion_id, habit_id, user_id, action, completed_at, changes)
+      VALUES (NEW.id, NEW.habit_id, NEW.user_id, 'updated', NEW.completed_at, diff);
+    END IF;
+    RETURN NEW;
+  ELSE
+    INSERT INTO habit_completion_events (completion_id, habit_id, user_id, action, completed_at)
+    VALUES (OLD.id, OLD.habit_id, OLD.user_id, 'deleted', OLD.completed_at);
+    RETURN OLD;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS log_completion_event ON habit_completions;
+CREATE TRIGGER log_completion_event
+  AFTER INSERT OR UPDATE OR DELETE ON habit_completions
+  FOR EACH ROW EXECUTE FUNCTION log_completion_event();
@@ -0,0 +1,19 @@
+/*
+  # Proof photo thumbnails
+
+  1. Changes
+    - Add `proof_thumbnail_url` to `habit_completions`, the small version of
+      `proof_image_url` shown in the Proof Center gallery
+
+  2. Storage
+    - Photos are resized and re-encoded in the browser before upload, so the
+      `habit-proofs` bucket now only accepts WebP and JPEG files up to 5 MB
+*/
+
+ALTER TABLE habit_completions ADD COLUMN IF NOT EXISTS proof_thumbnail_url text;
+
+UPDATE storage.buckets
+SET
+  file_size_limit = 5242880,
+  allowed_mime_types = ARRAY['image/webp', 'image/jpeg']
+WHERE id = 'habit-proofs';
@@ -0,0 +1,102 @@
+/*
+  # Private proof photos
+
+  1. Changes
+    - The `habit-proofs` bucket is no longer public; photos are served through
+      short-lived signed URLs
+    - `proof_image_url` and `proof_thumbnail_url` now hold storage paths
+      (`<user id>/<file>`) instead of public URLs; existing rows are converted
+    - Add `proof_visibility` to `habit_completions`: `private` (owner only),
+      `challenge` (people sharing a challenge with the owner) or `public`
+      (any signed-in user)
+
+  2. Security
+    - Reading a proof object, or the completion it belongs to, is allowed for
+      the owner and for viewers permitted by the completion's visibility
+    - A completion can only point at proof objects in its owner's folder, so
+      it can't be used to expose someone else's photo
+    - Other users read shared proofs through `list_shared_proofs`, which
+      returns only the proof columns, never notes or mood ratings
+*/
+
+UPDATE storage.buckets SET public = false WHERE id = 'habit-proofs';
+
+ALTER TABLE habit_completions ADD COLUMN IF NOT EXISTS proof_visibility text
+  CHECK (proof_visibility IN ('private', 'challenge', 'public')) DEFAULT 'private' NOT NULL;
+
+UPDATE habit_completions
+SET proof_image_url = regexp_replace(proof_image_url, '^.*/object/public/habit-proofs/', '')
+WHERE proof_image_url LIKE '%/object/public/habit-proofs/%';
+
+UPDATE habit_completions
+SET proof_thumbnail_url = regexp_replace(proof_thumbnail_url, '^.*/object/public/habit-proofs/', '')
+WHERE proof_thumbnail_url LIKE '%/object/public/habit-proofs/%';
+
+-- Existing rows that aren't storage paths are left alone
+ALTER TABLE habit_completions DROP CONSTRAINT IF EXISTS habit_completions_proof_owner_check;
+ALTER TABLE habit_completions ADD CONSTRAINT habit_completions_proof_owner_check
+  CHECK (
+    (proof_image_url IS NULL OR split_part(proof_image_url, '/', 1) = user_id::text)
+    AND (proof_thumbnail_url IS NULL OR split_part(proof_thumbnail_url, '/', 1) = user_id::text)
+  ) NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_habit_completions_proof_image_url ON habit_completions(proof_image_url);
+CREATE INDEX IF NOT EXISTS idx_habit_completions_proof_thumbnail_url ON habit_completions(proof_thumbnail_url);
+
+-- Whether the current user may see a proof owned by `owner_id`
+CREATE OR REPLACE FUNCTION can_view_proof(owner_id uuid, visibility text)
+RETURNS boolean AS $$
+  SELECT owner_id = auth.uid()
+    OR visibility = 'public'
+    OR (visibility = 'challenge' AND EXISTS (
+      SELECT 1
+      FROM challenge_participants mine
+      JOIN challenge_participants theirs ON theirs.challenge_id = mine.challenge_id
+      WHERE mine.user_id = auth.uid() AND theirs.user_id = owner_id
+    ));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the current user may read the storage object at `object_name`
+CREATE OR REPLACE FUNCTION can_view_proof_object(object_name text)
+RETURNS boolean AS $$
+  SELECT (storage.foldername(object_name))[1] = auth.uid()::text
+    OR EXISTS (
+      SELECT 1 FROM habit_completions hc
+      WHERE (hc.proof_image_url = object_name OR hc.proof_thumbnail_url = object_name)
+        AND (storage.foldername(object_name))[1] = hc.user_id::text
+        AND can_view_proof(hc.user_id, hc.proof_visibility)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The proofs of `p_owner_id` the current user may see, newest first
+CREATE OR REPLACE FUNCTION list_shared_proofs(p_owner_id uuid)
+RETURNS TABLE (
+  completion_id uuid,
+  habit_id uuid,
+  completed_at timestamptz,
+  proof_image_url text,
+  proof_thumbnail_url text,
+  proof_visibility text
+) AS $$
+  SELECT hc.id, hc.habit_id, hc.completed_at, hc.proof_image_url, hc.proof_thumbnail_url, hc.proof_visibility
+  FROM habit_completions hc
+  WHERE hc.user_id = p_owner_id
+    AND hc.proof_image_url IS NOT NULL
+    AND can_view_proof(hc.user_id, hc.proof_visibility)
+  ORDER BY hc.completed_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Users can view habit proofs" ON storage.objects;
+
+CREATE POLICY "Users can view permitted habit proofs"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'habit-proofs' AND can_view_proof_object(name));
+
+REVOKE EXECUTE ON FUNCTION can_view_proof(uuid, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION can_view_proof_object(text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION list_shared_proofs(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION can_view_proof(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_view_proof_object(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION list_shared_proofs(uuid) TO authenticated;
@@ -0,0 +1,68 @@
+/*
+  # Goals
+
+  1. New Tables
+    - `goals`: a goal entered in Goal Breakdown, with an optional target date
+      and a status (`active`, `completed`, `archived`)
+
+  2. Changes
+    - Add `goal_id` to `habits`, linking habits to the goal they were
+      generated for
+    - Add `paused_by_goal` to `habits`, marking habits deactivated by
+      archiving their goal
+    - Archiving a goal deactivates its active habits; restoring it
+      reactivates only those, not habits the user had already deleted
+
+  3. Security
+    - Users can manage their own goals
+*/
+
+CREATE TABLE IF NOT EXISTS goals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title text NOT NULL,
+  target_date date,
+  status text CHECK (status IN ('active', 'completed', 'archived')) DEFAULT 'active' NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE goals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own goals"
+  ON goals
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+ALTER TABLE habits ADD COLUMN IF NOT EXISTS goal_id uuid REFERENCES goals(id) ON DELETE SET NULL;
+ALTER TABLE habits ADD COLUMN IF NOT EXISTS paused_by_goal boolean DEFAULT false NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_goals_user_id ON goals(user_id);
+CREATE INDEX IF NOT EXISTS idx_habits_goal_id ON habits(goal_id);
+
+DROP TRIGGER IF EXISTS update_goals_updated_at ON goals;
+CREATE TRIGGER update_goals_updated_at
+  BEFORE UPDATE ON goals
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Keeps a goal's habits in step with its archived state, in the same
+-- transaction as the status change
+CREATE OR REPLACE FUNCTION sync_goal_habits()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status = 'archived' AND OLD.status <> 'archived' THEN
+    UPDATE habits SET is_active = false, paused_by_goal = true
+    WHERE goal_id = NEW.id AND is_active;
+  ELSIF OLD.status = 'archived' AND NEW.status <> 'archived' THEN
+    UPDATE habits SET is_active = true, paused_by_goal = false
+    WHERE goal_id = NEW.id AND paused_by_goal;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_goal_habits ON goals;
+CREATE TRIGGER sync_goal_habits
+  AFTER UPDATE OF status ON goals
+  FOR EACH ROW EXECUTE FUNCTION sync_goal_habits();
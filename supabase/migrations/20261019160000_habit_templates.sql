@@ -0,0 +1,176 @@
+/*
+  # Habit templates
+
+  1. New Tables
+    - `habit_templates`: a named set of habits. Built-in templates have
+      `is_builtin` set, no creator and a fixed `slug`; user templates belong
+      to their creator and are shared once `is_public` is set. `habits` is a
+      JSON array of habit definitions (title, description, category,
+      frequency, schedule, target and difficulty, icon).
+    - `habit_template_ratings`: one 1-5 star rating per user and template;
+      `rating_total` and `rating_count` on the template are kept in sync
+
+  2. Security
+    - Everyone signed in can read built-in and published templates; creators
+      manage their own
+    - Users rate templates they can see, except their own
+    - Clients can't write `rating_total`, `rating_count` or `is_builtin`
+*/
+
+CREATE TABLE IF NOT EXISTS habit_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  creator_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  slug text UNIQUE,
+  name text NOT NULL,
+  description text DEFAULT '' NOT NULL,
+  icon text DEFAULT 'target' NOT NULL,
+  color text DEFAULT 'from-purple-500 to-blue-600' NOT NULL,
+  habits jsonb DEFAULT '[]'::jsonb NOT NULL CHECK (jsonb_typeof(habits) = 'array'),
+  is_builtin boolean DEFAULT false NOT NULL,
+  is_public boolean DEFAULT false NOT NULL,
+  rating_total integer DEFAULT 0 NOT NULL,
+  rating_count integer DEFAULT 0 NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (is_builtin OR creator_id IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS habit_template_ratings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id uuid REFERENCES habit_templates(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  rating integer CHECK (rating >= 1 AND rating <= 5) NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(template_id, user_id)
+);
+
+ALTER TABLE habit_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE habit_template_ratings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view shared and own templates"
+  ON habit_templates
+  FOR SELECT
+  TO authenticated
+  USING (is_builtin OR is_public OR auth.uid() = creator_id);
+
+CREATE POLICY "Users can create templates"
+  ON habit_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = creator_id AND NOT is_builtin);
+
+CREATE POLICY "Creators can update own templates"
+  ON habit_templates
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = creator_id)
+  WITH CHECK (auth.uid() = creator_id AND NOT is_builtin);
+
+-- Ratings are only written by `sync_template_rating`
+REVOKE INSERT, UPDATE ON habit_templates FROM authenticated;
+GRANT INSERT (creator_id, name, description, icon, color, habits, is_public) ON habit_templates TO authenticated;
+GRANT UPDATE (name, description, icon, color, habits, is_public) ON habit_templates TO authenticated;
+
+CREATE POLICY "Creators can delete own templates"
+  ON habit_templates
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = creator_id);
+
+CREATE POLICY "Users can view template ratings"
+  ON habit_template_ratings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can rate visible templates"
+  ON habit_template_ratings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM habit_templates t
+      WHERE t.id = template_id
+        AND (t.is_builtin OR t.is_public)
+        AND t.creator_id IS DISTINCT FROM auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can change own ratings"
+  ON habit_template_ratings
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM habit_templates t
+      WHERE t.id = template_id
+        AND (t.is_builtin OR t.is_public)
+        AND t.creator_id IS DISTINCT FROM auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can remove own ratings"
+  ON habit_template_ratings
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_habit_templates_creator_id ON habit_templates(creator_id);
+CREATE INDEX IF NOT EXISTS idx_habit_template_ratings_template_id ON habit_template_ratings(template_id);
+
+DROP TRIGGER IF EXISTS update_habit_templates_updated_at ON habit_templates;
+CREATE TRIGGER update_habit_templates_updated_at
+  BEFORE UPDATE ON habit_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Ratings are aggregated on the template so lists can sort by them
+CREATE OR REPLACE FUNCTION sync_template_rating()
+RETURNS trigger AS $$
+DECLARE
+  target uuid := COALESCE(NEW.template_id, OLD.template_id);
+BEGIN
+  UPDATE habit_templates
+  SET
+    rating_total = (SELECT COALESCE(sum(rating), 0) FROM habit_template_ratings WHERE template_id = target),
+    rating_count = (SELECT count(*) FROM habit_template_ratings WHERE template_id = target)
+  WHERE id = target;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_template_rating ON habit_template_ratings;
+CREATE TRIGGER sync_template_rating
+  AFTER INSERT OR UPDATE OR DELETE ON habit_template_ratings
+  FOR EACH ROW EXECUTE FUNCTION sync_template_rating();
+
+-- Built-in templates, previously hard-coded in the Templates page
+INSERT INTO habit_templates (slug, name, description, icon, color, habits, is_builtin)
+VALUES
+  ('exam-prep', 'Exam Preparation', 'Structured study routine for upcoming exams', 'book-open', 'from-blue-500 to-indigo-600', '[
+    {"title": "Morning Study Session", "description": "Focused study for 2 hours in the morning", "category": "Study", "frequency": "daily", "difficulty": "medium", "icon": "📚"},
+    {"title": "Practice Problems", "description": "Solve practice questions for 1 hour", "category": "Study", "frequency": "daily", "difficulty": "medium", "icon": "✏️"},
+    {"title": "Review Notes", "description": "Review and summarize daily learnings", "category": "Study", "frequency": "daily", "difficulty": "easy", "icon": "📝"},
+    {"title": "Mock Test", "description": "Take a full-length practice exam", "category": "Study", "frequency": "weekly", "difficulty": "hard", "icon": "🎯"}
+  ]'::jsonb, true),
+  ('coding-sprint', 'Coding Sprint', 'Intensive coding practice for skill development', 'code', 'from-green-500 to-emerald-600', '[
+    {"title": "Daily Coding Challenge", "description": "Solve 2-3 algorithmic problems", "category": "Coding", "frequency": "daily", "difficulty": "medium", "icon": "💻"},
+    {"title": "Project Development", "description": "Work on personal project for 1 hour", "category": "Coding", "frequency": "daily", "difficulty": "medium", "icon": "🚀"},
+    {"title": "Code Review", "description": "Review and refactor existing code", "category": "Coding", "frequency": "daily", "difficulty": "easy", "icon": "🔍"},
+    {"title": "Learn New Technology", "description": "Study new frameworks or tools", "category": "Study", "frequency": "weekly", "difficulty": "hard", "icon": "🌟"}
+  ]'::jsonb, true),
+  ('balanced-student', 'Balanced Student Life', 'Maintain health, studies, and personal growth', 'target', 'from-purple-500 to-pink-600', '[
+    {"title": "Morning Exercise", "description": "30 minutes of physical activity", "category": "Fitness", "frequency": "daily", "difficulty": "medium", "icon": "🏃"},
+    {"title": "Study Session", "description": "Focused academic work for 2 hours", "category": "Study", "frequency": "daily", "difficulty": "medium", "icon": "📖"},
+    {"title": "Meditation", "description": "10 minutes of mindfulness practice", "category": "Mindfulness", "frequency": "daily", "difficulty": "easy", "icon": "🧘"},
+    {"title": "Social Connection", "description": "Spend quality time with friends or family", "category": "General", "frequency": "weekly", "difficulty": "easy", "icon": "👥"}
+  ]'::jsonb, true),
+  ('productivity-boost', 'Productivity Boost', 'Maximize daily productivity and focus', 'coffee', 'from-orange-500 to-red-600', '[
+    {"title": "Morning Routine", "description": "Consistent wake-up and preparation routine", "category": "General", "frequency": "daily", "difficulty": "easy", "icon": "🌅"},
+    {"title": "Deep Work Block", "description": "2-hour focused work session without distractions", "category": "Study", "frequency": "daily", "difficulty": "hard", "icon": "🎯"},
+    {"title": "Task Planning", "description": "Plan tomorrow''s tasks and priorities", "category": "General", "frequency": "daily", "difficulty": "easy", "icon": "📋"},
+    {"title": "Weekly Review", "description": "Reflect on progress and plan improvements", "category": "General", "frequency": "weekly", "difficulty": "medium", "icon": "📊"}
+  ]'::jsonb, true)
+ON CONFLICT (slug) DO NOTHING;
@@ -0,0 +1,68 @@
+/*
+  # Apply habit templates atomically
+
+  1. New Functions
+    - `apply_habit_template(p_habits, p_pause_habit_ids)`: creates the
+      habits customized in the template wizard and pauses the caller's
+      conflicting habits in one transaction. If any insert fails nothing is
+      created and nothing is paused.
+
+  2. Security
+    - Runs with the caller's privileges, so the existing habit policies
+      still apply; habits are always created for `auth.uid()`
+*/
+
+CREATE OR REPLACE FUNCTION apply_habit_template(
+  p_habits jsonb,
+  p_pause_habit_ids uuid[] DEFAULT '{}'
+)
+RETURNS SETOF habits AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_habits) <> 'array' OR jsonb_array_length(p_habits) = 0 THEN
+    RAISE EXCEPTION 'Select at least one habit to apply';
+  END IF;
+
+  UPDATE habits
+  SET is_active = false
+  WHERE id = ANY(p_pause_habit_ids)
+    AND user_id = auth.uid();
+
+  RETURN QUERY
+  INSERT INTO habits (
+    user_id, title, description, category, frequency, target_count,
+    schedule_days, schedule_interval, difficulty, icon, color
+  )
+  SELECT
+    auth.uid(),
+    h.title,
+    h.description,
+    -- Explicit nulls in `p_habits` would bypass the column defaults
+    COALESCE(h.category, 'General'),
+    COALESCE(h.frequency, 'daily'),
+    COALESCE(h.target_count, 1),
+    h.schedule_days,
+    h.schedule_interval,
+    COALESCE(h.difficulty, 'medium'),
+    COALESCE(h.icon, '🎯'),
+    COALESCE(h.color, 'bg-gray-500')
+  FROM jsonb_to_recordset(p_habits) AS h(
+    title text,
+    description text,
+    category text,
+    frequency text,
+    target_count integer,
+    schedule_days integer[],
+    schedule_interval integer,
+    difficulty text,
+    icon text,
+    color text
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION apply_habit_template(jsonb, uuid[]) TO authenticated;
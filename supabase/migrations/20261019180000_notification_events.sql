@@ -0,0 +1,122 @@
+/*
+  # Notification events
+
+  1. Changes
+    - Add `data` to `notifications` for structured details (challenge or
+      habit ids) and `dedupe_key`, unique per user, so the same event never
+      notifies twice
+    - Notification types in use: `info`, `challenge_join`, `streak_risk`,
+      `milestone`
+
+  2. Events
+    - Joining a challenge notifies its creator
+    - A habit's 10th, 25th, 50th, 100th, 250th, 500th and 1000th check-in
+      notifies its owner
+    - Streaks at risk are detected by the app, which computes streaks per
+      schedule, and written by the user's own session
+
+  3. Security
+    - Users can insert their own `streak_risk` notifications; every other
+      type is only written by the triggers
+    - `notifications` is added to the realtime publication
+*/
+
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS data jsonb DEFAULT '{}'::jsonb NOT NULL;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS dedupe_key text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'notifications_user_id_dedupe_key_key'
+  ) THEN
+    ALTER TABLE notifications ADD CONSTRAINT notifications_user_id_dedupe_key_key UNIQUE (user_id, dedupe_key);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id_created_at ON notifications(user_id, created_at DESC);
+
+CREATE POLICY "Users can create own streak reminders"
+  ON notifications
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND type = 'streak_risk');
+
+CREATE OR REPLACE FUNCTION notify_challenge_join()
+RETURNS trigger AS $$
+DECLARE
+  challenge record;
+  joiner text;
+BEGIN
+  SELECT id, title, creator_id INTO challenge FROM challenges WHERE id = NEW.challenge_id;
+
+  IF challenge.creator_id IS NULL OR challenge.creator_id = NEW.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(NULLIF(full_name, ''), NULLIF(username, ''), 'Someone') INTO joiner
+  FROM profiles WHERE id = NEW.user_id;
+
+  INSERT INTO notifications (user_id, title, message, type, data, dedupe_key)
+  VALUES (
+    challenge.creator_id,
+    'New challenge participant',
+    COALESCE(joiner, 'Someone') || ' joined "' || challenge.title || '"',
+    'challenge_join',
+    jsonb_build_object('challenge_id', challenge.id, 'user_id', NEW.user_id),
+    'challenge_join:' || challenge.id || ':' || NEW.user_id
+  )
+  ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_challenge_join ON challenge_participants;
+CREATE TRIGGER notify_challenge_join
+  AFTER INSERT ON challenge_participants
+  FOR EACH ROW EXECUTE FUNCTION notify_challenge_join();
+
+CREATE OR REPLACE FUNCTION notify_completion_milestone()
+RETURNS trigger AS $$
+DECLARE
+  total integer;
+  habit_title text;
+BEGIN
+  SELECT count(*) INTO total FROM habit_completions WHERE habit_id = NEW.habit_id;
+
+  IF total NOT IN (10, 25, 50, 100, 250, 500, 1000) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT title INTO habit_title FROM habits WHERE id = NEW.habit_id;
+
+  -- Deleting and re-logging a check-in must not repeat the milestone
+  INSERT INTO notifications (user_id, title, message, type, data, dedupe_key)
+  VALUES (
+    NEW.user_id,
+    'Milestone reached 🏆',
+    total || ' check-ins of "' || habit_title || '"',
+    'milestone',
+    jsonb_build_object('habit_id', NEW.habit_id, 'count', total),
+    'milestone:' || NEW.habit_id || ':' || total
+  )
+  ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_completion_milestone ON habit_completions;
+CREATE TRIGGER notify_completion_milestone
+  AFTER INSERT ON habit_completions
+  FOR EACH ROW EXECUTE FUNCTION notify_completion_milestone();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END $$;
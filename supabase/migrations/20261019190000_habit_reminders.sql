@@ -0,0 +1,81 @@
+/*
+  # Habit reminders
+
+  1. Changes
+    - Add `reminders` to `habits`: a JSON array of `{ "time": "HH:mm",
+      "days": [0-6] }` in the owner's profile timezone. An empty `days`
+      list means every day.
+
+  2. New Tables
+    - `push_subscriptions`: Web Push endpoints registered by the app, one
+      row per browser
+    - `reminder_deliveries`: reminders already pushed, so the scheduled
+      `send-reminders` function never sends the same one twice
+
+  3. Security
+    - Users manage their own push subscriptions. The app saves them through
+      `save_push_subscription`, which hands an endpoint saved by whoever
+      used the browser before over to the caller.
+    - `reminder_deliveries` has no policies; only the service role used by
+      the edge function touches it
+*/
+
+ALTER TABLE habits ADD COLUMN IF NOT EXISTS reminders jsonb DEFAULT '[]'::jsonb NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'habits_reminders_is_array'
+  ) THEN
+    ALTER TABLE habits ADD CONSTRAINT habits_reminders_is_array CHECK (jsonb_typeof(reminders) = 'array');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  endpoint text UNIQUE NOT NULL,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS reminder_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  habit_id uuid REFERENCES habits(id) ON DELETE CASCADE NOT NULL,
+  day date NOT NULL,
+  time text NOT NULL,
+  sent_at timestamptz DEFAULT now(),
+  UNIQUE(habit_id, day, time)
+);
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reminder_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own push subscriptions"
+  ON push_subscriptions
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON push_subscriptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_habits_with_reminders ON habits(user_id) WHERE reminders <> '[]'::jsonb;
+
+CREATE OR REPLACE FUNCTION save_push_subscription(p_endpoint text, p_p256dh text, p_auth text)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- An endpoint belongs to one browser, so its previous user's row is reused
+  INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth)
+  VALUES (auth.uid(), p_endpoint, p_p256dh, p_auth)
+  ON CONFLICT (endpoint) DO UPDATE
+  SET user_id = EXCLUDED.user_id, p256dh = EXCLUDED.p256dh, auth = EXCLUDED.auth;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION save_push_subscription(text, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION save_push_subscription(text, text, text) TO authenticated;
@@ -0,0 +1,302 @@
+/*
+  # Server-side analytics aggregates
+
+  1. New Functions
+    - Schedule helpers mirroring `src/lib/schedules.ts`:
+      - `habit_period_start(habit, day, time_zone)`: first day of the period
+        of the habit's schedule that contains `day`
+      - `habit_next_period_start(habit, day, time_zone)`: first day of the
+        period after it
+      - `habit_period_index(habit, day, time_zone)`: consecutive integer per
+        scheduled period, so runs of periods are runs of integers. For
+        weekday schedules a rest day gets the index of the scheduled day
+        before it.
+      - `habit_is_scheduled(habit, day)`: false on rest days of a weekday
+        schedule
+      - `habit_required_check_ins(habit)`: check-ins needed per period
+    - `habit_achieved_periods(time_zone, start, end)`: one row per period of
+      the caller's active habits that reached its target, with the local
+      day it was reached. `start` and `end` are optional and limit it to
+      the periods containing them and those in between.
+    - RPCs used by the Dashboard and Analytics tabs:
+      - `analytics_period_progress(day, time_zone)`: check-ins and target of
+        each active habit's period containing `day`
+      - `analytics_daily_counts(start, end, time_zone)`: habits that reached
+        their target on each local day
+      - `analytics_category_breakdown(start, end, time_zone)`: check-ins per
+        habit category
+      - `analytics_completion_rate(start, end, time_zone)`: share of
+        scheduled periods whose target was reached, as a whole percentage
+      - `analytics_habit_streaks(time_zone)`: current and longest streak of
+        each active habit
+      - `analytics_overall_streak(time_zone)`: consecutive local days on
+        which at least one habit reached its target
+
+  2. Notes
+    - Days are local to the IANA `time_zone` passed by the client, which is
+      the profile timezone, so results match the rest of the app
+    - Weeks start on Sunday
+    - The period in progress doesn't break a streak until it is over
+
+  3. Performance
+    - Check-ins are filtered by `completed_at` ranges so the
+      `(habit_id, completed_at)` index is used. Only the streak RPCs read
+      the whole history.
+
+  4. Security
+    - All functions run with the caller's privileges and only read the
+      caller's own habits and check-ins
+*/
+
+CREATE INDEX IF NOT EXISTS idx_habit_completions_habit_id_completed_at
+  ON habit_completions(habit_id, completed_at);
+
+CREATE OR REPLACE FUNCTION habit_is_scheduled(p_habit habits, p_day date)
+RETURNS boolean AS $$
+  SELECT p_habit.frequency <> 'weekdays'
+    OR NOT EXISTS (SELECT 1 FROM unnest(p_habit.schedule_days) AS d WHERE d BETWEEN 0 AND 6)
+    OR extract(dow FROM p_day)::int = ANY(p_habit.schedule_days);
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION habit_required_check_ins(p_habit habits)
+RETURNS integer AS $$
+  SELECT greatest(COALESCE(p_habit.target_count, 1), 1)
+    * CASE
+        WHEN p_habit.frequency = 'times_per_week' THEN greatest(COALESCE(p_habit.schedule_interval, 1), 1)
+        ELSE 1
+      END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION habit_period_start(p_habit habits, p_day date, p_time_zone text)
+RETURNS date AS $$
+  SELECT CASE
+    WHEN p_habit.frequency IN ('weekly', 'times_per_week') THEN
+      p_day - extract(dow FROM p_day)::int
+    WHEN p_habit.frequency = 'monthly' THEN
+      date_trunc('month', p_day)::date
+    WHEN p_habit.frequency = 'every_n_days' THEN
+      (p_habit.created_at AT TIME ZONE p_time_zone)::date
+        + floor(
+            (p_day - (p_habit.created_at AT TIME ZONE p_time_zone)::date)::numeric
+              / greatest(COALESCE(p_habit.schedule_interval, 1), 1)
+          )::int * greatest(COALESCE(p_habit.schedule_interval, 1), 1)
+    ELSE p_day
+  END;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION habit_next_period_start(p_habit habits, p_day date, p_time_zone text)
+RETURNS date AS $$
+  SELECT CASE
+    WHEN p_habit.frequency IN ('weekly', 'times_per_week') THEN
+      habit_period_start(p_habit, p_day, p_time_zone) + 7
+    WHEN p_habit.frequency = 'monthly' THEN
+      (date_trunc('month', p_day) + interval '1 month')::date
+    WHEN p_habit.frequency = 'every_n_days' THEN
+      habit_period_start(p_habit, p_day, p_time_zone) + greatest(COALESCE(p_habit.schedule_interval, 1), 1)
+    ELSE p_day + 1
+  END;
+$$ LANGUAGE sql STABLE;
+
+-- Counted from Sunday 2000-01-02, so week boundaries fall on whole numbers
+CREATE OR REPLACE FUNCTION habit_period_index(p_habit habits, p_day date, p_time_zone text)
+RETURNS integer AS $$
+  SELECT CASE
+    WHEN p_habit.frequency IN ('weekly', 'times_per_week') THEN
+      (habit_period_start(p_habit, p_day, p_time_zone) - DATE '2000-01-02') / 7
+    WHEN p_habit.frequency = 'monthly' THEN
+      extract(year FROM p_day)::int * 12 + extract(month FROM p_day)::int - 1
+    WHEN p_habit.frequency = 'every_n_days' THEN
+      (habit_period_start(p_habit, p_day, p_time_zone) - (p_habit.created_at AT TIME ZONE p_time_zone)::date)
+        / greatest(COALESCE(p_habit.schedule_interval, 1), 1)
+    WHEN p_habit.frequency = 'weekdays'
+      AND EXISTS (SELECT 1 FROM unnest(p_habit.schedule_days) AS d WHERE d BETWEEN 0 AND 6) THEN
+      -- Scheduled days in the full weeks before, plus those so far this week
+      floor((p_day - DATE '2000-01-02')::numeric / 7)::int
+        * (SELECT count(DISTINCT d)::int FROM unnest(p_habit.schedule_days) AS d WHERE d BETWEEN 0 AND 6)
+        + (SELECT count(DISTINCT d)::int FROM unnest(p_habit.schedule_days) AS d
+           WHERE d BETWEEN 0 AND extract(dow FROM p_day)::int)
+    ELSE p_day - DATE '2000-01-02'
+  END;
+$$ LANGUAGE sql STABLE;
+
+/*
+  A period is achieved by the check-in that brings it to its required
+  count. Check-ins on rest days of a weekday schedule form their own
+  unscheduled periods: they count towards `achieved_day` but not streaks.
+
+  With a range, check-ins are read from the start of the period containing
+  `p_start`, since earlier ones in that period count towards its target,
+  up to the end of `p_end`. A period still open at `p_end` is only reached
+  if its target was met by then.
+*/
+CREATE OR REPLACE FUNCTION habit_achieved_periods(
+  p_time_zone text,
+  p_start date DEFAULT NULL,
+  p_end date DEFAULT NULL
+)
+RETURNS TABLE (habit_id uuid, period_index integer, achieved_day date, scheduled boolean) AS $$
+  SELECT
+    c.habit_id,
+    habit_period_index(h, c.day, p_time_zone),
+    c.day,
+    habit_is_scheduled(h, c.day)
+  FROM habits h
+  JOIN LATERAL (
+    SELECT
+      hc.habit_id,
+      local.day,
+      row_number() OVER (PARTITION BY local.period_start ORDER BY hc.completed_at) AS position
+    FROM habit_completions hc
+    CROSS JOIN LATERAL (
+      SELECT
+        (hc.completed_at AT TIME ZONE p_time_zone)::date AS day,
+        habit_period_start(h, (hc.completed_at AT TIME ZONE p_time_zone)::date, p_time_zone) AS period_start
+    ) AS local
+    WHERE hc.habit_id = h.id
+      AND hc.completed_at >= COALESCE(
+        habit_period_start(h, p_start, p_time_zone)::timestamp AT TIME ZONE p_time_zone,
+        '-infinity'
+      )
+      AND hc.completed_at < COALESCE((p_end + 1)::timestamp AT TIME ZONE p_time_zone, 'infinity')
+  ) AS c ON c.position = habit_required_check_ins(h)
+  WHERE h.user_id = auth.uid()
+    AND h.is_active = true;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION analytics_period_progress(p_day date, p_time_zone text)
+RETURNS TABLE (habit_id uuid, due boolean, check_ins integer, target integer) AS $$
+  SELECT
+    h.id,
+    habit_is_scheduled(h, p_day),
+    (
+      SELECT count(*)::int
+      FROM habit_completions hc
+      WHERE hc.habit_id = h.id
+        AND hc.completed_at >= (period.first_day::timestamp AT TIME ZONE p_time_zone)
+        AND hc.completed_at < (period.next_day::timestamp AT TIME ZONE p_time_zone)
+    ),
+    habit_required_check_ins(h)
+  FROM habits h
+  CROSS JOIN LATERAL (
+    SELECT
+      habit_period_start(h, p_day, p_time_zone) AS first_day,
+      habit_next_period_start(h, p_day, p_time_zone) AS next_day
+  ) AS period
+  WHERE h.user_id = auth.uid()
+    AND h.is_active = true;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION analytics_daily_counts(p_start date, p_end date, p_time_zone text)
+RETURNS TABLE (day date, habits_done integer) AS $$
+  SELECT days.day::date, count(a.achieved_day)::int
+  FROM generate_series(p_start, p_end, interval '1 day') AS days(day)
+  LEFT JOIN habit_achieved_periods(p_time_zone, p_start, p_end) AS a ON a.achieved_day = days.day::date
+  GROUP BY days.day
+  ORDER BY days.day;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION analytics_category_breakdown(p_start date, p_end date, p_time_zone text)
+RETURNS TABLE (category text, check_ins integer) AS $$
+  SELECT COALESCE(h.category, 'Other'), count(*)::int
+  FROM habit_completions hc
+  LEFT JOIN habits h ON h.id = hc.habit_id
+  WHERE hc.user_id = auth.uid()
+    AND hc.completed_at >= (p_start::timestamp AT TIME ZONE p_time_zone)
+    AND hc.completed_at < ((p_end + 1)::timestamp AT TIME ZONE p_time_zone)
+  GROUP BY 1
+  ORDER BY 2 DESC;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION analytics_completion_rate(p_start date, p_end date, p_time_zone text)
+RETURNS integer AS $$
+  WITH possible AS (
+    SELECT DISTINCT h.id AS habit_id, habit_period_index(h, days.day::date, p_time_zone) AS period_index
+    FROM habits h
+    CROSS JOIN generate_series(p_start, p_end, interval '1 day') AS days(day)
+    WHERE h.user_id = auth.uid()
+      AND h.is_active = true
+      AND habit_is_scheduled(h, days.day::date)
+  ),
+  achieved AS (
+    SELECT habit_id, period_index FROM habit_achieved_periods(p_time_zone, p_start, NULL) WHERE scheduled
+  )
+  SELECT COALESCE(round(100.0 * count(a.habit_id) / nullif(count(*), 0))::int, 0)
+  FROM possible p
+  LEFT JOIN achieved a USING (habit_id, period_index);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION analytics_habit_streaks(p_time_zone text)
+RETURNS TABLE (habit_id uuid, current_streak integer, longest_streak integer, unit text) AS $$
+  WITH achieved AS (
+    SELECT habit_id, period_index FROM habit_achieved_periods(p_time_zone) WHERE scheduled
+  ),
+  runs AS (
+    SELECT habit_id, max(period_index) AS last_index, count(*)::int AS length
+    FROM (
+      SELECT
+        habit_id,
+        period_index,
+        period_index - row_number() OVER (PARTITION BY habit_id ORDER BY period_index) AS run
+      FROM achieved
+    ) AS numbered
+    GROUP BY habit_id, run
+  ),
+  today AS (
+    SELECT (now() AT TIME ZONE p_time_zone)::date AS day
+  )
+  SELECT
+    h.id,
+    -- The run reaching the current period, or the one before it while the
+    -- current period is still in progress
+    COALESCE((
+      SELECT max(r.length)
+      FROM runs r
+      WHERE r.habit_id = h.id
+        AND r.last_index BETWEEN habit_period_index(h, today.day, p_time_zone)
+            - habit_is_scheduled(h, today.day)::int
+          AND habit_period_index(h, today.day, p_time_zone)
+    ), 0),
+    COALESCE((SELECT max(r.length) FROM runs r WHERE r.habit_id = h.id), 0),
+    CASE
+      WHEN h.frequency IN ('weekly', 'times_per_week') THEN 'week'
+      WHEN h.frequency = 'monthly' THEN 'month'
+      WHEN h.frequency = 'every_n_days' THEN 'cycle'
+      ELSE 'day'
+    END
+  FROM habits h
+  CROSS JOIN today
+  WHERE h.user_id = auth.uid()
+    AND h.is_active = true;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION analytics_overall_streak(p_time_zone text)
+RETURNS TABLE (current_streak integer, longest_streak integer) AS $$
+  WITH active_days AS (
+    SELECT DISTINCT achieved_day - DATE '2000-01-02' AS day_index
+    FROM habit_achieved_periods(p_time_zone)
+  ),
+  runs AS (
+    SELECT max(day_index) AS last_index, count(*)::int AS length
+    FROM (
+      SELECT day_index, day_index - row_number() OVER (ORDER BY day_index) AS run
+      FROM active_days
+    ) AS numbered
+    GROUP BY run
+  ),
+  today AS (
+    SELECT (now() AT TIME ZONE p_time_zone)::date - DATE '2000-01-02' AS day_index
+  )
+  SELECT
+    COALESCE((
+      SELECT max(r.length) FROM runs r, today
+      WHERE r.last_index BETWEEN today.day_index - 1 AND today.day_index
+    ), 0),
+    COALESCE((SELECT max(length) FROM runs), 0);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION analytics_period_progress(date, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION analytics_daily_counts(date, date, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION analytics_category_breakdown(date, date, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION analytics_completion_rate(date, date, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION analytics_habit_streaks(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION analytics_overall_streak(text) TO authenticated;
@@ -0,0 +1,307 @@
+/*
+  # Challenge habits and progress
+
+  1. New Tables
+    - `challenge_habits`: the target habits of a challenge, each with a rule
+      in the same terms as a habit schedule: `frequency`, `target_count`,
+      `schedule_days` and `schedule_interval` (e.g. "Code 30 minutes",
+      daily, once a day)
+
+  2. Changes
+    - Add `challenge_habit_id` to `habits`, linking a participant's habit to
+      the challenge habit it tracks
+    - Leaving a challenge unlinks the participant's habits; the habits and
+      their check-ins are kept
+
+  3. New Functions
+    - `create_challenge(p_challenge, p_habits)`: creates a challenge and its
+      target habits in one transaction
+    - `join_challenge(p_challenge_id, p_links)`: joins a challenge and, for
+      each target habit, links the existing habit given in `p_links`
+      (`{ challenge_habit_id: habit_id }`) or creates a new one following
+      the rule
+    - `challenge_progress(p_challenge_id)`: each participant's progress per
+      target habit, counted from the check-ins of their linked habits
+      between `start_date` and `end_date`, in the participant's timezone
+
+  4. Security
+    - Anyone signed in can read the target habits of challenges they can
+      see; only the creator can change them
+    - `challenge_progress` runs as its owner so it can count other
+      participants' check-ins; it only returns totals and display names
+*/
+
+CREATE TABLE IF NOT EXISTS challenge_habits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  challenge_id uuid REFERENCES challenges(id) ON DELETE CASCADE NOT NULL,
+  title text NOT NULL,
+  description text,
+  category text DEFAULT 'General' NOT NULL,
+  icon text DEFAULT '🎯' NOT NULL,
+  color text DEFAULT 'bg-purple-500' NOT NULL,
+  frequency text DEFAULT 'daily' NOT NULL,
+  target_count integer DEFAULT 1 NOT NULL CHECK (target_count >= 1),
+  schedule_days integer[],
+  schedule_interval integer,
+  position integer DEFAULT 0 NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT challenge_habits_frequency_check
+    CHECK (frequency IN ('daily', 'weekly', 'weekdays', 'times_per_week', 'every_n_days', 'monthly')),
+  CONSTRAINT challenge_habits_schedule_check CHECK (
+    (frequency <> 'weekdays' OR (
+      cardinality(schedule_days) > 0
+      AND schedule_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]
+    ))
+    AND (frequency NOT IN ('times_per_week', 'every_n_days') OR schedule_interval >= 1)
+    AND (frequency <> 'times_per_week' OR schedule_interval <= 7)
+  )
+);
+
+ALTER TABLE challenge_habits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view habits of visible challenges"
+  ON challenge_habits
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM challenges c WHERE c.id = challenge_id));
+
+CREATE POLICY "Creators can manage their challenge habits"
+  ON challenge_habits
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM challenges c WHERE c.id = challenge_id AND c.creator_id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM challenges c WHERE c.id = challenge_id AND c.creator_id = auth.uid()));
+
+ALTER TABLE habits ADD COLUMN IF NOT EXISTS challenge_habit_id uuid REFERENCES challenge_habits(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_challenge_habits_challenge_id ON challenge_habits(challenge_id);
+CREATE INDEX IF NOT EXISTS idx_habits_challenge_habit_id ON habits(challenge_habit_id);
+
+-- A habit can only track one challenge habit, and a participant needs only
+-- one habit per challenge habit
+CREATE UNIQUE INDEX IF NOT EXISTS idx_habits_user_challenge_habit
+  ON habits(user_id, challenge_habit_id)
+  WHERE challenge_habit_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION unlink_challenge_habits()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE habits
+  SET challenge_habit_id = NULL
+  WHERE user_id = OLD.user_id
+    AND challenge_habit_id IN (SELECT id FROM challenge_habits WHERE challenge_id = OLD.challenge_id);
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS unlink_challenge_habits ON challenge_participants;
+CREATE TRIGGER unlink_challenge_habits
+  AFTER DELETE ON challenge_participants
+  FOR EACH ROW EXECUTE FUNCTION unlink_challenge_habits();
+
+CREATE OR REPLACE FUNCTION create_challenge(p_challenge jsonb, p_habits jsonb)
+RETURNS challenges AS $$
+DECLARE
+  created challenges;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_habits) <> 'array' OR jsonb_array_length(p_habits) = 0 THEN
+    RAISE EXCEPTION 'Add at least one habit to the challenge';
+  END IF;
+
+  INSERT INTO challenges (title, description, creator_id, start_date, end_date, max_participants)
+  SELECT c.title, c.description, auth.uid(), c.start_date, c.end_date, c.max_participants
+  FROM jsonb_to_record(p_challenge) AS c(
+    title text,
+    description text,
+    start_date date,
+    end_date date,
+    max_participants integer
+  )
+  RETURNING * INTO created;
+
+  IF created.end_date < created.start_date THEN
+    RAISE EXCEPTION 'The challenge must end on or after its start date';
+  END IF;
+
+  INSERT INTO challenge_habits (
+    challenge_id, title, description, category, icon, color, frequency,
+    target_count, schedule_days, schedule_interval, position
+  )
+  SELECT
+    created.id,
+    h.title,
+    h.description,
+    COALESCE(h.category, 'General'),
+    COALESCE(h.icon, '🎯'),
+    COALESCE(h.color, 'bg-purple-500'),
+    COALESCE(h.frequency, 'daily'),
+    COALESCE(h.target_count, 1),
+    h.schedule_days,
+    h.schedule_interval,
+    h.position - 1
+  FROM ROWS FROM (
+    jsonb_to_recordset(p_habits) AS (
+      title text,
+      description text,
+      category text,
+      icon text,
+      color text,
+      frequency text,
+      target_count integer,
+      schedule_days integer[],
+      schedule_interval integer
+    )
+  ) WITH ORDINALITY AS h(
+    title, description, category, icon, color, frequency, target_count,
+    schedule_days, schedule_interval, position
+  );
+
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION join_challenge(p_challenge_id uuid, p_links jsonb DEFAULT '{}')
+RETURNS void AS $$
+DECLARE
+  target challenge_habits;
+  linked_habit_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM challenges WHERE id = p_challenge_id AND is_active = true) THEN
+    RAISE EXCEPTION 'This challenge is no longer available';
+  END IF;
+
+  INSERT INTO challenge_participants (challenge_id, user_id)
+  VALUES (p_challenge_id, auth.uid());
+
+  FOR target IN
+    SELECT * FROM challenge_habits WHERE challenge_id = p_challenge_id ORDER BY position
+  LOOP
+    linked_habit_id := NULLIF(p_links->>target.id::text, '')::uuid;
+
+    IF linked_habit_id IS NOT NULL THEN
+      UPDATE habits
+      SET challenge_habit_id = target.id
+      WHERE id = linked_habit_id
+        AND user_id = auth.uid()
+        AND is_active = true
+        AND challenge_habit_id IS NULL;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Habit % can''t be linked; it may already track another challenge', linked_habit_id;
+      END IF;
+    ELSE
+      INSERT INTO habits (
+        user_id, title, description, category, frequency, target_count,
+        schedule_days, schedule_interval, difficulty, icon, color, challenge_habit_id
+      )
+      VALUES (
+        auth.uid(), target.title, target.description, target.category, target.frequency, target.target_count,
+        target.schedule_days, target.schedule_interval, 'medium', target.icon, target.color, target.id
+      );
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+/*
+  Periods are counted with the habit schedule helpers, by treating the rule
+  as a habit created on the challenge's start date: `every_n_days` cycles
+  then start with the challenge.
+*/
+CREATE OR REPLACE FUNCTION challenge_habit_rule(p_target challenge_habits, p_start_date date, p_time_zone text)
+RETURNS habits AS $$
+  SELECT jsonb_populate_record(
+    NULL::habits,
+    jsonb_build_object(
+      'frequency', p_target.frequency,
+      'target_count', p_target.target_count,
+      'schedule_days', p_target.schedule_days,
+      'schedule_interval', p_target.schedule_interval,
+      'created_at', p_start_date::timestamp AT TIME ZONE p_time_zone
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION challenge_progress(p_challenge_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  display_name text,
+  challenge_habit_id uuid,
+  check_ins integer,
+  periods_completed integer,
+  periods_total integer
+) AS $$
+  WITH challenge AS (
+    SELECT * FROM challenges WHERE id = p_challenge_id AND is_active = true
+  ),
+  participants AS (
+    SELECT
+      cp.user_id,
+      COALESCE(NULLIF(p.full_name, ''), NULLIF(p.username, ''), 'Participant') AS display_name,
+      COALESCE(p.timezone, 'UTC') AS time_zone
+    FROM challenge_participants cp
+    JOIN challenge ON challenge.id = cp.challenge_id
+    LEFT JOIN profiles p ON p.id = cp.user_id
+  ),
+  targets AS (
+    SELECT
+      participants.user_id,
+      participants.display_name,
+      participants.time_zone,
+      ch.id AS challenge_habit_id,
+      challenge_habit_rule(ch, challenge.start_date, participants.time_zone) AS rule,
+      challenge.start_date,
+      challenge.end_date
+    FROM participants
+    CROSS JOIN challenge
+    JOIN challenge_habits ch ON ch.challenge_id = challenge.id
+  ),
+  check_ins AS (
+    SELECT
+      t.user_id,
+      t.challenge_habit_id,
+      habit_period_start(t.rule, local.day, t.time_zone) AS period_start,
+      count(*)::int AS check_ins
+    FROM targets t
+    JOIN habits h ON h.user_id = t.user_id AND h.challenge_habit_id = t.challenge_habit_id
+    JOIN habit_completions hc ON hc.habit_id = h.id
+    CROSS JOIN LATERAL (SELECT (hc.completed_at AT TIME ZONE t.time_zone)::date AS day) AS local
+    -- Up to the participant's today, like `challenge_standings`
+    WHERE local.day BETWEEN t.start_date AND least(t.end_date, (now() AT TIME ZONE t.time_zone)::date)
+      AND habit_is_scheduled(t.rule, local.day)
+      AND NOT COALESCE(hc.backfill_flagged, false)
+    GROUP BY 1, 2, 3
+  )
+  SELECT
+    t.user_id,
+    t.display_name,
+    t.challenge_habit_id,
+    COALESCE((
+      SELECT sum(c.check_ins)::int FROM check_ins c
+      WHERE c.user_id = t.user_id AND c.challenge_habit_id = t.challenge_habit_id
+    ), 0),
+    (
+      SELECT count(*)::int FROM check_ins c
+      WHERE c.user_id = t.user_id
+        AND c.challenge_habit_id = t.challenge_habit_id
+        AND c.check_ins >= habit_required_check_ins(t.rule)
+    ),
+    (
+      SELECT count(DISTINCT habit_period_start(t.rule, days.day::date, t.time_zone))::int
+      FROM generate_series(t.start_date, t.end_date, interval '1 day') AS days(day)
+      WHERE habit_is_scheduled(t.rule, days.day::date)
+    )
+  FROM targets t;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_challenge(jsonb, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION join_challenge(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION challenge_progress(uuid) TO authenticated;
@@ -0,0 +1,509 @@
+/*
+  # Challenge leaderboards
+
+  1. Changes
+    - `challenges.scoring_mode`: how participants are ranked
+      - `completions`: periods completed, i.e. days (or weeks, months) on
+        which a challenge habit met its rule
+      - `streak`: longest run of consecutive completed periods, summed over
+        the challenge habits
+      - `consistency`: completed periods as a percentage of the periods so
+        far; the period in progress only counts once it is completed
+      - `points`: completed periods weighted by difficulty (easy 1,
+        medium 2, hard 3)
+    - `challenges.scores_updated_at`: bumped when someone joins or leaves,
+      so clients can refresh over realtime
+    - `challenge_participants.scores_updated_at`: bumped when that
+      participant checks in. Check-ins only lock their own participant
+      row, not the challenge everyone is checking in to.
+    - `challenge_habits.difficulty`: the weight used by `points`, and the
+      difficulty of habits created when joining
+
+  2. New Tables
+    - `challenge_results`: final standings, written once when a challenge
+      has ended
+
+  3. New Functions
+    - `challenge_standings(p_challenge_id)`: ranks the participants. Ties
+      are broken, in order, by
+        1. consistency percentage
+        2. periods completed
+        3. who reached their final tally first
+        4. who joined first
+    - `challenge_leaderboard(p_challenge_id)`: live standings while the
+      challenge runs; after `end_date` the frozen `challenge_results`
+
+  4. Notes
+    - A challenge has ended once its end date is over in every timezone,
+      i.e. at midnight after `end_date` in UTC-12
+    - Each participant's days are counted in their own profile timezone
+    - Check-ins flagged as late backfills (`backfill_flagged`) don't count
+
+  5. Security
+    - Everyone signed in can read final results; only
+      `challenge_leaderboard` writes them
+    - `challenges` and `challenge_participants` are added to the realtime
+      publication
+*/
+
+ALTER TABLE challenges ADD COLUMN IF NOT EXISTS scoring_mode text DEFAULT 'completions' NOT NULL;
+ALTER TABLE challenges ADD COLUMN IF NOT EXISTS scores_updated_at timestamptz DEFAULT now() NOT NULL;
+ALTER TABLE challenge_participants ADD COLUMN IF NOT EXISTS scores_updated_at timestamptz DEFAULT now() NOT NULL;
+
+ALTER TABLE challenges DROP CONSTRAINT IF EXISTS challenges_scoring_mode_check;
+ALTER TABLE challenges ADD CONSTRAINT challenges_scoring_mode_check
+  CHECK (scoring_mode IN ('completions', 'streak', 'consistency', 'points'));
+
+ALTER TABLE challenge_habits ADD COLUMN IF NOT EXISTS difficulty text DEFAULT 'medium' NOT NULL;
+
+ALTER TABLE challenge_habits DROP CONSTRAINT IF EXISTS challenge_habits_difficulty_check;
+ALTER TABLE challenge_habits ADD CONSTRAINT challenge_habits_difficulty_check
+  CHECK (difficulty IN ('easy', 'medium', 'hard'));
+
+CREATE TABLE IF NOT EXISTS challenge_results (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  challenge_id uuid REFERENCES challenges(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  rank integer NOT NULL,
+  display_name text NOT NULL,
+  score integer NOT NULL,
+  check_ins integer NOT NULL,
+  periods_completed integer NOT NULL,
+  periods_total integer NOT NULL,
+  consistency integer NOT NULL,
+  longest_streak integer NOT NULL,
+  points integer NOT NULL,
+  reached_at timestamptz,
+  joined_at timestamptz NOT NULL,
+  finalized_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(challenge_id, user_id)
+);
+
+ALTER TABLE challenge_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view challenge results"
+  ON challenge_results
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION challenge_has_ended(p_challenge challenges)
+RETURNS boolean AS $$
+  SELECT now() >= (p_challenge.end_date + 1)::timestamp AT TIME ZONE 'Etc/GMT+12';
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION difficulty_weight(p_difficulty text)
+RETURNS integer AS $$
+  SELECT CASE p_difficulty WHEN 'easy' THEN 1 WHEN 'hard' THEN 3 ELSE 2 END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Runs with the caller's privileges; `challenge_leaderboard` calls it as
+-- its owner to see every participant's check-ins
+CREATE OR REPLACE FUNCTION challenge_standings(p_challenge_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  display_name text,
+  joined_at timestamptz,
+  check_ins integer,
+  periods_completed integer,
+  periods_total integer,
+  consistency integer,
+  longest_streak integer,
+  points integer,
+  reached_at timestamptz,
+  score integer,
+  rank integer
+) AS $$
+  WITH challenge AS (
+    SELECT * FROM challenges WHERE id = p_challenge_id
+  ),
+  participants AS (
+    SELECT
+      cp.user_id,
+      cp.joined_at,
+      COALESCE(NULLIF(p.full_name, ''), NULLIF(p.username, ''), 'Participant') AS display_name,
+      COALESCE(p.timezone, 'UTC') AS time_zone
+    FROM challenge_participants cp
+    JOIN challenge ON challenge.id = cp.challenge_id
+    LEFT JOIN profiles p ON p.id = cp.user_id
+  ),
+  targets AS (
+    SELECT
+      participants.user_id,
+      participants.time_zone,
+      ch.id AS challenge_habit_id,
+      difficulty_weight(ch.difficulty) AS weight,
+      challenge_habit_rule(ch, challenge.start_date, participants.time_zone) AS rule,
+      challenge.start_date,
+      challenge.end_date,
+      least(challenge.end_date, (now() AT TIME ZONE participants.time_zone)::date) AS as_of,
+      (now() AT TIME ZONE participants.time_zone)::date > challenge.end_date AS over
+    FROM participants
+    CROSS JOIN challenge
+    JOIN challenge_habits ch ON ch.challenge_id = challenge.id
+  ),
+  -- The scheduled periods so far, numbered in order
+  periods AS (
+    SELECT
+      t.user_id,
+      t.challenge_habit_id,
+      p.period_start,
+      row_number() OVER (PARTITION BY t.user_id, t.challenge_habit_id ORDER BY p.period_start) AS ordinal
+    FROM targets t
+    CROSS JOIN LATERAL (
+      SELECT DISTINCT habit_period_start(t.rule, days.day::date, t.time_zone) AS period_start
+      FROM generate_series(t.start_date, t.as_of, interval '1 day') AS days(day)
+      WHERE habit_is_scheduled(t.rule, days.day::date)
+    ) AS p
+  ),
+  check_ins AS (
+    SELECT
+      t.user_id,
+      t.challenge_habit_id,
+      hc.completed_at,
+      period.period_start,
+      habit_required_check_ins(t.rule) AS required,
+      row_number() OVER (
+        PARTITION BY t.user_id, t.challenge_habit_id, period.period_start
+        ORDER BY hc.completed_at
+      ) AS nth
+    FROM targets t
+    JOIN habits h ON h.user_id = t.user_id AND h.challenge_habit_id = t.challenge_habit_id
+    JOIN habit_completions hc ON hc.habit_id = h.id
+    CROSS JOIN LATERAL (SELECT (hc.completed_at AT TIME ZONE t.time_zone)::date AS day) AS local
+    CROSS JOIN LATERAL (SELECT habit_period_start(t.rule, local.day, t.time_zone) AS period_start) AS period
+    WHERE local.day BETWEEN t.start_date AND t.as_of
+      AND habit_is_scheduled(t.rule, local.day)
+      -- Late backfills don't score, so a leaderboard can't be bulk-filled
+      AND NOT COALESCE(hc.backfill_flagged, false)
+  ),
+  -- A period is achieved by the check-in that brings it to its required count
+  achieved AS (
+    SELECT c.user_id, c.challenge_habit_id, c.period_start, c.completed_at AS achieved_at
+    FROM check_ins c
+    WHERE c.nth = c.required
+  ),
+  -- Runs of consecutive achieved periods share `ordinal - n`
+  runs AS (
+    SELECT
+      p.user_id,
+      p.challenge_habit_id,
+      p.ordinal - row_number() OVER (PARTITION BY p.user_id, p.challenge_habit_id ORDER BY p.ordinal) AS run
+    FROM periods p
+    JOIN achieved a
+      ON a.user_id = p.user_id
+      AND a.challenge_habit_id = p.challenge_habit_id
+      AND a.period_start = p.period_start
+  ),
+  target_totals AS (
+    SELECT
+      t.user_id,
+      (SELECT count(*) FROM check_ins c
+        WHERE c.user_id = t.user_id AND c.challenge_habit_id = t.challenge_habit_id) AS check_ins,
+      (SELECT count(*) FROM achieved a
+        WHERE a.user_id = t.user_id AND a.challenge_habit_id = t.challenge_habit_id) AS periods_completed,
+      (SELECT max(a.achieved_at) FROM achieved a
+        WHERE a.user_id = t.user_id AND a.challenge_habit_id = t.challenge_habit_id) AS reached_at,
+      -- Periods that are over, plus the one in progress once it is achieved
+      (SELECT count(*) FROM periods p
+        WHERE p.user_id = t.user_id
+          AND p.challenge_habit_id = t.challenge_habit_id
+          AND (
+            t.over
+            OR p.ordinal < (SELECT max(q.ordinal) FROM periods q
+              WHERE q.user_id = t.user_id AND q.challenge_habit_id = t.challenge_habit_id)
+            OR EXISTS (SELECT 1 FROM achieved a
+              WHERE a.user_id = t.user_id
+                AND a.challenge_habit_id = t.challenge_habit_id
+                AND a.period_start = p.period_start)
+          )) AS periods_elapsed,
+      (SELECT count(DISTINCT habit_period_start(t.rule, days.day::date, t.time_zone))
+        FROM generate_series(t.start_date, t.end_date, interval '1 day') AS days(day)
+        WHERE habit_is_scheduled(t.rule, days.day::date)) AS periods_total,
+      (SELECT COALESCE(max(length), 0) FROM (
+        SELECT count(*) AS length FROM runs r
+        WHERE r.user_id = t.user_id AND r.challenge_habit_id = t.challenge_habit_id
+        GROUP BY r.run
+      ) AS lengths) AS longest_streak,
+      t.weight
+    FROM targets t
+  ),
+  totals AS (
+    SELECT
+      participants.user_id,
+      participants.display_name,
+      participants.joined_at,
+      COALESCE(sum(tt.check_ins), 0)::int AS check_ins,
+      COALESCE(sum(tt.periods_completed), 0)::int AS periods_completed,
+      COALESCE(sum(tt.periods_elapsed), 0)::int AS periods_elapsed,
+      COALESCE(sum(tt.periods_total), 0)::int AS periods_total,
+      COALESCE(sum(tt.longest_streak), 0)::int AS longest_streak,
+      COALESCE(sum(tt.periods_completed * tt.weight), 0)::int AS points,
+      max(tt.reached_at) AS reached_at
+    FROM participants
+    LEFT JOIN target_totals tt ON tt.user_id = participants.user_id
+    GROUP BY participants.user_id, participants.display_name, participants.joined_at
+  ),
+  scored AS (
+    SELECT
+      totals.*,
+      CASE WHEN totals.periods_elapsed > 0
+        THEN round(100.0 * totals.periods_completed / totals.periods_elapsed)::int
+        ELSE 0
+      END AS consistency
+    FROM totals
+  ),
+  scores AS (
+    SELECT
+      scored.*,
+      CASE challenge.scoring_mode
+        WHEN 'streak' THEN scored.longest_streak
+        WHEN 'consistency' THEN scored.consistency
+        WHEN 'points' THEN scored.points
+        ELSE scored.periods_completed
+      END AS score
+    FROM scored
+    CROSS JOIN challenge
+  )
+  SELECT
+    s.user_id,
+    s.display_name,
+    s.joined_at,
+    s.check_ins,
+    s.periods_completed,
+    s.periods_total,
+    s.consistency,
+    s.longest_streak,
+    s.points,
+    s.reached_at,
+    s.score,
+    rank() OVER (
+      ORDER BY s.score DESC, s.consistency DESC, s.periods_completed DESC, s.reached_at ASC NULLS LAST, s.joined_at ASC
+    )::int
+  FROM scores s;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION challenge_leaderboard(p_challenge_id uuid)
+RETURNS TABLE (
+  rank integer,
+  user_id uuid,
+  display_name text,
+  score integer,
+  check_ins integer,
+  periods_completed integer,
+  periods_total integer,
+  consistency integer,
+  longest_streak integer,
+  points integer,
+  reached_at timestamptz,
+  is_final boolean
+) AS $$
+#variable_conflict use_column
+DECLARE
+  target challenges;
+BEGIN
+  SELECT * INTO target FROM challenges WHERE id = p_challenge_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF NOT challenge_has_ended(target) THEN
+    RETURN QUERY
+      SELECT s.rank, s.user_id, s.display_name, s.score, s.check_ins, s.periods_completed, s.periods_total,
+        s.consistency, s.longest_streak, s.points, s.reached_at, false
+      FROM challenge_standings(p_challenge_id) s
+      ORDER BY s.rank, s.display_name;
+    RETURN;
+  END IF;
+
+  -- Freeze the standings the first time they are read after the end
+  IF NOT EXISTS (SELECT 1 FROM challenge_results r WHERE r.challenge_id = p_challenge_id) THEN
+    INSERT INTO challenge_results (
+      challenge_id, user_id, rank, display_name, score, check_ins, periods_completed,
+      periods_total, consistency, longest_streak, points, reached_at, joined_at
+    )
+    SELECT
+      p_challenge_id, s.user_id, s.rank, s.display_name, s.score, s.check_ins, s.periods_completed,
+      s.periods_total, s.consistency, s.longest_streak, s.points, s.reached_at, s.joined_at
+    FROM challenge_standings(p_challenge_id) s
+    ON CONFLICT (challenge_id, user_id) DO NOTHING;
+  END IF;
+
+  RETURN QUERY
+    SELECT r.rank, r.user_id, r.display_name, r.score, r.check_ins, r.periods_completed, r.periods_total,
+      r.consistency, r.longest_streak, r.points, r.reached_at, true
+    FROM challenge_results r
+    WHERE r.challenge_id = p_challenge_id
+    ORDER BY r.rank, r.display_name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Lets clients watching a challenge know its standings may have changed
+CREATE OR REPLACE FUNCTION touch_challenge_scores()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'challenge_participants' THEN
+    UPDATE challenges c
+    SET scores_updated_at = now()
+    WHERE c.id = CASE TG_OP WHEN 'DELETE' THEN OLD.challenge_id ELSE NEW.challenge_id END
+      AND NOT challenge_has_ended(c);
+  ELSE
+    UPDATE challenge_participants cp
+    SET scores_updated_at = now()
+    FROM habits h
+    JOIN challenge_habits ch ON ch.id = h.challenge_habit_id
+    JOIN challenges c ON c.id = ch.challenge_id
+    WHERE h.id = CASE TG_OP WHEN 'DELETE' THEN OLD.habit_id ELSE NEW.habit_id END
+      AND cp.challenge_id = c.id
+      AND cp.user_id = h.user_id
+      AND NOT challenge_has_ended(c);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS touch_challenge_scores ON habit_completions;
+CREATE TRIGGER touch_challenge_scores
+  AFTER INSERT OR UPDATE OR DELETE ON habit_completions
+  FOR EACH ROW EXECUTE FUNCTION touch_challenge_scores();
+
+DROP TRIGGER IF EXISTS touch_challenge_scores ON challenge_participants;
+CREATE TRIGGER touch_challenge_scores
+  AFTER INSERT OR DELETE ON challenge_participants
+  FOR EACH ROW EXECUTE FUNCTION touch_challenge_scores();
+
+CREATE OR REPLACE FUNCTION create_challenge(p_challenge jsonb, p_habits jsonb)
+RETURNS challenges AS $$
+DECLARE
+  created challenges;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_habits) <> 'array' OR jsonb_array_length(p_habits) = 0 THEN
+    RAISE EXCEPTION 'Add at least one habit to the challenge';
+  END IF;
+
+  INSERT INTO challenges (title, description, creator_id, start_date, end_date, max_participants, scoring_mode)
+  SELECT c.title, c.description, auth.uid(), c.start_date, c.end_date, c.max_participants,
+    COALESCE(c.scoring_mode, 'completions')
+  FROM jsonb_to_record(p_challenge) AS c(
+    title text,
+    description text,
+    start_date date,
+    end_date date,
+    max_participants integer,
+    scoring_mode text
+  )
+  RETURNING * INTO created;
+
+  IF created.end_date < created.start_date THEN
+    RAISE EXCEPTION 'The challenge must end on or after its start date';
+  END IF;
+
+  INSERT INTO challenge_habits (
+    challenge_id, title, description, category, icon, color, frequency,
+    target_count, schedule_days, schedule_interval, difficulty, position
+  )
+  SELECT
+    created.id,
+    h.title,
+    h.description,
+    COALESCE(h.category, 'General'),
+    COALESCE(h.icon, '🎯'),
+    COALESCE(h.color, 'bg-purple-500'),
+    COALESCE(h.frequency, 'daily'),
+    COALESCE(h.target_count, 1),
+    h.schedule_days,
+    h.schedule_interval,
+    COALESCE(h.difficulty, 'medium'),
+    h.position - 1
+  FROM ROWS FROM (
+    jsonb_to_recordset(p_habits) AS (
+      title text,
+      description text,
+      category text,
+      icon text,
+      color text,
+      frequency text,
+      target_count integer,
+      schedule_days integer[],
+      schedule_interval integer,
+      difficulty text
+    )
+  ) WITH ORDINALITY AS h(
+    title, description, category, icon, color, frequency, target_count,
+    schedule_days, schedule_interval, difficulty, position
+  );
+
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION join_challenge(p_challenge_id uuid, p_links jsonb DEFAULT '{}')
+RETURNS void AS $$
+DECLARE
+  target challenge_habits;
+  linked_habit_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM challenges WHERE id = p_challenge_id AND is_active = true) THEN
+    RAISE EXCEPTION 'This challenge is no longer available';
+  END IF;
+
+  INSERT INTO challenge_participants (challenge_id, user_id)
+  VALUES (p_challenge_id, auth.uid());
+
+  FOR target IN
+    SELECT * FROM challenge_habits WHERE challenge_id = p_challenge_id ORDER BY position
+  LOOP
+    linked_habit_id := NULLIF(p_links->>target.id::text, '')::uuid;
+
+    IF linked_habit_id IS NOT NULL THEN
+      UPDATE habits
+      SET challenge_habit_id = target.id
+      WHERE id = linked_habit_id
+        AND user_id = auth.uid()
+        AND is_active = true
+        AND challenge_habit_id IS NULL;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Habit % can''t be linked; it may already track another challenge', linked_habit_id;
+      END IF;
+    ELSE
+      INSERT INTO habits (
+        user_id, title, description, category, frequency, target_count,
+        schedule_days, schedule_interval, difficulty, icon, color, challenge_habit_id
+      )
+      VALUES (
+        auth.uid(), target.title, target.description, target.category, target.frequency, target.target_count,
+        target.schedule_days, target.schedule_interval, target.difficulty, target.icon, target.color, target.id
+      );
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'challenges'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE challenges;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'challenge_participants'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE challenge_participants;
+  END IF;
+END $$;
+
+GRANT EXECUTE ON FUNCTION challenge_leaderboard(uuid) TO authenticated;
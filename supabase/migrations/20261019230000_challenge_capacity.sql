@@ -0,0 +1,286 @@
+/*
+  # Challenge capacity, dates and waitlist
+
+  1. Changes
+    - `challenges` must end on or after their start date, and
+      `max_participants` must be at least 1 when set. Existing rows are not
+      re-checked
+    - Joining is refused once the challenge has ended (in the joiner's
+      timezone), when it is no longer active, or when it is full. This is
+      enforced by a trigger on `challenge_participants`, so it holds for
+      direct inserts as well as `join_challenge`
+
+  2. New Tables
+    - `challenge_waitlist`: people waiting for a spot in a full challenge,
+      with the habit links they chose when asking to join
+
+  3. Functions
+    - `join_challenge(p_challenge_id, p_links)` now returns `joined`, or
+      `waitlisted` when the challenge is full
+    - When a participant leaves, the longest-waiting people are promoted
+      into the free spots, with the habits they chose, and notified
+    - `challenge_availability(p_challenge_ids)`: participant and waitlist
+      counts, spots left, and the caller's waitlist position
+
+  4. Security
+    - Users can see and remove their own waitlist entries; entries are
+      only created by `join_challenge`
+    - `enroll_challenge_participant` can add anyone to a challenge, so it
+      is not executable by clients
+*/
+
+ALTER TABLE challenges DROP CONSTRAINT IF EXISTS challenges_dates_check;
+ALTER TABLE challenges ADD CONSTRAINT challenges_dates_check
+  CHECK (end_date >= start_date) NOT VALID;
+
+ALTER TABLE challenges DROP CONSTRAINT IF EXISTS challenges_max_participants_check;
+ALTER TABLE challenges ADD CONSTRAINT challenges_max_participants_check
+  CHECK (max_participants IS NULL OR max_participants >= 1) NOT VALID;
+
+CREATE TABLE IF NOT EXISTS challenge_waitlist (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  challenge_id uuid REFERENCES challenges(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  links jsonb DEFAULT '{}'::jsonb NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(challenge_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_challenge_waitlist_challenge_id_created_at
+  ON challenge_waitlist(challenge_id, created_at);
+
+ALTER TABLE challenge_waitlist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own waitlist entries"
+  ON challenge_waitlist
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can leave waitlists"
+  ON challenge_waitlist
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- The joiner's local date, so a challenge stays open until its last day is
+-- over where they live
+CREATE OR REPLACE FUNCTION user_local_date(p_user_id uuid)
+RETURNS date AS $$
+  SELECT (now() AT TIME ZONE COALESCE(
+    (SELECT timezone FROM profiles WHERE id = p_user_id),
+    'UTC'
+  ))::date;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Only called from definer functions; it reads any user's timezone
+REVOKE EXECUTE ON FUNCTION user_local_date(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION check_challenge_join()
+RETURNS trigger AS $$
+DECLARE
+  challenge challenges;
+  participants integer;
+BEGIN
+  -- Locks the challenge so concurrent joins can't both take the last spot
+  SELECT * INTO challenge FROM challenges WHERE id = NEW.challenge_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT challenge.is_active THEN
+    RAISE EXCEPTION 'This challenge is no longer available';
+  END IF;
+
+  IF user_local_date(NEW.user_id) > challenge.end_date THEN
+    RAISE EXCEPTION 'This challenge has ended';
+  END IF;
+
+  IF challenge.max_participants IS NOT NULL THEN
+    SELECT count(*) INTO participants FROM challenge_participants WHERE challenge_id = NEW.challenge_id;
+
+    IF participants >= challenge.max_participants THEN
+      RAISE EXCEPTION 'This challenge is full';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_challenge_join ON challenge_participants;
+CREATE TRIGGER check_challenge_join
+  BEFORE INSERT ON challenge_participants
+  FOR EACH ROW EXECUTE FUNCTION check_challenge_join();
+
+/*
+  Adds a participant and links or creates their habits. Links that are no
+  longer valid raise when `p_strict`, and otherwise fall back to a new habit:
+  a waitlisted user's habit may have been archived or linked elsewhere by the
+  time they are promoted.
+*/
+CREATE OR REPLACE FUNCTION enroll_challenge_participant(
+  p_challenge_id uuid,
+  p_user_id uuid,
+  p_links jsonb,
+  p_strict boolean
+)
+RETURNS void AS $$
+DECLARE
+  target challenge_habits;
+  linked_habit_id uuid;
+BEGIN
+  INSERT INTO challenge_participants (challenge_id, user_id)
+  VALUES (p_challenge_id, p_user_id);
+
+  FOR target IN
+    SELECT * FROM challenge_habits WHERE challenge_id = p_challenge_id ORDER BY position
+  LOOP
+    linked_habit_id := NULLIF(p_links->>target.id::text, '')::uuid;
+
+    IF linked_habit_id IS NOT NULL THEN
+      UPDATE habits
+      SET challenge_habit_id = target.id
+      WHERE id = linked_habit_id
+        AND user_id = p_user_id
+        AND is_active = true
+        AND challenge_habit_id IS NULL;
+
+      IF NOT FOUND THEN
+        IF p_strict THEN
+          RAISE EXCEPTION 'Habit % can''t be linked; it may already track another challenge', linked_habit_id;
+        END IF;
+        linked_habit_id := NULL;
+      END IF;
+    END IF;
+
+    IF linked_habit_id IS NULL THEN
+      INSERT INTO habits (
+        user_id, title, description, category, frequency, target_count,
+        schedule_days, schedule_interval, difficulty, icon, color, challenge_habit_id
+      )
+      VALUES (
+        p_user_id, target.title, target.description, target.category, target.frequency, target.target_count,
+        target.schedule_days, target.schedule_interval, target.difficulty, target.icon, target.color, target.id
+      );
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION enroll_challenge_participant(uuid, uuid, jsonb, boolean) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS join_challenge(uuid, jsonb);
+
+CREATE OR REPLACE FUNCTION join_challenge(p_challenge_id uuid, p_links jsonb DEFAULT '{}')
+RETURNS text AS $$
+DECLARE
+  challenge challenges;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO challenge FROM challenges WHERE id = p_challenge_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT challenge.is_active THEN
+    RAISE EXCEPTION 'This challenge is no longer available';
+  END IF;
+
+  IF user_local_date(auth.uid()) > challenge.end_date THEN
+    RAISE EXCEPTION 'This challenge has ended';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM challenge_participants WHERE challenge_id = p_challenge_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You have already joined this challenge';
+  END IF;
+
+  IF challenge.max_participants IS NOT NULL
+    AND (SELECT count(*) FROM challenge_participants WHERE challenge_id = p_challenge_id) >= challenge.max_participants
+  THEN
+    INSERT INTO challenge_waitlist (challenge_id, user_id, links)
+    VALUES (p_challenge_id, auth.uid(), COALESCE(p_links, '{}'::jsonb))
+    ON CONFLICT (challenge_id, user_id) DO UPDATE SET links = EXCLUDED.links;
+
+    RETURN 'waitlisted';
+  END IF;
+
+  PERFORM enroll_challenge_participant(p_challenge_id, auth.uid(), COALESCE(p_links, '{}'::jsonb), true);
+  RETURN 'joined';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION promote_challenge_waitlist()
+RETURNS trigger AS $$
+DECLARE
+  challenge challenges;
+  next_entry challenge_waitlist;
+BEGIN
+  SELECT * INTO challenge FROM challenges WHERE id = OLD.challenge_id FOR UPDATE;
+
+  -- Nothing to promote into when the challenge itself was deleted
+  IF NOT FOUND OR NOT challenge.is_active THEN
+    RETURN OLD;
+  END IF;
+
+  LOOP
+    EXIT WHEN challenge.max_participants IS NOT NULL
+      AND (SELECT count(*) FROM challenge_participants WHERE challenge_id = challenge.id) >= challenge.max_participants;
+
+    SELECT * INTO next_entry
+    FROM challenge_waitlist w
+    WHERE w.challenge_id = challenge.id
+      AND user_local_date(w.user_id) <= challenge.end_date
+    ORDER BY w.created_at
+    LIMIT 1;
+
+    EXIT WHEN NOT FOUND;
+
+    DELETE FROM challenge_waitlist WHERE id = next_entry.id;
+    PERFORM enroll_challenge_participant(challenge.id, next_entry.user_id, next_entry.links, false);
+
+    INSERT INTO notifications (user_id, title, message, type, data, dedupe_key)
+    VALUES (
+      next_entry.user_id,
+      'You''re in! 🎉',
+      'A spot opened up in "' || challenge.title || '" and you''ve joined from the waitlist',
+      'info',
+      jsonb_build_object('challenge_id', challenge.id),
+      'challenge_promoted:' || challenge.id || ':' || next_entry.user_id || ':' || now()
+    )
+    ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+  END LOOP;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS promote_challenge_waitlist ON challenge_participants;
+CREATE TRIGGER promote_challenge_waitlist
+  AFTER DELETE ON challenge_participants
+  FOR EACH ROW EXECUTE FUNCTION promote_challenge_waitlist();
+
+-- Waitlist entries are private, so counts come from here
+CREATE OR REPLACE FUNCTION challenge_availability(p_challenge_ids uuid[])
+RETURNS TABLE (
+  challenge_id uuid,
+  participants integer,
+  spots_left integer,
+  waitlisted integer,
+  waitlist_position integer
+) AS $$
+  SELECT
+    c.id,
+    (SELECT count(*)::int FROM challenge_participants cp WHERE cp.challenge_id = c.id),
+    CASE WHEN c.max_participants IS NOT NULL THEN
+      greatest(c.max_participants - (SELECT count(*)::int FROM challenge_participants cp WHERE cp.challenge_id = c.id), 0)
+    END,
+    (SELECT count(*)::int FROM challenge_waitlist w WHERE w.challenge_id = c.id),
+    (SELECT ranked.position FROM (
+      SELECT w.user_id, row_number() OVER (ORDER BY w.created_at)::int AS position
+      FROM challenge_waitlist w
+      WHERE w.challenge_id = c.id
+    ) AS ranked WHERE ranked.user_id = auth.uid())
+  FROM challenges c
+  WHERE c.id = ANY(p_challenge_ids);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION join_challenge(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION challenge_availability(uuid[]) TO authenticated;
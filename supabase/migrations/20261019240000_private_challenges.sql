@@ -0,0 +1,549 @@
+/*
+  # Private challenges, invite codes and join approval
+
+  1. Changes
+    - `challenges.visibility`: `public` challenges are listed for everyone;
+      `private` ones are only visible to their creator and participants,
+      and are joined with the invite code
+    - `challenges.invite_code`: a short code for invite links, generated for
+      every challenge; creators can reset it
+    - `challenges.requires_approval`: joins wait for the creator's approval
+
+  2. New Tables
+    - `challenge_join_requests`: joins waiting for approval, with the habit
+      links the requester chose
+
+  3. Functions
+    - `can_view_challenge(p_challenge_id)`: whether the caller may see a
+      challenge; used by the policies and by functions that bypass them
+    - `get_challenge_invite(p_invite_code)` and
+      `list_challenge_invite_habits(p_invite_code)`: what an invite link
+      shows before joining
+    - `join_challenge(p_challenge_id, p_links, p_invite_code)` checks the
+      code of private challenges and returns `requested` when the join
+      needs approval
+    - `list_challenge_join_requests(p_challenge_id)` and
+      `respond_to_join_request(p_request_id, p_approve)` for creators
+    - `reset_challenge_invite_code(p_challenge_id)` for creators
+
+  4. Security
+    - Private challenges, their habits, participants and standings are
+      hidden from non-members
+    - Joining only goes through `join_challenge`, so invite codes and
+      approval can't be skipped with a direct insert
+    - Creators can remove participants from their challenges
+*/
+
+ALTER TABLE challenges ADD COLUMN IF NOT EXISTS visibility text DEFAULT 'public' NOT NULL;
+ALTER TABLE challenges ADD COLUMN IF NOT EXISTS requires_approval boolean DEFAULT false NOT NULL;
+ALTER TABLE challenges ADD COLUMN IF NOT EXISTS invite_code text
+  DEFAULT upper(substr(md5(gen_random_uuid()::text), 1, 8)) NOT NULL;
+
+ALTER TABLE challenges DROP CONSTRAINT IF EXISTS challenges_visibility_check;
+ALTER TABLE challenges ADD CONSTRAINT challenges_visibility_check
+  CHECK (visibility IN ('public', 'private'));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'challenges_invite_code_key'
+  ) THEN
+    ALTER TABLE challenges ADD CONSTRAINT challenges_invite_code_key UNIQUE (invite_code);
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS challenge_join_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  challenge_id uuid REFERENCES challenges(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  links jsonb DEFAULT '{}'::jsonb NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(challenge_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_challenge_join_requests_challenge_id ON challenge_join_requests(challenge_id);
+
+ALTER TABLE challenge_join_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own join requests"
+  ON challenge_join_requests
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can withdraw join requests"
+  ON challenge_join_requests
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Runs as its owner so policies on `challenges` and
+-- `challenge_participants` can use it without recursing into each other
+CREATE OR REPLACE FUNCTION can_view_challenge(p_challenge_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM challenges c
+    WHERE c.id = p_challenge_id
+      AND (
+        c.visibility = 'public'
+        OR c.creator_id = auth.uid()
+        OR EXISTS (
+          SELECT 1 FROM challenge_participants cp
+          WHERE cp.challenge_id = c.id AND cp.user_id = auth.uid()
+        )
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Anyone can view active challenges" ON challenges;
+CREATE POLICY "Users can view visible active challenges"
+  ON challenges
+  FOR SELECT
+  TO authenticated
+  -- The creator check comes first so `create_challenge` can read back the
+  -- row it is inserting, which `can_view_challenge` can't see yet
+  USING (is_active = true AND (visibility = 'public' OR creator_id = auth.uid() OR can_view_challenge(id)));
+
+DROP POLICY IF EXISTS "Users can view challenge participants" ON challenge_participants;
+CREATE POLICY "Users can view participants of visible challenges"
+  ON challenge_participants
+  FOR SELECT
+  TO authenticated
+  USING (can_view_challenge(challenge_id));
+
+DROP POLICY IF EXISTS "Users can join challenges" ON challenge_participants;
+
+CREATE POLICY "Creators can remove participants"
+  ON challenge_participants
+  FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM challenges c WHERE c.id = challenge_id AND c.creator_id = auth.uid()));
+
+-- A creator removing someone unlinks that person's habits
+CREATE OR REPLACE FUNCTION unlink_challenge_habits()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE habits
+  SET challenge_habit_id = NULL
+  WHERE user_id = OLD.user_id
+    AND challenge_habit_id IN (SELECT id FROM challenge_habits WHERE challenge_id = OLD.challenge_id);
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_challenge_invite(p_invite_code text)
+RETURNS SETOF challenges AS $$
+  SELECT * FROM challenges
+  WHERE invite_code = upper(trim(p_invite_code)) AND is_active = true;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION list_challenge_invite_habits(p_invite_code text)
+RETURNS SETOF challenge_habits AS $$
+  SELECT ch.* FROM challenge_habits ch
+  JOIN challenges c ON c.id = ch.challenge_id
+  WHERE c.invite_code = upper(trim(p_invite_code)) AND c.is_active = true
+  ORDER BY ch.position;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION reset_challenge_invite_code(p_challenge_id uuid)
+RETURNS text AS $$
+  UPDATE challenges
+  SET invite_code = upper(substr(md5(gen_random_uuid()::text), 1, 8))
+  WHERE id = p_challenge_id AND creator_id = auth.uid()
+  RETURNING invite_code;
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION create_challenge(p_challenge jsonb, p_habits jsonb)
+RETURNS challenges AS $$
+DECLARE
+  created challenges;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_habits) <> 'array' OR jsonb_array_length(p_habits) = 0 THEN
+    RAISE EXCEPTION 'Add at least one habit to the challenge';
+  END IF;
+
+  IF (p_challenge->>'end_date')::date < (p_challenge->>'start_date')::date THEN
+    RAISE EXCEPTION 'The challenge must end on or after its start date';
+  END IF;
+
+  INSERT INTO challenges (
+    title, description, creator_id, start_date, end_date, max_participants, scoring_mode,
+    visibility, requires_approval
+  )
+  SELECT c.title, c.description, auth.uid(), c.start_date, c.end_date, c.max_participants,
+    COALESCE(c.scoring_mode, 'completions'), COALESCE(c.visibility, 'public'), COALESCE(c.requires_approval, false)
+  FROM jsonb_to_record(p_challenge) AS c(
+    title text,
+    description text,
+    start_date date,
+    end_date date,
+    max_participants integer,
+    scoring_mode text,
+    visibility text,
+    requires_approval boolean
+  )
+  RETURNING * INTO created;
+
+  INSERT INTO challenge_habits (
+    challenge_id, title, description, category, icon, color, frequency,
+    target_count, schedule_days, schedule_interval, difficulty, position
+  )
+  SELECT
+    created.id,
+    h.title,
+    h.description,
+    COALESCE(h.category, 'General'),
+    COALESCE(h.icon, '🎯'),
+    COALESCE(h.color, 'bg-purple-500'),
+    COALESCE(h.frequency, 'daily'),
+    COALESCE(h.target_count, 1),
+    h.schedule_days,
+    h.schedule_interval,
+    COALESCE(h.difficulty, 'medium'),
+    h.position - 1
+  FROM ROWS FROM (
+    jsonb_to_recordset(p_habits) AS (
+      title text,
+      description text,
+      category text,
+      icon text,
+      color text,
+      frequency text,
+      target_count integer,
+      schedule_days integer[],
+      schedule_interval integer,
+      difficulty text
+    )
+  ) WITH ORDINALITY AS h(
+    title, description, category, icon, color, frequency, target_count,
+    schedule_days, schedule_interval, difficulty, position
+  );
+
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP FUNCTION IF EXISTS join_challenge(uuid, jsonb);
+
+CREATE OR REPLACE FUNCTION join_challenge(p_challenge_id uuid, p_links jsonb DEFAULT '{}', p_invite_code text DEFAULT NULL)
+RETURNS text AS $$
+DECLARE
+  challenge challenges;
+  requester text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO challenge FROM challenges WHERE id = p_challenge_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT challenge.is_active THEN
+    RAISE EXCEPTION 'This challenge is no longer available';
+  END IF;
+
+  -- Don't reveal private challenges to people without the code
+  IF challenge.visibility = 'private'
+    AND challenge.creator_id <> auth.uid()
+    AND challenge.invite_code IS DISTINCT FROM upper(trim(p_invite_code))
+  THEN
+    RAISE EXCEPTION 'This challenge is no longer available';
+  END IF;
+
+  IF user_local_date(auth.uid()) > challenge.end_date THEN
+    RAISE EXCEPTION 'This challenge has ended';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM challenge_participants WHERE challenge_id = p_challenge_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You have already joined this challenge';
+  END IF;
+
+  IF challenge.requires_approval AND challenge.creator_id <> auth.uid() THEN
+    INSERT INTO challenge_join_requests (challenge_id, user_id, links)
+    VALUES (p_challenge_id, auth.uid(), COALESCE(p_links, '{}'::jsonb))
+    ON CONFLICT (challenge_id, user_id) DO UPDATE SET links = EXCLUDED.links;
+
+    SELECT COALESCE(NULLIF(full_name, ''), NULLIF(username, ''), 'Someone') INTO requester
+    FROM profiles WHERE id = auth.uid();
+
+    INSERT INTO notifications (user_id, title, message, type, data, dedupe_key)
+    VALUES (
+      challenge.creator_id,
+      'Join request',
+      COALESCE(requester, 'Someone') || ' asked to join "' || challenge.title || '"',
+      'challenge_join',
+      jsonb_build_object('challenge_id', challenge.id, 'user_id', auth.uid()),
+      'challenge_request:' || challenge.id || ':' || auth.uid()
+    )
+    ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+
+    RETURN 'requested';
+  END IF;
+
+  IF challenge.max_participants IS NOT NULL
+    AND (SELECT count(*) FROM challenge_participants WHERE challenge_id = p_challenge_id) >= challenge.max_participants
+  THEN
+    INSERT INTO challenge_waitlist (challenge_id, user_id, links)
+    VALUES (p_challenge_id, auth.uid(), COALESCE(p_links, '{}'::jsonb))
+    ON CONFLICT (challenge_id, user_id) DO UPDATE SET links = EXCLUDED.links;
+
+    RETURN 'waitlisted';
+  END IF;
+
+  PERFORM enroll_challenge_participant(p_challenge_id, auth.uid(), COALESCE(p_links, '{}'::jsonb), true);
+  RETURN 'joined';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION list_challenge_join_requests(p_challenge_id uuid)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  display_name text,
+  created_at timestamptz
+) AS $$
+  SELECT
+    r.id,
+    r.user_id,
+    COALESCE(NULLIF(p.full_name, ''), NULLIF(p.username, ''), 'Someone'),
+    r.created_at
+  FROM challenge_join_requests r
+  JOIN challenges c ON c.id = r.challenge_id
+  LEFT JOIN profiles p ON p.id = r.user_id
+  WHERE r.challenge_id = p_challenge_id AND c.creator_id = auth.uid()
+  ORDER BY r.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+/*
+  Approving adds the requester with the habits they chose, or puts them on
+  the waitlist when the challenge has filled up since they asked.
+*/
+CREATE OR REPLACE FUNCTION respond_to_join_request(p_request_id uuid, p_approve boolean)
+RETURNS text AS $$
+DECLARE
+  request challenge_join_requests;
+  challenge challenges;
+  outcome text := 'declined';
+BEGIN
+  SELECT r.* INTO request
+  FROM challenge_join_requests r
+  JOIN challenges c ON c.id = r.challenge_id
+  WHERE r.id = p_request_id AND c.creator_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This request is no longer pending';
+  END IF;
+
+  SELECT * INTO challenge FROM challenges WHERE id = request.challenge_id FOR UPDATE;
+  DELETE FROM challenge_join_requests WHERE id = request.id;
+
+  IF p_approve THEN
+    IF challenge.max_participants IS NOT NULL
+      AND (SELECT count(*) FROM challenge_participants WHERE challenge_id = challenge.id) >= challenge.max_participants
+    THEN
+      INSERT INTO challenge_waitlist (challenge_id, user_id, links)
+      VALUES (challenge.id, request.user_id, request.links)
+      ON CONFLICT (challenge_id, user_id) DO NOTHING;
+      outcome := 'waitlisted';
+    ELSE
+      PERFORM enroll_challenge_participant(challenge.id, request.user_id, request.links, false);
+      outcome := 'joined';
+    END IF;
+  END IF;
+
+  INSERT INTO notifications (user_id, title, message, type, data, dedupe_key)
+  VALUES (
+    request.user_id,
+    CASE WHEN p_approve THEN 'Request approved 🎉' ELSE 'Request declined' END,
+    CASE outcome
+      WHEN 'joined' THEN 'You''ve joined "' || challenge.title || '"'
+      WHEN 'waitlisted' THEN '"' || challenge.title || '" is full, so you''re on the waitlist'
+      ELSE 'Your request to join "' || challenge.title || '" was declined'
+    END,
+    'info',
+    jsonb_build_object('challenge_id', challenge.id),
+    'challenge_response:' || request.id
+  )
+  ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+
+  RETURN outcome;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS challenge_availability(uuid[]);
+
+CREATE OR REPLACE FUNCTION challenge_availability(p_challenge_ids uuid[])
+RETURNS TABLE (
+  challenge_id uuid,
+  participants integer,
+  spots_left integer,
+  waitlisted integer,
+  waitlist_position integer,
+  request_pending boolean
+) AS $$
+  SELECT
+    c.id,
+    (SELECT count(*)::int FROM challenge_participants cp WHERE cp.challenge_id = c.id),
+    CASE WHEN c.max_participants IS NOT NULL THEN
+      greatest(c.max_participants - (SELECT count(*)::int FROM challenge_participants cp WHERE cp.challenge_id = c.id), 0)
+    END,
+    (SELECT count(*)::int FROM challenge_waitlist w WHERE w.challenge_id = c.id),
+    (SELECT ranked.position FROM (
+      SELECT w.user_id, row_number() OVER (ORDER BY w.created_at)::int AS position
+      FROM challenge_waitlist w
+      WHERE w.challenge_id = c.id
+    ) AS ranked WHERE ranked.user_id = auth.uid()),
+    EXISTS (
+      SELECT 1 FROM challenge_join_requests r
+      WHERE r.challenge_id = c.id AND r.user_id = auth.uid()
+    )
+  FROM challenges c
+  WHERE c.id = ANY(p_challenge_ids)
+    AND can_view_challenge(c.id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION challenge_progress(p_challenge_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  display_name text,
+  challenge_habit_id uuid,
+  check_ins integer,
+  periods_completed integer,
+  periods_total integer
+) AS $$
+  WITH challenge AS (
+    SELECT * FROM challenges
+    WHERE id = p_challenge_id AND is_active = true AND can_view_challenge(id)
+  ),
+  participants AS (
+    SELECT
+      cp.user_id,
+      COALESCE(NULLIF(p.full_name, ''), NULLIF(p.username, ''), 'Participant') AS display_name,
+      COALESCE(p.timezone, 'UTC') AS time_zone
+    FROM challenge_participants cp
+    JOIN challenge ON challenge.id = cp.challenge_id
+    LEFT JOIN profiles p ON p.id = cp.user_id
+  ),
+  targets AS (
+    SELECT
+      participants.user_id,
+      participants.display_name,
+      participants.time_zone,
+      ch.id AS challenge_habit_id,
+      challenge_habit_rule(ch, challenge.start_date, participants.time_zone) AS rule,
+      challenge.start_date,
+      challenge.end_date
+    FROM participants
+    CROSS JOIN challenge
+    JOIN challenge_habits ch ON ch.challenge_id = challenge.id
+  ),
+  check_ins AS (
+    SELECT
+      t.user_id,
+      t.challenge_habit_id,
+      habit_period_start(t.rule, local.day, t.time_zone) AS period_start,
+      count(*)::int AS check_ins
+    FROM targets t
+    JOIN habits h ON h.user_id = t.user_id AND h.challenge_habit_id = t.challenge_habit_id
+    JOIN habit_completions hc ON hc.habit_id = h.id
+    CROSS JOIN LATERAL (SELECT (hc.completed_at AT TIME ZONE t.time_zone)::date AS day) AS local
+    -- Up to the participant's today, like `challenge_standings`
+    WHERE local.day BETWEEN t.start_date AND least(t.end_date, (now() AT TIME ZONE t.time_zone)::date)
+      AND habit_is_scheduled(t.rule, local.day)
+      AND NOT COALESCE(hc.backfill_flagged, false)
+    GROUP BY 1, 2, 3
+  )
+  SELECT
+    t.user_id,
+    t.display_name,
+    t.challenge_habit_id,
+    COALESCE((
+      SELECT sum(c.check_ins)::int FROM check_ins c
+      WHERE c.user_id = t.user_id AND c.challenge_habit_id = t.challenge_habit_id
+    ), 0),
+    (
+      SELECT count(*)::int FROM check_ins c
+      WHERE c.user_id = t.user_id
+        AND c.challenge_habit_id = t.challenge_habit_id
+        AND c.check_ins >= habit_required_check_ins(t.rule)
+    ),
+    (
+      SELECT count(DISTINCT habit_period_start(t.rule, days.day::date, t.time_zone))::int
+      FROM generate_series(t.start_date, t.end_date, interval '1 day') AS days(day)
+      WHERE habit_is_scheduled(t.rule, days.day::date)
+    )
+  FROM targets t;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION challenge_leaderboard(p_challenge_id uuid)
+RETURNS TABLE (
+  rank integer,
+  user_id uuid,
+  display_name text,
+  score integer,
+  check_ins integer,
+  periods_completed integer,
+  periods_total integer,
+  consistency integer,
+  longest_streak integer,
+  points integer,
+  reached_at timestamptz,
+  is_final boolean
+) AS $$
+#variable_conflict use_column
+DECLARE
+  target challenges;
+BEGIN
+  SELECT * INTO target FROM challenges WHERE id = p_challenge_id;
+  IF NOT FOUND OR NOT can_view_challenge(p_challenge_id) THEN
+    RETURN;
+  END IF;
+
+  IF NOT challenge_has_ended(target) THEN
+    RETURN QUERY
+      SELECT s.rank, s.user_id, s.display_name, s.score, s.check_ins, s.periods_completed, s.periods_total,
+        s.consistency, s.longest_streak, s.points, s.reached_at, false
+      FROM challenge_standings(p_challenge_id) s
+      ORDER BY s.rank, s.display_name;
+    RETURN;
+  END IF;
+
+  -- Freeze the standings the first time they are read after the end
+  IF NOT EXISTS (SELECT 1 FROM challenge_results r WHERE r.challenge_id = p_challenge_id) THEN
+    INSERT INTO challenge_results (
+      challenge_id, user_id, rank, display_name, score, check_ins, periods_completed,
+      periods_total, consistency, longest_streak, points, reached_at, joined_at
+    )
+    SELECT
+      p_challenge_id, s.user_id, s.rank, s.display_name, s.score, s.check_ins, s.periods_completed,
+      s.periods_total, s.consistency, s.longest_streak, s.points, s.reached_at, s.joined_at
+    FROM challenge_standings(p_challenge_id) s
+    ON CONFLICT (challenge_id, user_id) DO NOTHING;
+  END IF;
+
+  RETURN QUERY
+    SELECT r.rank, r.user_id, r.display_name, r.score, r.check_ins, r.periods_completed, r.periods_total,
+      r.consistency, r.longest_streak, r.points, r.reached_at, true
+    FROM challenge_results r
+    WHERE r.challenge_id = p_challenge_id
+    ORDER BY r.rank, r.display_name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Anyone can view challenge results" ON challenge_results;
+CREATE POLICY "Users can view results of visible challenges"
+  ON challenge_results
+  FOR SELECT
+  TO authenticated
+  USING (can_view_challenge(challenge_id));
+
+GRANT EXECUTE ON FUNCTION get_challenge_invite(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION list_challenge_invite_habits(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION reset_challenge_invite_code(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION join_challenge(uuid, jsonb, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION list_challenge_join_requests(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION respond_to_join_request(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION challenge_availability(uuid[]) TO authenticated;
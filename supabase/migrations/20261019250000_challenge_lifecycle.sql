@@ -0,0 +1,379 @@
+/*
+  # Challenge lifecycle: editing, cancelling, closing and archiving
+
+  1. Changes
+    - `challenges.cancelled_at`: set when the creator ends a challenge early
+    - `challenges.archived_at`: set when the creator archives an ended or
+      cancelled challenge, which hides it from the past challenges list
+    - `is_active` now means the challenge is running. It is cleared when a
+      challenge is cancelled or has ended, at which point its standings are
+      frozen into `challenge_results` and its waitlist and join requests
+      are dropped
+    - Inactive challenges stay readable, so their final results can be
+      shown; challenge progress is reported for them too
+
+  2. Editing rules, enforced by a trigger on `challenges`
+    - Ended and cancelled challenges can't be edited, only archived
+    - The start date and scoring mode are fixed once the challenge starts
+    - A new end date can't already be over
+    - The participant limit can't drop below the number already joined;
+      raising it promotes people from the waitlist
+    - Making a public challenge private resets its invite code
+
+  3. Functions
+    - `cancel_challenge(p_challenge_id)`: creator only; freezes the
+      standings and notifies the participants
+    - `close_ended_challenges()`: closes every challenge whose end date is
+      over. The app calls it before listing past challenges, and
+      `challenge_leaderboard` also closes a challenge the first time it is
+      read after the end
+
+  4. Security
+    - Clients can only update the editable columns of `challenges`;
+      `is_active` and `cancelled_at` change through the functions above
+*/
+
+ALTER TABLE challenges ADD COLUMN IF NOT EXISTS cancelled_at timestamptz;
+ALTER TABLE challenges ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_challenges_is_active_end_date ON challenges(is_active, end_date);
+
+REVOKE UPDATE ON challenges FROM authenticated;
+GRANT UPDATE (
+  title, description, start_date, end_date, max_participants, scoring_mode,
+  visibility, requires_approval, invite_code, archived_at
+) ON challenges TO authenticated;
+
+DROP POLICY IF EXISTS "Users can view visible active challenges" ON challenges;
+CREATE POLICY "Users can view visible challenges"
+  ON challenges
+  FOR SELECT
+  TO authenticated
+  -- Checked before `can_view_challenge`, which can't see a row being inserted
+  USING (creator_id = auth.uid() OR visibility = 'public' OR can_view_challenge(id));
+
+CREATE OR REPLACE FUNCTION check_challenge_update()
+RETURNS trigger AS $$
+BEGIN
+  IF NOT OLD.is_active AND NEW.is_active THEN
+    RAISE EXCEPTION 'Ended challenges can''t be restarted';
+  END IF;
+
+  IF NOT OLD.is_active
+    AND (NEW.title, NEW.description, NEW.start_date, NEW.end_date, NEW.max_participants,
+      NEW.scoring_mode, NEW.visibility, NEW.requires_approval)
+    IS DISTINCT FROM (OLD.title, OLD.description, OLD.start_date, OLD.end_date, OLD.max_participants,
+      OLD.scoring_mode, OLD.visibility, OLD.requires_approval)
+  THEN
+    RAISE EXCEPTION 'Ended challenges can''t be edited';
+  END IF;
+
+  IF NEW.archived_at IS NOT NULL AND NEW.is_active THEN
+    RAISE EXCEPTION 'Only ended or cancelled challenges can be archived';
+  END IF;
+
+  IF (NEW.start_date, NEW.scoring_mode) IS DISTINCT FROM (OLD.start_date, OLD.scoring_mode)
+    AND user_local_date(OLD.creator_id) >= OLD.start_date
+  THEN
+    RAISE EXCEPTION 'The start date and scoring can''t change once the challenge has started';
+  END IF;
+
+  IF NEW.end_date IS DISTINCT FROM OLD.end_date AND NEW.end_date < user_local_date(OLD.creator_id) THEN
+    RAISE EXCEPTION 'The end date has already passed';
+  END IF;
+
+  IF NEW.max_participants IS DISTINCT FROM OLD.max_participants
+    AND NEW.max_participants < (SELECT count(*) FROM challenge_participants WHERE challenge_id = OLD.id)
+  THEN
+    RAISE EXCEPTION 'More people have already joined than the new limit allows';
+  END IF;
+
+  -- Codes shared while the challenge was public shouldn't let people in
+  IF OLD.visibility = 'public' AND NEW.visibility = 'private' THEN
+    NEW.invite_code := upper(substr(md5(gen_random_uuid()::text), 1, 8));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_challenge_update ON challenges;
+CREATE TRIGGER check_challenge_update
+  BEFORE UPDATE ON challenges
+  FOR EACH ROW EXECUTE FUNCTION check_challenge_update();
+
+-- Moves the longest-waiting people into free spots, with the habits they chose
+CREATE OR REPLACE FUNCTION fill_challenge_spots(p_challenge_id uuid)
+RETURNS void AS $$
+DECLARE
+  challenge challenges;
+  next_entry challenge_waitlist;
+BEGIN
+  SELECT * INTO challenge FROM challenges WHERE id = p_challenge_id FOR UPDATE;
+
+  -- Nothing to promote into when the challenge itself was deleted
+  IF NOT FOUND OR NOT challenge.is_active THEN
+    RETURN;
+  END IF;
+
+  LOOP
+    EXIT WHEN challenge.max_participants IS NOT NULL
+      AND (SELECT count(*) FROM challenge_participants WHERE challenge_id = challenge.id) >= challenge.max_participants;
+
+    SELECT * INTO next_entry
+    FROM challenge_waitlist w
+    WHERE w.challenge_id = challenge.id
+      AND user_local_date(w.user_id) <= challenge.end_date
+    ORDER BY w.created_at
+    LIMIT 1;
+
+    EXIT WHEN NOT FOUND;
+
+    DELETE FROM challenge_waitlist WHERE id = next_entry.id;
+    PERFORM enroll_challenge_participant(challenge.id, next_entry.user_id, next_entry.links, false);
+
+    INSERT INTO notifications (user_id, title, message, type, data, dedupe_key)
+    VALUES (
+      next_entry.user_id,
+      'You''re in! 🎉',
+      'A spot opened up in "' || challenge.title || '" and you''ve joined from the waitlist',
+      'info',
+      jsonb_build_object('challenge_id', challenge.id),
+      'challenge_promoted:' || challenge.id || ':' || next_entry.user_id || ':' || now()
+    )
+    ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION fill_challenge_spots(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION promote_challenge_waitlist()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM fill_challenge_spots(OLD.challenge_id);
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION promote_challenge_waitlist_on_resize()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.max_participants IS NULL OR NEW.max_participants > OLD.max_participants THEN
+    PERFORM fill_challenge_spots(NEW.id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS promote_challenge_waitlist_on_resize ON challenges;
+CREATE TRIGGER promote_challenge_waitlist_on_resize
+  AFTER UPDATE OF max_participants ON challenges
+  FOR EACH ROW
+  WHEN (OLD.max_participants IS NOT NULL)
+  EXECUTE FUNCTION promote_challenge_waitlist_on_resize();
+
+/*
+  Freezes the standings, stops the challenge and drops anyone still waiting
+  to join. Safe to call again on a closed challenge.
+*/
+CREATE OR REPLACE FUNCTION close_challenge(p_challenge_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM challenge_results r WHERE r.challenge_id = p_challenge_id) THEN
+    INSERT INTO challenge_results (
+      challenge_id, user_id, rank, display_name, score, check_ins, periods_completed,
+      periods_total, consistency, longest_streak, points, reached_at, joined_at
+    )
+    SELECT
+      p_challenge_id, s.user_id, s.rank, s.display_name, s.score, s.check_ins, s.periods_completed,
+      s.periods_total, s.consistency, s.longest_streak, s.points, s.reached_at, s.joined_at
+    FROM challenge_standings(p_challenge_id) s
+    ON CONFLICT (challenge_id, user_id) DO NOTHING;
+  END IF;
+
+  UPDATE challenges SET is_active = false WHERE id = p_challenge_id AND is_active;
+
+  DELETE FROM challenge_waitlist WHERE challenge_id = p_challenge_id;
+  DELETE FROM challenge_join_requests WHERE challenge_id = p_challenge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION close_challenge(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION close_ended_challenges()
+RETURNS integer AS $$
+DECLARE
+  ended_id uuid;
+  closed integer := 0;
+BEGIN
+  FOR ended_id IN
+    SELECT c.id FROM challenges c WHERE c.is_active AND challenge_has_ended(c)
+  LOOP
+    PERFORM close_challenge(ended_id);
+    closed := closed + 1;
+  END LOOP;
+
+  RETURN closed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+CREATE OR REPLACE FUNCTION cancel_challenge(p_challenge_id uuid)
+RETURNS void AS $$
+DECLARE
+  challenge challenges;
+BEGIN
+  SELECT * INTO challenge FROM challenges
+  WHERE id = p_challenge_id AND creator_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the creator can cancel this challenge';
+  END IF;
+
+  IF NOT challenge.is_active THEN
+    RAISE EXCEPTION 'This challenge has already ended';
+  END IF;
+
+  UPDATE challenges SET cancelled_at = now() WHERE id = p_challenge_id;
+  PERFORM close_challenge(p_challenge_id);
+
+  INSERT INTO notifications (user_id, title, message, type, data, dedupe_key)
+  SELECT
+    cp.user_id,
+    'Challenge cancelled',
+    '"' || challenge.title || '" was ended early by its creator. The standings so far are final',
+    'info',
+    jsonb_build_object('challenge_id', challenge.id),
+    'challenge_cancelled:' || challenge.id
+  FROM challenge_participants cp
+  WHERE cp.challenge_id = p_challenge_id AND cp.user_id <> auth.uid()
+  ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION challenge_progress(p_challenge_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  display_name text,
+  challenge_habit_id uuid,
+  check_ins integer,
+  periods_completed integer,
+  periods_total integer
+) AS $$
+  WITH challenge AS (
+    SELECT * FROM challenges
+    WHERE id = p_challenge_id AND can_view_challenge(id)
+  ),
+  participants AS (
+    SELECT
+      cp.user_id,
+      COALESCE(NULLIF(p.full_name, ''), NULLIF(p.username, ''), 'Participant') AS display_name,
+      COALESCE(p.timezone, 'UTC') AS time_zone
+    FROM challenge_participants cp
+    JOIN challenge ON challenge.id = cp.challenge_id
+    LEFT JOIN profiles p ON p.id = cp.user_id
+  ),
+  targets AS (
+    SELECT
+      participants.user_id,
+      participants.display_name,
+      participants.time_zone,
+      ch.id AS challenge_habit_id,
+      challenge_habit_rule(ch, challenge.start_date, participants.time_zone) AS rule,
+      challenge.start_date,
+      challenge.end_date
+    FROM participants
+    CROSS JOIN challenge
+    JOIN challenge_habits ch ON ch.challenge_id = challenge.id
+  ),
+  check_ins AS (
+    SELECT
+      t.user_id,
+      t.challenge_habit_id,
+      habit_period_start(t.rule, local.day, t.time_zone) AS period_start,
+      count(*)::int AS check_ins
+    FROM targets t
+    JOIN habits h ON h.user_id = t.user_id AND h.challenge_habit_id = t.challenge_habit_id
+    JOIN habit_completions hc ON hc.habit_id = h.id
+    CROSS JOIN LATERAL (SELECT (hc.completed_at AT TIME ZONE t.time_zone)::date AS day) AS local
+    -- Up to the participant's today, like `challenge_standings`
+    WHERE local.day BETWEEN t.start_date AND least(t.end_date, (now() AT TIME ZONE t.time_zone)::date)
+      AND habit_is_scheduled(t.rule, local.day)
+      AND NOT COALESCE(hc.backfill_flagged, false)
+    GROUP BY 1, 2, 3
+  )
+  SELECT
+    t.user_id,
+    t.display_name,
+    t.challenge_habit_id,
+    COALESCE((
+      SELECT sum(c.check_ins)::int FROM check_ins c
+      WHERE c.user_id = t.user_id AND c.challenge_habit_id = t.challenge_habit_id
+    ), 0),
+    (
+      SELECT count(*)::int FROM check_ins c
+      WHERE c.user_id = t.user_id
+        AND c.challenge_habit_id = t.challenge_habit_id
+        AND c.check_ins >= habit_required_check_ins(t.rule)
+    ),
+    (
+      SELECT count(DISTINCT habit_period_start(t.rule, days.day::date, t.time_zone))::int
+      FROM generate_series(t.start_date, t.end_date, interval '1 day') AS days(day)
+      WHERE habit_is_scheduled(t.rule, days.day::date)
+    )
+  FROM targets t;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION challenge_leaderboard(p_challenge_id uuid)
+RETURNS TABLE (
+  rank integer,
+  user_id uuid,
+  display_name text,
+  score integer,
+  check_ins integer,
+  periods_completed integer,
+  periods_total integer,
+  consistency integer,
+  longest_streak integer,
+  points integer,
+  reached_at timestamptz,
+  is_final boolean
+) AS $$
+#variable_conflict use_column
+DECLARE
+  target challenges;
+BEGIN
+  SELECT * INTO target FROM challenges WHERE id = p_challenge_id;
+  IF NOT FOUND OR NOT can_view_challenge(p_challenge_id) THEN
+    RETURN;
+  END IF;
+
+  IF target.is_active AND NOT challenge_has_ended(target) THEN
+    RETURN QUERY
+      SELECT s.rank, s.user_id, s.display_name, s.score, s.check_ins, s.periods_completed, s.periods_total,
+        s.consistency, s.longest_streak, s.points, s.reached_at, false
+      FROM challenge_standings(p_challenge_id) s
+      ORDER BY s.rank, s.display_name;
+    RETURN;
+  END IF;
+
+  -- Closes the challenge the first time it is read after the end, in case
+  -- the scheduled job hasn't run yet
+  PERFORM close_challenge(p_challenge_id);
+
+  RETURN QUERY
+    SELECT r.rank, r.user_id, r.display_name, r.score, r.check_ins, r.periods_completed, r.periods_total,
+      r.consistency, r.longest_streak, r.points, r.reached_at, true
+    FROM challenge_results r
+    WHERE r.challenge_id = p_challenge_id
+    ORDER BY r.rank, r.display_name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Challenges that ended before this migration
+SELECT close_ended_challenges();
+
+GRANT EXECUTE ON FUNCTION cancel_challenge(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION close_ended_challenges() TO authenticated;